@@ -7,23 +7,77 @@
 import * as util from 'node:util';
 import { FieldFilter } from './compliance/LoggingMatrix';
 import type { LoggingMatrix } from './compliance/LoggingMatrix';
-import { AsyncContext } from './context/Context';
+import { AsyncContext, TRACE_CONTEXT_KEY } from './context/Context';
+import type { TraceContext } from './context/TraceContext';
 import type { LogLevel } from './levels';
 import { isLevelEnabled } from './levels';
 import type { MaskingEngine } from './masking/MaskingEngine';
 import type { MaskingRule } from './masking/MaskingEngine';
 import { MaskingEngine as MaskingEngineClass } from './masking/MaskingEngine';
+import { DEFAULT_CENSOR, REDACTED_REMOVE, type Redactor } from './redaction/Redactor';
 import type { SanitizationEngine } from './sanitization/SanitizationEngine';
 import { SanitizationEngine as SanitizationEngineClass } from './sanitization/SanitizationEngine';
+import type { Serializer, Serializers } from './serializers/StandardSerializers';
 import type { Transport } from './transports/Transport';
 import { JsonTransport } from './transports/json';
 import type { JsonValue, LogFormatArg, LogMetadata } from './types';
 import type { LogRetentionRules } from './types';
+import { errorReplacer, serialize, serializeErrors } from './utils/serialize';
 
 export interface LoggerBindings {
   [key: string]: unknown;
 }
 
+/**
+ * Output field names for the W3C trace context kept in AsyncContext.
+ */
+export interface TraceFieldNames {
+  /** Default: 'trace_id' */
+  traceId?: string;
+  /** Default: 'span_id' */
+  spanId?: string;
+  /** Default: 'trace_flags' */
+  traceFlags?: string;
+}
+
+/** util.format numeric placeholders (and the '%%' escape, which is kept) */
+const NUMERIC_PLACEHOLDER_REGEX = /%[%dif]/g;
+
+/** Default trace field names (OpenTelemetry log data model naming) */
+const DEFAULT_TRACE_FIELDS: Required<TraceFieldNames> = {
+  traceId: 'trace_id',
+  spanId: 'span_id',
+  traceFlags: 'trace_flags',
+};
+
+/**
+ * Settings a logger inherits from its LoggerRegistry namespace.
+ * Undefined values keep the logger's current setting.
+ */
+export interface InheritedLoggerConfig {
+  level: LogLevel;
+  /** The level comes from LOG_LEVEL / LOG_LEVELS / DEBUG and wins over one set on the logger */
+  levelFromEnv?: boolean;
+  transport?: Transport;
+  sanitizationEngine?: SanitizationEngine;
+  maskingEngine?: MaskingEngine;
+  loggingMatrix?: LoggingMatrix;
+}
+
+/** Inherited settings a logger can set for itself (setLevel, reconfigure, getLogger options) */
+export type InheritedSetting = 'level' | 'transport' | 'maskingEngine' | 'loggingMatrix';
+
+/** A tracked child logger and the set holding its reference */
+interface ChildEntry {
+  children: Set<WeakRef<Logger>>;
+  ref: WeakRef<Logger>;
+}
+
+/** Drops collected child loggers from their parent's set */
+const childCleanup = new FinalizationRegistry<ChildEntry>(({ children, ref }) => {
+  children.delete(ref);
+});
+
 /**
  * Core Logger class
  */
@@ -37,6 +91,16 @@ export class Logger {
   private sanitizationEngine?: SanitizationEngine;
   private maskingEngine?: MaskingEngine;
   private fieldFilter?: FieldFilter;
+  /** Per-key serializers (undefined when none are configured, keeping the hot path check cheap) */
+  private serializers?: Serializers;
+  private redactor?: Redactor;
+  private traceFields: Required<TraceFieldNames> = DEFAULT_TRACE_FIELDS;
+  /** Settings set on this logger itself: parent and namespace changes no longer replace them */
+  private readonly overrides = new Set<InheritedSetting>();
+  /** Child loggers, held weakly so per-request children can be collected */
+  private children?: Set<WeakRef<Logger>>;
+  /** Mask format arguments before they are interpolated into the message */
+  private maskFormatArgs = false;
 
   /**
    * Disable async context lookup for this logger instance for max performance.
@@ -58,6 +122,10 @@ export class Logger {
       maskingEngine?: MaskingEngine;
       useAsyncContext?: boolean;
       loggingMatrix?: LoggingMatrix;
+      serializers?: Serializers;
+      redactor?: Redactor;
+      traceFields?: TraceFieldNames;
+      maskFormatArgs?: boolean;
     }
   ) {
     this.name = name;
@@ -69,6 +137,15 @@ export class Logger {
     // Assign optional engines (guard clauses for clarity)
     this.sanitizationEngine = options?.sanitizationEngine;
     this.maskingEngine = options?.maskingEngine;
+    this.redactor = options?.redactor;
+    this.maskFormatArgs = options?.maskFormatArgs ?? false;
+
+    // Guard clause: The policy promises masked arguments - refuse to log them in clear instead
+    if (this.maskFormatArgs && !this.sanitizationEngine?.hasMaskingEngine()) {
+      throw new Error(
+        '[Logger] maskFormatArgs needs a masking engine (pass maskingEngine, or a SanitizationEngine built with one).'
+      );
+    }
 
     // Guard clause: Set async context flag if provided
     if (options?.useAsyncContext !== undefined) {
@@ -79,15 +156,25 @@ export class Logger {
     if (options?.loggingMatrix) {
       this.fieldFilter = new FieldFilter(options.loggingMatrix);
     }
+
+    // Guard clause: Override trace field names if provided
+    if (options?.traceFields) {
+      this.traceFields = { ...DEFAULT_TRACE_FIELDS, ...options.traceFields };
+    }
+
+    // Guard clause: Keep serializers only when at least one is configured
+    if (options?.serializers && this.hasNonEmptyObject(options.serializers)) {
+      this.serializers = { ...options.serializers };
+    }
   }
 
   /**
    * Internal logging method.
    * Uses guard clauses and functional parsing for better maintainability.
    */
-  private log(level: LogLevel, ...args: (LogFormatArg | LogMetadata | JsonValue)[]): void {
-    // Guard clause: Level not enabled - early return
-    if (!isLevelEnabled(level, this.level)) {
+  private log(level: LogLevel, ...args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): void {
+    // Guard clause: Level not enabled - early return (unless the context asks for more detail)
+    if (!isLevelEnabled(level, this.level) && !this.isEnabledByContext(level)) {
       return;
     }
 
@@ -98,13 +185,33 @@ export class Logger {
     }
 
     // Parse arguments following Pino-like signature (functional approach)
-    const { message, metadata } = this.parseLogArguments(args);
+    const parsed = this.parseLogArguments(args);
+    const metadata = parsed.metadata;
+    // The message can carry secrets too (interpolated or not) - same engine as the metadata
+    const message = this.sanitizationEngine
+      ? this.sanitizationEngine.processMessage(parsed.message)
+      : parsed.message;
 
     // Get async context (conditional check for performance)
-    const { store, hasContext } = this.getAsyncContext();
+    const { store, hasContext, trace } = this.getAsyncContext();
 
     // Write log entry (Single Responsibility: delegates to specialized method)
-    this.writeLogEntry(level, message, metadata, hasContext, store);
+    this.writeLogEntry(level, message, metadata, hasContext, store, trace);
+  }
+
+  /**
+   * Check the per-context log level override (Single Responsibility).
+   * No store lookup until some context has set an override; silent loggers stay silent.
+   * @private
+   */
+  private isEnabledByContext(level: LogLevel): boolean {
+    // Guard clause: No override ever set, context disabled, or logger silenced
+    if (!AsyncContext.hasLogLevelOverrides() || !this.useAsyncContext || this.level === 'silent') {
+      return false;
+    }
+
+    const override = AsyncContext.getLogLevel();
+    return override !== undefined && isLevelEnabled(level, override);
   }
 
   /**
@@ -114,12 +221,22 @@ export class Logger {
    *
    * @private
    */
-  private parseLogArguments(args: (LogFormatArg | LogMetadata | JsonValue)[]): {
+  private parseLogArguments(args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): {
     message: string;
     metadata: LogMetadata;
   } {
     const firstArg = args[0];
 
+    // Guard clause: First arg is an Error
+    if (firstArg instanceof Error) {
+      // Pattern: logger.error(err) or logger.error(err, 'Payment failed', ...formatArgs)
+      const hasMessage = args.length > 1;
+      const messageArg = hasMessage ? String(args[1] ?? '') : firstArg.message;
+      const message = hasMessage ? this.formatMessage(messageArg, args.slice(2)) : messageArg;
+
+      return { message, metadata: { err: firstArg } };
+    }
+
     // Guard clause: First arg is metadata object
     const isMetadataObject =
       typeof firstArg === 'object' && firstArg !== null && !Array.isArray(firstArg);
@@ -149,24 +266,36 @@ export class Logger {
    */
   private formatMessage(
     messageArg: string,
-    formatArgs: (LogFormatArg | LogMetadata | JsonValue)[]
+    formatArgs: (LogFormatArg | LogMetadata | JsonValue | Error)[]
   ): string {
     // Guard clause: No format arguments or empty message
     if (!messageArg || formatArgs.length === 0) {
       return messageArg;
     }
 
+    // Guard clause: Policy masks the arguments before they reach the message.
+    // Masked numbers are strings, so numeric placeholders render them as text instead of NaN
+    if (this.maskFormatArgs && this.sanitizationEngine) {
+      const template = messageArg.replace(NUMERIC_PLACEHOLDER_REGEX, (token) =>
+        token === '%%' ? token : '%s'
+      );
+      return util.format(template, ...this.sanitizationEngine.processFormatArgs(formatArgs));
+    }
+
     // Functional: Format message with util.format
     return util.format(messageArg, ...formatArgs);
   }
 
   /**
    * Get async context if enabled (Single Responsibility).
+   * A trace from the configured provider (e.g. OpenTelemetry) is returned separately and
+   * overlays the stored one when fields are written, so the store is never copied or modified.
    * @private
    */
   private getAsyncContext(): {
     store: Map<string, unknown> | undefined;
     hasContext: boolean;
+    trace?: TraceContext;
   } {
     // Guard clause: Async context disabled
     if (!this.useAsyncContext) {
@@ -174,9 +303,10 @@ export class Logger {
     }
 
     const store = AsyncContext.getStore();
-    const hasContext = !!store && store.size > 0;
+    const trace = AsyncContext.getProvidedTraceContext();
+    const hasContext = !!trace || (!!store && store.size > 0);
 
-    return { store, hasContext };
+    return { store, hasContext, trace };
   }
 
   /**
@@ -190,7 +320,8 @@ export class Logger {
     message: string,
     metadata: LogMetadata,
     hasContext: boolean,
-    store: Map<string, unknown> | undefined
+    store: Map<string, unknown> | undefined,
+    trace?: TraceContext
   ): void {
     // Guard clause: Check if we have any additional data to add (optimized checks)
     const hasBindings = this.hasNonEmptyObject(this.bindings);
@@ -215,7 +346,8 @@ export class Logger {
         json,
         { metadata, bindings: this.bindings },
         hasContext,
-        store
+        store,
+        trace
       );
       json += '}';
       this.writeToTransport(json);
@@ -223,7 +355,7 @@ export class Logger {
     }
 
     // Process through compliance pipeline (sanitization + masking)
-    const processed = this.processCompliancePipeline(metadata, hasContext, store, level);
+    const processed = this.processCompliancePipeline(metadata, hasContext, store, level, trace);
 
     // Build final JSON with processed data
     json = this.appendFieldsToJson(
@@ -232,6 +364,7 @@ export class Logger {
         metadata: processed.processedMetadata,
         context: processed.processedContext,
         bindings: processed.processedBindings,
+        processed: true,
       },
       hasContext,
       store
@@ -291,7 +424,8 @@ export class Logger {
     metadata: LogMetadata,
     hasContext: boolean,
     store: Map<string, unknown> | undefined,
-    level: LogLevel
+    level: LogLevel,
+    trace?: TraceContext
   ): {
     processedMetadata: LogMetadata;
     processedContext: Map<string, unknown> | undefined;
@@ -308,12 +442,7 @@ export class Logger {
 
     // Collect all data sources (functional approach)
     // Optimization: Direct Map iteration is faster than Array.from for small maps
-    const contextData =
-      hasContext && store
-        ? Object.fromEntries(
-            Array.from(store.entries()).filter(([, value]) => value !== undefined) // Key is always defined from Map entries
-          )
-        : {};
+    const contextData = hasContext ? this.contextToRecord(store, trace) : {};
 
     const filteredContext =
       this.fieldFilter && hasContext
@@ -321,11 +450,13 @@ export class Logger {
         : contextData;
 
     // Combine all data sources (metadata takes precedence)
-    const combinedData = {
+    // Serializers, redaction and Errors run first so their output is sanitized and masked too
+    const serialized = this.applySerializers({
       ...this.collectValidBindings(),
       ...filteredContext,
       ...metadata,
-    };
+    });
+    const combinedData = serializeErrors(this.redactRecord(serialized)) as Record<string, unknown>;
 
     // Process through compliance pipeline
     const sanitized = this.sanitizationEngine.process(combinedData);
@@ -342,6 +473,62 @@ export class Logger {
     };
   }
 
+  /**
+   * Context entries with the provided trace (if any) in place of the stored one.
+   * @private
+   */
+  private *contextEntries(
+    store: Map<string, unknown> | undefined,
+    trace?: TraceContext
+  ): Generator<[string, unknown]> {
+    for (const entry of store ?? []) {
+      // Guard clause: The provided trace replaces the stored one
+      if (trace && entry[0] === TRACE_CONTEXT_KEY) continue;
+      yield entry;
+    }
+    if (trace) {
+      yield [TRACE_CONTEXT_KEY, trace];
+    }
+  }
+
+  /**
+   * Convert the context store to a record, expanding the trace context into its fields.
+   * Functional approach: flatMap keeps a single pass over the entries.
+   * @private
+   */
+  private contextToRecord(
+    store: Map<string, unknown> | undefined,
+    trace?: TraceContext
+  ): Record<string, unknown> {
+    return Object.fromEntries(
+      Array.from(this.contextEntries(store, trace))
+        .filter(([, value]) => value !== undefined) // Key is always defined from Map entries
+        .flatMap(([key, value]) =>
+          key === TRACE_CONTEXT_KEY ? this.traceFieldEntries(value) : [[key, value]]
+        )
+    );
+  }
+
+  /**
+   * Trace context as [fieldName, value] pairs using the configured names.
+   * @private
+   */
+  private traceFieldEntries(value: unknown): [string, unknown][] {
+    // Guard clause: Only trace context objects hold ids (skip anything else set under the key)
+    if (typeof value !== 'object' || value === null) {
+      return [];
+    }
+
+    const trace = value as Partial<TraceContext>;
+    return (
+      [
+        [this.traceFields.traceId, trace.traceId],
+        [this.traceFields.spanId, trace.spanId],
+        [this.traceFields.traceFlags, trace.traceFlags],
+      ] as [string, unknown][]
+    ).filter(([, id]) => id !== undefined);
+  }
+
   /**
    * Collect valid bindings (functional approach).
    * Optimized: Key check is redundant (Object.keys never returns empty strings).
@@ -421,18 +608,28 @@ export class Logger {
       metadata: LogMetadata;
       context?: Map<string, unknown>;
       bindings?: LoggerBindings;
+      /** Values already went through serializers and redaction (compliance pipeline) */
+      processed?: boolean;
     },
     hasContext: boolean,
-    store: Map<string, unknown> | undefined
+    store: Map<string, unknown> | undefined,
+    trace?: TraceContext
   ): string {
     let result = json;
+    const processed = data.processed ?? false;
 
     // Append context fields (functional approach)
-    if (hasContext && (data.context || store)) {
-      const contextToUse = data.context || (store ?? new Map());
-      result += Array.from(contextToUse.entries())
+    if (hasContext && (data.context || store || trace)) {
+      const entries = data.context ? data.context.entries() : this.contextEntries(store, trace);
+      result += Array.from(entries)
         .filter(([key, value]) => key && value !== undefined)
-        .map(([key, value]) => `,"${key}":${JSON.stringify(value)}`)
+        .map(([key, value]) =>
+          key === TRACE_CONTEXT_KEY
+            ? this.traceFieldEntries(value)
+                .map(([name, id]) => `,"${name}":${JSON.stringify(id)}`)
+                .join('')
+            : this.formatField(key, value, processed)
+        )
         .join('');
     }
 
@@ -441,7 +638,7 @@ export class Logger {
       result += Object.keys(data.bindings)
         .filter((key) => key && data.bindings?.[key] !== undefined)
         .filter((key) => !hasContext || !store?.has(key))
-        .map((key) => `,"${key}":${JSON.stringify(data.bindings?.[key])}`)
+        .map((key) => this.formatField(key, data.bindings?.[key], processed))
         .join('');
     }
 
@@ -455,13 +652,119 @@ export class Logger {
             !data.bindings || !Object.prototype.hasOwnProperty.call(data.bindings, key);
           return notInContext && notInBindings;
         })
-        .map((key) => `,"${key}":${JSON.stringify(data.metadata[key])}`)
+        .map((key) => this.formatField(key, data.metadata[key], processed))
         .join('');
     }
 
     return result;
   }
 
+  /**
+   * Format a field as `,"key":value`, running its serializer and redaction paths first
+   * unless the compliance pipeline already did. Returns '' for removed fields.
+   * @private
+   */
+  private formatField(key: string, value: unknown, processed: boolean): string {
+    // Guard clause: Already serialized and redacted
+    if (processed) {
+      return `,"${key}":${this.stringifyValue(value)}`;
+    }
+
+    const serializer = this.serializers?.[key];
+    const serialized = serializer ? this.runSerializer(serializer, value) : value;
+    const redacted = this.runRedactor(key, serialized);
+
+    return redacted === REDACTED_REMOVE ? '' : `,"${key}":${this.stringifyValue(redacted)}`;
+  }
+
+  /**
+   * Stringify a field value, expanding Errors at any depth (Single Responsibility).
+   * Primitives skip the replacer so the common case stays a plain JSON.stringify;
+   * BigInt is written as a string at any depth, and circular references fall back to serialize().
+   * @private
+   */
+  private stringifyValue(value: unknown): string {
+    // Guard clause: Primitive - nothing to expand
+    if (typeof value !== 'object' || value === null) {
+      return typeof value === 'bigint' ? JSON.stringify(value.toString()) : JSON.stringify(value);
+    }
+
+    try {
+      return JSON.stringify(value, errorReplacer);
+    } catch {
+      return JSON.stringify(serialize(value), errorReplacer) ?? 'null';
+    }
+  }
+
+  /**
+   * Apply serializers to the top-level keys of a record (functional + immutable).
+   * @private
+   */
+  private applySerializers(data: Record<string, unknown>): Record<string, unknown> {
+    const serializers = this.serializers;
+
+    // Guard clause: No serializers configured
+    if (!serializers) {
+      return data;
+    }
+
+    return Object.keys(data).reduce<Record<string, unknown>>((acc, key) => {
+      const serializer = serializers[key];
+      acc[key] = serializer ? this.runSerializer(serializer, data[key]) : data[key];
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Run a serializer; a throwing serializer falls back to serialize() (Silent Observer).
+   * @private
+   */
+  private runSerializer(serializer: Serializer, value: unknown): unknown {
+    try {
+      return serializer(value);
+    } catch (error) {
+      console.error('[Logger Error] Serializer failed:', error);
+      return serialize(value);
+    }
+  }
+
+  /**
+   * Apply redaction paths to the top-level keys of a record, dropping removed keys.
+   * @private
+   */
+  private redactRecord(data: Record<string, unknown>): Record<string, unknown> {
+    // Guard clause: No redaction configured
+    if (!this.redactor) {
+      return data;
+    }
+
+    return Object.keys(data).reduce<Record<string, unknown>>((acc, key) => {
+      const value = this.runRedactor(key, data[key]);
+      if (value !== REDACTED_REMOVE) {
+        acc[key] = value;
+      }
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Redact a field; a throwing censor fails closed to the default censor (Silent Observer).
+   * @private
+   */
+  private runRedactor(key: string, value: unknown): unknown {
+    // Guard clause: No redaction configured
+    if (!this.redactor) {
+      return value;
+    }
+
+    try {
+      return this.redactor.redactField(key, value);
+    } catch (error) {
+      console.error('[Logger Error] Redaction failed:', error);
+      return DEFAULT_CENSOR;
+    }
+  }
+
   /**
    * Write to transport with error handling (Single Responsibility).
    * @private
@@ -476,42 +779,148 @@ export class Logger {
   }
 
   // Public logging methods
-  fatal(...args: (LogFormatArg | LogMetadata | JsonValue)[]): void {
+  fatal(...args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): void {
     this.log('fatal', ...args);
   }
 
-  error(...args: (LogFormatArg | LogMetadata | JsonValue)[]): void {
+  error(...args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): void {
     this.log('error', ...args);
   }
 
-  warn(...args: (LogFormatArg | LogMetadata | JsonValue)[]): void {
+  warn(...args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): void {
     this.log('warn', ...args);
   }
 
-  info(...args: (LogFormatArg | LogMetadata | JsonValue)[]): void {
+  info(...args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): void {
     this.log('info', ...args);
   }
 
-  debug(...args: (LogFormatArg | LogMetadata | JsonValue)[]): void {
+  debug(...args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): void {
     this.log('debug', ...args);
   }
 
-  trace(...args: (LogFormatArg | LogMetadata | JsonValue)[]): void {
+  trace(...args: (LogFormatArg | LogMetadata | JsonValue | Error)[]): void {
     this.log('trace', ...args);
   }
 
   /**
-   * Set the log level
+   * Set the log level.
+   * Child loggers follow the change unless their own level was set explicitly.
    */
   setLevel(level: LogLevel): void {
     this.level = level;
+    this.overrides.add('level');
+    this.propagateLevel(level);
+  }
+
+  /**
+   * Apply settings inherited from a LoggerRegistry namespace to this logger and its children.
+   * Settings set on a logger itself (setLevel, reconfigure, getLogger options) are kept,
+   * except levels from the environment, which win over levels set in code.
+   * @internal Used by LoggerRegistry
+   */
+  applyInheritedConfig(config: InheritedLoggerConfig): void {
+    this.applyInherited(config, config.levelFromEnv === true);
+  }
+
+  /**
+   * Keep settings given to this logger when its namespace changes.
+   * @internal Used by LoggerRegistry for getLogger options
+   */
+  pinSettings(settings: InheritedSetting[]): void {
+    for (const setting of settings) {
+      this.overrides.add(setting);
+    }
+  }
+
+  /**
+   * Apply the inherited settings this logger does not override, then pass what it
+   * now uses on to its children (Single Responsibility).
+   * @private
+   */
+  private applyInherited(config: Partial<InheritedLoggerConfig>, forceLevel = false): void {
+    const inherits = (setting: InheritedSetting) => !this.overrides.has(setting);
+    const applied: Partial<InheritedLoggerConfig> = {
+      level: forceLevel || inherits('level') ? config.level : undefined,
+      transport: inherits('transport') ? config.transport : undefined,
+      maskingEngine: inherits('maskingEngine') ? config.maskingEngine : undefined,
+      sanitizationEngine: inherits('maskingEngine') ? config.sanitizationEngine : undefined,
+      loggingMatrix: inherits('loggingMatrix') ? config.loggingMatrix : undefined,
+    };
+
+    // Guard clauses: Shared settings are swapped without closing (other loggers still use them)
+    if (applied.level) {
+      this.level = applied.level;
+    }
+    if (applied.transport) {
+      this.transport = applied.transport;
+    }
+    if (applied.maskingEngine) {
+      this.maskingEngine = applied.maskingEngine;
+      this.sanitizationEngine = applied.sanitizationEngine;
+    }
+    if (applied.loggingMatrix) {
+      this.fieldFilter = new FieldFilter(applied.loggingMatrix);
+    }
+
+    for (const child of this.liveChildren()) {
+      child.applyInherited(applied);
+    }
+  }
+
+  /**
+   * Push a level change to children that still inherit their level (Single Responsibility).
+   * @private
+   */
+  private propagateLevel(level: LogLevel): void {
+    for (const child of this.liveChildren()) {
+      // Guard clause: Child level was set explicitly
+      if (child.overrides.has('level')) {
+        continue;
+      }
+      child.level = level;
+      child.propagateLevel(level);
+    }
+  }
+
+  /**
+   * Child loggers that have not been garbage collected (Single Responsibility).
+   * @private
+   */
+  private liveChildren(): Logger[] {
+    // Guard clause: No children created yet
+    if (!this.children) {
+      return [];
+    }
+
+    const live: Logger[] = [];
+    for (const ref of this.children) {
+      const child = ref.deref();
+      if (child) {
+        live.push(child);
+      }
+    }
+    return live;
+  }
+
+  /**
+   * Track a child logger weakly so level changes reach it (Single Responsibility).
+   * @private
+   */
+  private trackChild(child: Logger): void {
+    this.children ??= new Set();
+    const ref = new WeakRef(child);
+    this.children.add(ref);
+    childCleanup.register(child, { children: this.children, ref });
   }
 
   /**
-   * Create a child logger with additional bindings
+   * Create a child logger with additional bindings.
+   * Serializers are inherited; `options.serializers` adds to or overrides them by key.
+   * The child follows later level changes of this logger until its own level is set.
    */
-  child(bindings: LoggerBindings): Logger {
-    return new Logger(
+  child(bindings: LoggerBindings, options?: { serializers?: Serializers }): Logger {
+    const child = new Logger(
       this.name,
       this.transport,
       this.level,
@@ -521,8 +930,14 @@ export class Logger {
         maskingEngine: this.maskingEngine,
         useAsyncContext: this.useAsyncContext,
         loggingMatrix: this.fieldFilter ? this.fieldFilter.getMatrix() : undefined,
+        serializers: { ...this.serializers, ...options?.serializers },
+        redactor: this.redactor,
+        traceFields: this.traceFields,
+        maskFormatArgs: this.maskFormatArgs,
       }
     );
+    this.trackChild(child);
+    return child;
   }
 
   /**
@@ -644,12 +1059,13 @@ export class Logger {
 
     // Change log level (guard clause pattern)
     if (options.level !== undefined) {
-      this.level = options.level;
+      this.setLevel(options.level);
     }
 
     // Change transport (with cleanup) - guard clause pattern
     if (options.transport !== undefined) {
       this.switchTransport(options.transport);
+      this.overrides.add('transport');
     }
 
     // Add new masking rule (only add, cannot modify existing rules) - guard clause
@@ -660,6 +1076,7 @@ export class Logger {
     // Update logging matrix - guard clause
     if (options.loggingMatrix !== undefined) {
       this.updateLoggingMatrix(options.loggingMatrix);
+      this.overrides.add('loggingMatrix');
     }
   }
 
@@ -700,6 +1117,7 @@ export class Logger {
     // Create MaskingEngine if it doesn't exist (dependency injection)
     this.maskingEngine = new MaskingEngineClass({ enableDefaultRules: false });
     this.maskingEngine.addRule(rule);
+    this.overrides.add('maskingEngine');
 
     // Guard clause: Create SanitizationEngine if it doesn't exist
     if (!this.sanitizationEngine) {
@@ -3,19 +3,43 @@
  *
  * Global registry for managing and retrieving logger instances by name
  * Allows accessing loggers from anywhere in your application
+ *
+ * Names are dotted namespaces (`app`, `app.db`, `app.db.pool`): each setting is inherited
+ * from the nearest configured ancestor, and changes reach existing loggers and their children.
+ * Levels selected by LOG_LEVEL / LOG_LEVELS / DEBUG (see envLevels) take precedence.
  */
 
-import type { Logger } from './Logger';
+import type { InheritedLoggerConfig, InheritedSetting, Logger } from './Logger';
 import { Logger as LoggerClass } from './Logger';
+import type { LoggingMatrix } from './compliance/LoggingMatrix';
+import { type LevelEnv, getEnvLevel, loadEnvLevels } from './envLevels';
 import type { LogLevel } from './levels';
+import type { MaskingEngine } from './masking/MaskingEngine';
+import { SanitizationEngine } from './sanitization/SanitizationEngine';
 import type { Transport } from './types';
 
-export interface RegistryLoggerOptions {
-  name?: string;
+/**
+ * Settings of a namespace, inherited by every descendant that does not set its own.
+ */
+export interface NamespaceConfig {
   level?: LogLevel;
   transport?: Transport;
+  maskingEngine?: MaskingEngine;
+  loggingMatrix?: LoggingMatrix;
+}
+
+export interface RegistryLoggerOptions extends NamespaceConfig {
+  name?: string;
+}
+
+/** Namespace settings plus the sanitization engine built around its masking engine */
+interface StoredNamespaceConfig extends NamespaceConfig {
+  sanitizationEngine?: SanitizationEngine;
 }
 
+const DEFAULT_LEVEL: LogLevel = 'info';
+const NAMESPACE_SEPARATOR = '.';
+
 /**
  * Global Logger Registry
  *
@@ -24,6 +48,7 @@ export interface RegistryLoggerOptions {
 class LoggerRegistry {
   private static instance: LoggerRegistry;
   private loggers = new Map<string, Logger>();
+  private configs = new Map<string, StoredNamespaceConfig>();
 
   private constructor() {}
 
@@ -38,7 +63,9 @@ class LoggerRegistry {
    * Get or create a logger by name (functional approach).
    *
    * This follows the syntropyLog pattern: if the logger exists, return it;
-   * if not, create a new one with default options and cache it automatically.
+   * if not, create a new one with the settings inherited from its namespace and cache it.
+   * Options only apply on first creation, and only to that logger: it keeps them when its
+   * namespace changes. Use `configure` to set up a namespace and its descendants.
    */
   getLogger(name: string, options?: RegistryLoggerOptions): Logger {
     // Guard clause: Logger already exists - return cached instance
@@ -47,13 +74,136 @@ class LoggerRegistry {
       return existing;
     }
 
+    // Functional approach: undefined options keep the inherited setting
+    const { name: _name, ...config } = options ?? {};
+    const own = Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined)
+    ) as NamespaceConfig;
+    const resolved = this.resolve(name);
+    const maskingEngine = own.maskingEngine ?? resolved.maskingEngine;
+
     // Create and register new logger (functional: immutable creation)
-    const logger = new LoggerClass(name, options?.transport, options?.level ?? 'info');
+    const logger = new LoggerClass(
+      name,
+      own.transport ?? resolved.transport,
+      resolved.levelFromEnv ? resolved.level : (own.level ?? resolved.level),
+      undefined,
+      {
+        sanitizationEngine: own.maskingEngine
+          ? new SanitizationEngine(own.maskingEngine)
+          : resolved.sanitizationEngine,
+        maskingEngine,
+        loggingMatrix: own.loggingMatrix ?? resolved.loggingMatrix,
+      }
+    );
+    logger.pinSettings(Object.keys(own) as InheritedSetting[]);
 
     this.loggers.set(name, logger);
     return logger;
   }
 
+  /**
+   * Configure a namespace. Settings merge with the ones already set on it and apply at
+   * once to the namespace, every descendant that does not set its own, and their children.
+   *
+   * @example
+   * ```typescript
+   * loggerRegistry.configure('app', { level: 'info', transport: new JsonTransport() });
+   * loggerRegistry.configure('app.db', { level: 'debug' }); // app.db, app.db.pool...
+   * ```
+   */
+  configure(namespace: string, config: NamespaceConfig): void {
+    // Guard clause: Empty names and empty segments ('app..db') are not namespaces
+    if (!namespace || namespace.split(NAMESPACE_SEPARATOR).includes('')) {
+      throw new Error(`[LoggerRegistry] Invalid namespace: "${namespace}"`);
+    }
+
+    // Functional approach: undefined values keep the current setting
+    const merged: StoredNamespaceConfig = {
+      ...this.configs.get(namespace),
+      ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)),
+    };
+
+    // Guard clause: Build the sanitization engine once per masking engine
+    if (config.maskingEngine) {
+      merged.sanitizationEngine = new SanitizationEngine(config.maskingEngine);
+    }
+
+    this.configs.set(namespace, merged);
+    this.refresh(namespace);
+  }
+
+  /**
+   * Change the level of a namespace and its descendants at runtime
+   */
+  setLevel(namespace: string, level: LogLevel): void {
+    this.configure(namespace, { level });
+  }
+
+  /**
+   * Re-read LOG_LEVEL / LOG_LEVELS / DEBUG and re-apply levels to every registered logger
+   */
+  reloadEnvLevels(env?: LevelEnv): void {
+    loadEnvLevels(env);
+    for (const [name, logger] of this.loggers) {
+      logger.applyInheritedConfig(this.resolve(name));
+    }
+  }
+
+  /**
+   * Effective settings of a name (from the nearest configured ancestor, per setting)
+   */
+  getEffectiveConfig(name: string): NamespaceConfig {
+    const { sanitizationEngine: _engine, levelFromEnv: _fromEnv, ...config } = this.resolve(name);
+    return config;
+  }
+
+  /**
+   * Resolve each setting from the nearest configured ancestor (Single Responsibility).
+   * @private
+   */
+  private resolve(name: string): InheritedLoggerConfig {
+    const resolved: StoredNamespaceConfig = {};
+
+    for (const namespace of namespaceChain(name)) {
+      const config = this.configs.get(namespace);
+      if (!config) {
+        continue;
+      }
+      resolved.level ??= config.level;
+      resolved.transport ??= config.transport;
+      resolved.loggingMatrix ??= config.loggingMatrix;
+      // The masking engine and its sanitization engine come from the same namespace
+      if (!resolved.maskingEngine && config.maskingEngine) {
+        resolved.maskingEngine = config.maskingEngine;
+        resolved.sanitizationEngine = config.sanitizationEngine;
+      }
+    }
+
+    const envLevel = getEnvLevel(name);
+    return {
+      ...resolved,
+      level: envLevel ?? resolved.level ?? DEFAULT_LEVEL,
+      levelFromEnv: envLevel !== undefined,
+    };
+  }
+
+  /**
+   * Re-apply the effective settings to the namespace and its registered descendants.
+   * @private
+   */
+  private refresh(namespace: string): void {
+    const prefix = namespace + NAMESPACE_SEPARATOR;
+
+    for (const [name, logger] of this.loggers) {
+      // Guard clause: Not in the namespace
+      if (name !== namespace && !name.startsWith(prefix)) {
+        continue;
+      }
+      logger.applyInheritedConfig(this.resolve(name));
+    }
+  }
+
   /**
    * Get all registered logger names
    */
@@ -76,10 +226,11 @@ class LoggerRegistry {
   }
 
   /**
-   * Clear all loggers
+   * Clear all loggers and namespace settings
    */
   clear(): void {
     this.loggers.clear();
+    this.configs.clear();
   }
 
   /**
@@ -91,6 +242,20 @@ class LoggerRegistry {
   }
 }
 
+/**
+ * A name followed by its ancestors, nearest first ('a.b.c' → 'a.b.c', 'a.b', 'a').
+ * @private
+ */
+function namespaceChain(name: string): string[] {
+  const chain = [name];
+  let end = name.lastIndexOf(NAMESPACE_SEPARATOR);
+  while (end > 0) {
+    chain.push(name.slice(0, end));
+    end = name.lastIndexOf(NAMESPACE_SEPARATOR, end - 1);
+  }
+  return chain;
+}
+
 // Export singleton instance
 export const loggerRegistry = LoggerRegistry.getInstance();
 
@@ -124,3 +289,21 @@ export const loggerRegistry = LoggerRegistry.getInstance();
 export function getLogger(name: string, options?: RegistryLoggerOptions): Logger {
   return loggerRegistry.getLogger(name, options);
 }
+
+/**
+ * Configure a logger namespace from anywhere in the app
+ *
+ * @example
+ * ```typescript
+ * import { configureLoggers, getLogger } from '@syntrojs/logger/registry';
+ *
+ * configureLoggers('app', { level: 'warn', transport: new JsonTransport() });
+ * const pool = getLogger('app.db.pool'); // warn, JSON
+ *
+ * // Later, at runtime: app.db, app.db.pool and their children now log debug
+ * configureLoggers('app.db', { level: 'debug' });
+ * ```
+ */
+export function configureLoggers(namespace: string, config: NamespaceConfig): void {
+  loggerRegistry.configure(namespace, config);
+}
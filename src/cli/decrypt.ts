@@ -0,0 +1,163 @@
+/**
+ * FILE: src/cli/decrypt.ts
+ * DESCRIPTION: `syntrojs-decrypt` - reveal ENCRYPT fields in exported NDJSON logs.
+ *
+ *   syntrojs-decrypt --keys keys.json [--fields account,card.number] [file ...]
+ *   syntrojs-decrypt --provider ./kms-provider.js < export.ndjson
+ *
+ * Lines are read from the files (or stdin) and written to stdout with their tokens decrypted.
+ * Lines that are not JSON pass through; lines that fail to decrypt are written unchanged and
+ * reported on stderr (exit code 1).
+ */
+
+import { createReadStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+  type DecryptionKeyProvider,
+  InMemoryKeyProvider,
+  decryptLogEntry,
+} from '../masking/FieldEncryption';
+import { isPlainObject } from '../utils/jsonValidation';
+
+/** Streams the CLI reads from and writes to */
+export interface CliIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+}
+
+const USAGE = `Usage: syntrojs-decrypt (--keys <file> | --provider <module>) [--fields <paths>] [file ...]
+
+  --keys <file>        JSON object of key id -> base64 data key
+  --provider <module>  Module whose default export is a key provider (or a function returning one)
+  --fields <paths>     Comma-separated dotted paths to reveal (default: every encrypted field)
+  file ...             NDJSON files to read (default: stdin, or "-")
+`;
+
+/**
+ * Run the decrypt CLI.
+ * @param args - Command-line arguments (without node and the script)
+ * @param io - Streams to use
+ * @returns Exit code: 0 on success, 1 when a line failed to decrypt, 2 on usage errors
+ */
+export async function runDecryptCli(args: string[], io: CliIO): Promise<number> {
+  let provider: DecryptionKeyProvider;
+  let files: string[];
+  let fields: string[] | undefined;
+
+  try {
+    const parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        keys: { type: 'string' },
+        provider: { type: 'string' },
+        fields: { type: 'string' },
+      },
+    });
+    provider = await loadProvider(parsed.values.keys, parsed.values.provider);
+    fields = parsed.values.fields?.split(',').map((field) => field.trim());
+    files = parsed.positionals.length > 0 ? parsed.positionals : ['-'];
+  } catch (error) {
+    io.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  let failed = false;
+  for (const file of files) {
+    const input = file === '-' ? io.stdin : createReadStream(file);
+    let lineNumber = 0;
+
+    try {
+      for await (const line of createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY })) {
+        lineNumber++;
+        try {
+          io.stdout.write(`${await decryptLine(line, provider, fields)}\n`);
+        } catch (error) {
+          failed = true;
+          io.stdout.write(`${line}\n`);
+          io.stderr.write(`${file}:${lineNumber}: ${(error as Error).message}\n`);
+        }
+      }
+    } catch (error) {
+      // Guard clause: Unreadable file - report it and go on with the next one
+      failed = true;
+      io.stderr.write(`${file}: ${(error as Error).message}\n`);
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+/**
+ * Decrypt one NDJSON line (non-JSON lines are returned as-is).
+ * @private
+ */
+async function decryptLine(
+  line: string,
+  provider: DecryptionKeyProvider,
+  fields: string[] | undefined
+): Promise<string> {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return line;
+  }
+
+  // Guard clause: Only log entries (objects) hold fields
+  if (!isPlainObject(entry)) {
+    return line;
+  }
+  return JSON.stringify(await decryptLogEntry(entry, provider, { fields }));
+}
+
+/**
+ * Build the key provider from --keys or --provider (Single Responsibility).
+ * @private
+ */
+async function loadProvider(
+  keysFile: string | undefined,
+  providerModule: string | undefined
+): Promise<DecryptionKeyProvider> {
+  // Guard clause: Exactly one key source
+  if (!keysFile === !providerModule) {
+    throw new Error('[syntrojs-decrypt] Pass either --keys or --provider');
+  }
+
+  if (keysFile) {
+    const keys: unknown = JSON.parse(await readFile(keysFile, 'utf8'));
+    if (!isPlainObject(keys)) {
+      throw new Error(`[syntrojs-decrypt] ${keysFile} must hold an object of key id -> base64 key`);
+    }
+    return new InMemoryKeyProvider(
+      Object.entries(keys).map(([id, key]) => ({ id, key: Buffer.from(String(key), 'base64') }))
+    );
+  }
+
+  const loaded = await import(pathToFileURL(resolve(providerModule as string)).href);
+  const exported = loaded.default ?? loaded;
+  const provider: unknown = typeof exported === 'function' ? await exported() : exported;
+  if (!isKeyProvider(provider)) {
+    throw new Error(
+      `[syntrojs-decrypt] ${providerModule} must export a key provider with getKey(id)`
+    );
+  }
+  return provider;
+}
+
+/**
+ * @private
+ */
+function isKeyProvider(value: unknown): value is DecryptionKeyProvider {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as DecryptionKeyProvider).getKey === 'function'
+  );
+}
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+/**
+ * FILE: src/cli/syntrojs-decrypt.ts
+ * DESCRIPTION: Executable entry of the decrypt CLI (see ./decrypt.ts).
+ */
+
+import { runDecryptCli } from './decrypt';
+
+process.exitCode = await runDecryptCli(process.argv.slice(2), process);
@@ -0,0 +1,678 @@
+/**
+ * Declarative configuration files
+ *
+ * One JSON or YAML file describes the registry loggers: level, transport (by type and
+ * options), masking and logging matrix per namespace. `configureFromFile` validates the
+ * file, builds the registry from it and can watch it for changes.
+ *
+ * Reloads apply safe diffs only (levels, transports and matrices may change; masking rules
+ * may only be added). A reload that is invalid or unsafe is rejected as a whole: nothing
+ * from it is applied and the previous configuration stays in effect.
+ */
+
+import { type FSWatcher, watch } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { loggerRegistry } from '../LoggerRegistry';
+import type { NamespaceConfig } from '../LoggerRegistry';
+import type { LoggingMatrix } from '../compliance/LoggingMatrix';
+import { LOG_LEVEL_WEIGHTS, type LogLevel } from '../levels';
+import { MaskingEngine, type MaskingRule, MaskingStrategy } from '../masking/MaskingEngine';
+import { type MaskingPresetSpec, resolveMaskingPreset } from '../masking/Presets';
+import type { PseudonymizeOptions } from '../masking/Pseudonymizer';
+import { VALUE_DETECTORS, type ValueDetectorName } from '../masking/ValueDetectors';
+import type { Transport } from '../transports/Transport';
+import { ClassicTransport } from '../transports/classic';
+import { CompactTransport } from '../transports/compact';
+import { FileTransport, type FileTransportOptions } from '../transports/file';
+import { HttpTransport, type HttpTransportOptions } from '../transports/http';
+import { JsonTransport } from '../transports/json';
+import { OtlpTransport } from '../transports/otlp';
+import { PrettyTransport } from '../transports/pretty';
+import { SyslogTransport } from '../transports/syslog';
+import { isPlainObject, validatePlainJson } from '../utils/jsonValidation';
+
+/** Transport types a configuration file can create */
+export type TransportType =
+  | 'json'
+  | 'pretty'
+  | 'compact'
+  | 'classic'
+  | 'file'
+  | 'http'
+  | 'otlp'
+  | 'syslog';
+
+/** A transport type, or a type with constructor options */
+export type TransportFileConfig =
+  | TransportType
+  | { type: TransportType; options?: Record<string, unknown> };
+
+/** A masking rule in plain data (custom functions cannot come from a file) */
+export interface MaskingRuleFileConfig {
+  /** Regex source matched against field names */
+  pattern: string;
+  /** Regex flags (default: 'i') */
+  flags?: string;
+  strategy: `${Exclude<MaskingStrategy, MaskingStrategy.CUSTOM | MaskingStrategy.ENCRYPT>}`;
+  preserveLength?: boolean;
+  maskChar?: string;
+  /** Prefix and digest length for the pseudonymize strategy (the key comes from the environment) */
+  pseudonymize?: PseudonymizeOptions;
+}
+
+export interface MaskingFileConfig {
+  /** Include the built-in rules (default: true) */
+  enableDefaultRules?: boolean;
+  maskChar?: string;
+  preserveLength?: boolean;
+  rules?: MaskingRuleFileConfig[];
+  /** Built-in value detectors: true for all, or a list of names */
+  valueDetectors?: boolean | ValueDetectorName[];
+  /** Compliance rule packs, e.g. ['pci', 'gdpr@1'] */
+  presets?: MaskingPresetSpec[];
+}
+
+/** Settings of one registry namespace */
+export interface LoggerFileConfig {
+  level?: LogLevel;
+  transport?: TransportFileConfig;
+  masking?: MaskingFileConfig;
+  loggingMatrix?: LoggingMatrix;
+}
+
+/** Shape of a configuration file */
+export interface LoggerConfigFile {
+  /** Namespace (e.g. 'app', 'app.db') → settings */
+  loggers: Record<string, LoggerFileConfig>;
+}
+
+export interface ConfigureFromFileOptions {
+  /** Reload when the file changes (default: false) */
+  watch?: boolean;
+  /** Wait this long after the last change event before reloading (default: 100ms) */
+  debounceMs?: number;
+  /** Called after a reload was applied */
+  onReload?: (config: LoggerConfigFile) => void;
+  /** Called when a watched reload is rejected (default: console.error) */
+  onError?: (error: Error) => void;
+}
+
+/** A loaded configuration file */
+export interface ConfigFileHandle {
+  /** Configuration currently in effect */
+  readonly config: LoggerConfigFile;
+  /** Re-read the file now; rejects (leaving the current configuration in place) when invalid */
+  reload(): Promise<void>;
+  /** Stop watching the file */
+  close(): void;
+}
+
+/** Transport type → factory (dictionary instead of a switch) */
+const TRANSPORT_FACTORIES: Record<TransportType, (options: Record<string, unknown>) => Transport> =
+  {
+    json: (options) => new JsonTransport(options),
+    pretty: (options) => new PrettyTransport(options),
+    compact: (options) => new CompactTransport(options),
+    classic: (options) => new ClassicTransport(options),
+    file: (options) => new FileTransport(options as unknown as FileTransportOptions),
+    http: (options) => new HttpTransport(options as unknown as HttpTransportOptions),
+    otlp: (options) => new OtlpTransport(options),
+    syslog: (options) => new SyslogTransport(options),
+  };
+
+/** File extension → parser (dictionary instead of a switch) */
+const PARSERS: Record<string, (text: string) => Promise<unknown>> = {
+  '.json': async (text) => JSON.parse(text),
+  '.yaml': parseYaml,
+  '.yml': parseYaml,
+};
+
+const LOGGER_KEYS = new Set(['level', 'transport', 'masking', 'loggingMatrix']);
+const MASKING_KEYS = new Set([
+  'enableDefaultRules',
+  'maskChar',
+  'preserveLength',
+  'rules',
+  'valueDetectors',
+  'presets',
+]);
+const RULE_KEYS = new Set([
+  'pattern',
+  'flags',
+  'strategy',
+  'preserveLength',
+  'maskChar',
+  'pseudonymize',
+]);
+/** Custom functions and encryption key providers cannot come from a file */
+const FILE_STRATEGIES = new Set<string>(
+  Object.values(MaskingStrategy).filter(
+    (strategy) => strategy !== MaskingStrategy.CUSTOM && strategy !== MaskingStrategy.ENCRYPT
+  )
+);
+const NAMESPACE_REGEX = /^[^.]+(\.[^.]+)*$/;
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/**
+ * Load a configuration file into the logger registry.
+ *
+ * @example
+ * ```typescript
+ * // loggers.yaml
+ * // loggers:
+ * //   app:    { level: info, transport: json, masking: { rules: [{ pattern: iban, strategy: token }] } }
+ * //   app.db: { level: debug, transport: { type: file, options: { path: ./logs/db.log } } }
+ * const config = await configureFromFile('./loggers.yaml', { watch: true });
+ * getLogger('app.db.pool').debug('inherits app.db');
+ * ```
+ */
+export async function configureFromFile(
+  path: string,
+  options: ConfigureFromFileOptions = {}
+): Promise<ConfigFileHandle> {
+  const session = new ConfigFileSession(resolve(path), options);
+  await session.reload();
+
+  // Guard clause: Watching is opt-in
+  if (options.watch) {
+    session.watch();
+  }
+  return session;
+}
+
+/**
+ * Parse and validate a configuration file without applying it
+ */
+export async function readConfigFile(path: string): Promise<LoggerConfigFile> {
+  const parser = PARSERS[extname(path).toLowerCase()];
+
+  // Guard clause: Unsupported format
+  if (!parser) {
+    throw new Error(
+      `[ConfigFile] Unsupported file type "${extname(path)}" (use .json, .yaml or .yml)`
+    );
+  }
+
+  const data = await parser(await readFile(path, 'utf8'));
+  validatePlainJson(data);
+  validateConfig(data);
+  return data;
+}
+
+/**
+ * Objects created for a configuration and the registry updates to apply.
+ * @private
+ */
+interface ConfigPlan {
+  configure: [string, NamespaceConfig][];
+  addRules: [string, MaskingRuleFileConfig][];
+  transports: Map<string, Transport>;
+  /** Transports created by this plan (closed when the plan is rejected) */
+  created: Transport[];
+  /** Transports replaced by this plan (closed once it is applied) */
+  replaced: Transport[];
+}
+
+/**
+ * Applies configuration files to the registry and keeps the objects it created.
+ * @private
+ */
+class ConfigFileSession implements ConfigFileHandle {
+  config: LoggerConfigFile = { loggers: {} };
+  private transports = new Map<string, Transport>();
+  private watcher?: FSWatcher;
+  private timer?: NodeJS.Timeout;
+  /** Reloads run one at a time */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly options: ConfigureFromFileOptions
+  ) {}
+
+  reload(): Promise<void> {
+    const run = this.queue.then(async () => {
+      const next = await readConfigFile(this.path);
+      this.apply(next);
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  close(): void {
+    clearTimeout(this.timer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Watch the directory (editors often replace the file on save) and reload on changes.
+   */
+  watch(): void {
+    const file = basename(this.path);
+    this.watcher = watch(dirname(this.path), { persistent: false }, (_event, changed) => {
+      // Guard clause: Another file in the directory
+      if (changed && changed.toString() !== file) {
+        return;
+      }
+      clearTimeout(this.timer);
+      this.timer = setTimeout(
+        () => this.reloadFromWatch(),
+        this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS
+      );
+    });
+  }
+
+  /**
+   * Reload after a change event, reporting rejections (Silent Observer).
+   * @private
+   */
+  private reloadFromWatch(): void {
+    this.reload().then(
+      () => this.options.onReload?.(this.config),
+      (error: unknown) => {
+        const reason = error instanceof Error ? error : new Error(String(error));
+        if (this.options.onError) {
+          this.options.onError(reason);
+          return;
+        }
+        console.error(
+          `[ConfigFile Error] Reload of ${this.path} rejected, keeping the previous configuration:`,
+          reason.message
+        );
+      }
+    );
+  }
+
+  /**
+   * Build everything the new configuration needs, then apply it in one step.
+   * @private
+   */
+  private apply(next: LoggerConfigFile): void {
+    const plan = this.plan(next);
+
+    for (const [namespace, config] of plan.configure) {
+      loggerRegistry.configure(namespace, config);
+    }
+    for (const [namespace, rule] of plan.addRules) {
+      loggerRegistry.getLogger(namespace).reconfigure({ addMaskingRule: toMaskingRule(rule) });
+    }
+    for (const namespace of Object.keys(next.loggers)) {
+      loggerRegistry.getLogger(namespace);
+    }
+
+    closeTransports(plan.replaced);
+    this.transports = plan.transports;
+    this.config = next;
+  }
+
+  /**
+   * Diff against the configuration in effect, creating transports and masking engines.
+   * Throws (after closing what it created) when the change is unsafe or a constructor fails.
+   * @private
+   */
+  private plan(next: LoggerConfigFile): ConfigPlan {
+    const plan: ConfigPlan = {
+      configure: [],
+      addRules: [],
+      transports: new Map(this.transports),
+      created: [],
+      replaced: [],
+    };
+
+    try {
+      // Guard clause: Namespaces cannot be removed at runtime
+      const removed = Object.keys(this.config.loggers).filter((name) => !next.loggers[name]);
+      if (removed.length > 0) {
+        throw unsafeChange(removed[0], 'the logger cannot be removed');
+      }
+
+      for (const [namespace, entry] of Object.entries(next.loggers)) {
+        this.planLogger(plan, namespace, this.config.loggers[namespace] ?? {}, entry);
+      }
+      return plan;
+    } catch (error) {
+      closeTransports(plan.created);
+      throw error;
+    }
+  }
+
+  /**
+   * Plan the changes of one namespace (Single Responsibility).
+   * @private
+   */
+  private planLogger(
+    plan: ConfigPlan,
+    namespace: string,
+    previous: LoggerFileConfig,
+    entry: LoggerFileConfig
+  ): void {
+    const config: NamespaceConfig = {};
+
+    for (const key of ['level', 'transport', 'loggingMatrix', 'masking'] as const) {
+      // Guard clause: Settings can change but not disappear (the registry cannot unset them)
+      if (previous[key] !== undefined && entry[key] === undefined) {
+        throw unsafeChange(namespace, `"${key}" cannot be removed`);
+      }
+    }
+
+    if (entry.level !== undefined && entry.level !== previous.level) {
+      config.level = entry.level;
+    }
+    if (entry.loggingMatrix && !sameValue(entry.loggingMatrix, previous.loggingMatrix)) {
+      config.loggingMatrix = entry.loggingMatrix;
+    }
+    if (entry.transport && !sameValue(entry.transport, previous.transport)) {
+      const transport = createTransport(entry.transport, namespace);
+      plan.created.push(transport);
+      const old = plan.transports.get(namespace);
+      if (old) {
+        plan.replaced.push(old);
+      }
+      plan.transports.set(namespace, transport);
+      config.transport = transport;
+    }
+    if (entry.masking) {
+      this.planMasking(plan, namespace, config, previous.masking, entry.masking);
+    }
+
+    if (Object.keys(config).length > 0) {
+      plan.configure.push([namespace, config]);
+    }
+  }
+
+  /**
+   * Plan masking changes: a new engine when masking is added, else appended rules only.
+   * @private
+   */
+  private planMasking(
+    plan: ConfigPlan,
+    namespace: string,
+    config: NamespaceConfig,
+    previous: MaskingFileConfig | undefined,
+    masking: MaskingFileConfig
+  ): void {
+    const rules = masking.rules ?? [];
+
+    // Guard clause: New masking section - build its engine (validates every rule)
+    if (!previous) {
+      config.maskingEngine = createMaskingEngine(masking, namespace);
+      return;
+    }
+
+    const { rules: previousRules = [], ...previousOptions } = previous;
+    const { rules: _rules, ...options } = masking;
+
+    // Guard clause: Engine options are fixed once the engine exists
+    if (!sameValue(options, previousOptions)) {
+      throw unsafeChange(namespace, 'masking options cannot change at runtime');
+    }
+
+    // Guard clause: Rules can only be added, never removed or modified
+    const kept = previousRules.every((rule, index) => sameValue(rule, rules[index]));
+    if (!kept || rules.length < previousRules.length) {
+      throw unsafeChange(namespace, 'masking rules can only be added, never removed or changed');
+    }
+
+    const added = rules.slice(previousRules.length);
+    // Validate the new rules before anything is applied (unsafe patterns throw here)
+    createMaskingEngine({ enableDefaultRules: false, rules: added }, namespace);
+    for (const rule of added) {
+      plan.addRules.push([namespace, rule]);
+    }
+  }
+}
+
+/**
+ * Validate the structure of a parsed configuration file (Single Responsibility).
+ * @private
+ */
+function validateConfig(data: unknown): asserts data is LoggerConfigFile {
+  // Guard clause: Root must hold a loggers object
+  if (!isPlainObject(data) || !isPlainObject(data.loggers)) {
+    throw new Error('[ConfigFile] Expected an object with a "loggers" object');
+  }
+
+  for (const [namespace, entry] of Object.entries(data.loggers)) {
+    const path = `loggers.${namespace}`;
+    if (!NAMESPACE_REGEX.test(namespace)) {
+      throw new Error(`[ConfigFile] Invalid logger name "${namespace}"`);
+    }
+    if (!isPlainObject(entry)) {
+      throw new Error(`[ConfigFile] ${path} must be an object`);
+    }
+    checkKeys(entry, LOGGER_KEYS, path);
+    validateLevel(entry.level, `${path}.level`);
+    validateTransport(entry.transport, `${path}.transport`);
+    validateMasking(entry.masking, `${path}.masking`);
+    validateMatrix(entry.loggingMatrix, `${path}.loggingMatrix`);
+  }
+}
+
+/**
+ * @private
+ */
+function validateLevel(level: unknown, path: string): void {
+  if (level !== undefined && !Object.hasOwn(LOG_LEVEL_WEIGHTS, String(level))) {
+    throw new Error(`[ConfigFile] ${path}: unknown log level "${String(level)}"`);
+  }
+}
+
+/**
+ * @private
+ */
+function validateTransport(transport: unknown, path: string): void {
+  // Guard clause: Optional
+  if (transport === undefined) {
+    return;
+  }
+
+  const type = isPlainObject(transport) ? transport.type : transport;
+  if (typeof type !== 'string' || !Object.hasOwn(TRANSPORT_FACTORIES, type)) {
+    throw new Error(
+      `[ConfigFile] ${path}: unknown transport type "${String(type)}" (expected one of: ${Object.keys(TRANSPORT_FACTORIES).join(', ')})`
+    );
+  }
+  if (isPlainObject(transport)) {
+    checkKeys(transport, new Set(['type', 'options']), path);
+    if (transport.options !== undefined && !isPlainObject(transport.options)) {
+      throw new Error(`[ConfigFile] ${path}.options must be an object`);
+    }
+  }
+}
+
+/**
+ * @private
+ */
+function validateMasking(masking: unknown, path: string): void {
+  // Guard clause: Optional
+  if (masking === undefined) {
+    return;
+  }
+  if (!isPlainObject(masking)) {
+    throw new Error(`[ConfigFile] ${path} must be an object`);
+  }
+  checkKeys(masking, MASKING_KEYS, path);
+  if (masking.rules !== undefined && !Array.isArray(masking.rules)) {
+    throw new Error(`[ConfigFile] ${path}.rules must be an array`);
+  }
+  validateDetectors(masking.valueDetectors, `${path}.valueDetectors`);
+  validatePresets(masking.presets, `${path}.presets`);
+
+  (masking.rules ?? []).forEach((rule: unknown, index: number) => {
+    const rulePath = `${path}.rules[${index}]`;
+    if (!isPlainObject(rule) || typeof rule.pattern !== 'string') {
+      throw new Error(`[ConfigFile] ${rulePath} needs a string "pattern"`);
+    }
+    checkKeys(rule, RULE_KEYS, rulePath);
+    if (!FILE_STRATEGIES.has(String(rule.strategy))) {
+      throw new Error(
+        `[ConfigFile] ${rulePath}: unknown strategy "${String(rule.strategy)}" (expected one of: ${[...FILE_STRATEGIES].join(', ')})`
+      );
+    }
+    if (rule.pseudonymize !== undefined && !isPlainObject(rule.pseudonymize)) {
+      throw new Error(`[ConfigFile] ${rulePath}.pseudonymize must be an object`);
+    }
+  });
+}
+
+/**
+ * @private
+ */
+function validateDetectors(detectors: unknown, path: string): void {
+  // Guard clause: Optional, or all built-ins
+  if (detectors === undefined || typeof detectors === 'boolean') {
+    return;
+  }
+
+  const names = Array.isArray(detectors) ? detectors : [detectors];
+  const unknown = names.find((name) => !Object.hasOwn(VALUE_DETECTORS, String(name)));
+  if (!Array.isArray(detectors) || unknown !== undefined) {
+    throw new Error(
+      `[ConfigFile] ${path}: unknown value detector "${String(unknown ?? detectors)}" (expected true or a list of: ${Object.keys(VALUE_DETECTORS).join(', ')})`
+    );
+  }
+}
+
+/**
+ * @private
+ */
+function validatePresets(presets: unknown, path: string): void {
+  // Guard clause: Optional
+  if (presets === undefined) {
+    return;
+  }
+  if (!Array.isArray(presets)) {
+    throw new Error(`[ConfigFile] ${path} must be an array`);
+  }
+
+  for (const spec of presets) {
+    try {
+      resolveMaskingPreset(String(spec));
+    } catch (error) {
+      throw new Error(`[ConfigFile] ${path}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * @private
+ */
+function validateMatrix(matrix: unknown, path: string): void {
+  // Guard clause: Optional
+  if (matrix === undefined) {
+    return;
+  }
+  if (!isPlainObject(matrix)) {
+    throw new Error(`[ConfigFile] ${path} must be an object`);
+  }
+
+  for (const [level, fields] of Object.entries(matrix)) {
+    if (level !== 'default') {
+      validateLevel(level, `${path} key`);
+    }
+    if (!Array.isArray(fields) || !fields.every((field) => typeof field === 'string')) {
+      throw new Error(`[ConfigFile] ${path}.${level} must be an array of field names`);
+    }
+  }
+}
+
+/**
+ * Reject unknown keys so typos do not go unnoticed (Single Responsibility).
+ * @private
+ */
+function checkKeys(value: Record<string, unknown>, allowed: Set<string>, path: string): void {
+  const unknown = Object.keys(value).find((key) => !allowed.has(key));
+  if (unknown) {
+    throw new Error(`[ConfigFile] ${path}: unknown key "${unknown}"`);
+  }
+}
+
+/**
+ * @private
+ */
+function createTransport(config: TransportFileConfig, namespace: string): Transport {
+  const { type, options = {} } = typeof config === 'string' ? { type: config } : config;
+
+  try {
+    return TRANSPORT_FACTORIES[type](options);
+  } catch (error) {
+    throw new Error(
+      `[ConfigFile] Cannot create "${type}" transport for "${namespace}": ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * @private
+ */
+function createMaskingEngine(masking: MaskingFileConfig, namespace: string): MaskingEngine {
+  try {
+    return new MaskingEngine({
+      enableDefaultRules: masking.enableDefaultRules,
+      maskChar: masking.maskChar,
+      preserveLength: masking.preserveLength,
+      rules: (masking.rules ?? []).map(toMaskingRule),
+      valueDetectors: masking.valueDetectors,
+      presets: masking.presets,
+    });
+  } catch (error) {
+    throw new Error(`[ConfigFile] Invalid masking for "${namespace}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Turn a file rule into a MaskingRule (fresh object: MaskingEngine.addRule mutates it).
+ * @private
+ */
+function toMaskingRule(rule: MaskingRuleFileConfig): MaskingRule {
+  return {
+    pattern: new RegExp(rule.pattern, rule.flags ?? 'i'),
+    strategy: rule.strategy as MaskingStrategy,
+    preserveLength: rule.preserveLength,
+    maskChar: rule.maskChar,
+    pseudonymize: rule.pseudonymize,
+  };
+}
+
+/**
+ * @private
+ */
+function unsafeChange(namespace: string, reason: string): Error {
+  return new Error(`[ConfigFile] Unsafe change to "${namespace}": ${reason} at runtime`);
+}
+
+/**
+ * Structural equality of plain JSON values.
+ * @private
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Close transports in the background (Silent Observer).
+ * @private
+ */
+function closeTransports(transports: Transport[]): void {
+  for (const transport of transports) {
+    Promise.resolve(transport.close?.()).catch(() => {
+      // Silent observer: Ignore cleanup errors
+    });
+  }
+}
+
+/**
+ * Parse YAML with the optional `yaml` package.
+ * @private
+ */
+async function parseYaml(text: string): Promise<unknown> {
+  let yaml: { parse(text: string): unknown };
+  try {
+    yaml = await import('yaml');
+  } catch {
+    throw new Error('[ConfigFile] YAML files need the optional "yaml" package (npm install yaml)');
+  }
+  return yaml.parse(text);
+}
@@ -0,0 +1,15 @@
+/**
+ * Configuration file exports
+ */
+
+export { configureFromFile, readConfigFile } from './ConfigFile';
+export type {
+  ConfigFileHandle,
+  ConfigureFromFileOptions,
+  LoggerConfigFile,
+  LoggerFileConfig,
+  MaskingFileConfig,
+  MaskingRuleFileConfig,
+  TransportFileConfig,
+  TransportType,
+} from './ConfigFile';
@@ -13,9 +13,41 @@
 
 import { AsyncLocalStorage } from 'node:async_hooks';
 import { randomUUID } from 'node:crypto';
+import { LOG_LEVEL_WEIGHTS, type LogLevel } from '../levels';
+import { type ContextCodec, type HeadersCarrier, headersCodec } from './ContextCodecs';
+import {
+  type TraceContext,
+  type TraceHeaders,
+  createChildSpan,
+  createTraceContext,
+  parseTraceparent,
+  toTraceHeaders,
+} from './TraceContext';
 
 type ContextData = Map<string, unknown>;
 
+/**
+ * Store of one AsyncContext.run: the data plus a copy-on-write flag.
+ * `shared` is set when a child context reuses the same Map; the first write on
+ * either side copies it, so parent and child never see each other's changes.
+ */
+interface ContextFrame {
+  data: ContextData;
+  shared: boolean;
+}
+
+/**
+ * Context key holding the current TraceContext.
+ * Logger expands it into `trace_id`, `span_id` and `trace_flags` (names configurable).
+ */
+export const TRACE_CONTEXT_KEY = 'traceContext';
+
+/**
+ * Context key holding a per-context log level override ("debug this request").
+ * Loggers also emit messages down to this level for the context; it never hides messages.
+ */
+export const LOG_LEVEL_KEY = 'logLevel';
+
 export interface AsyncContextConfig {
   /**
    * Name of the correlation ID header
@@ -29,6 +61,28 @@ export interface AsyncContextConfig {
    * Default: true
    */
   autoGenerate?: boolean;
+
+  /**
+   * Supplies the trace context at log time (e.g. the active OpenTelemetry span).
+   * When it returns a value, Logger emits it instead of the trace stored in context.
+   * Set to undefined to remove it. See OpenTelemetryBridge.
+   */
+  traceContextProvider?: () => TraceContext | undefined;
+}
+
+/**
+ * Options of AsyncContext.inject / extract / runWithExtracted
+ */
+export interface PropagationOptions<C = HeadersCarrier> {
+  /** How entries are written to / read from the carrier (default: headersCodec) */
+  codec?: ContextCodec<C>;
+  /**
+   * Context keys shipped besides the correlation ID (allowlist; default: none).
+   * Values travel as strings: numbers and booleans are converted, other values are skipped.
+   */
+  keys?: string[];
+  /** Ship the trace as `traceparent`/`tracestate` entries (default: true) */
+  trace?: boolean;
 }
 
 /**
@@ -41,12 +95,19 @@ export interface AsyncContextConfig {
  * - syntropyLog's ContextManager for correlation IDs
  */
 export class AsyncContext {
-  private static storage = new AsyncLocalStorage<ContextData>();
+  private static storage = new AsyncLocalStorage<ContextFrame>();
   private static config: AsyncContextConfig = {
     correlationIdKey: 'correlationId',
     autoGenerate: true,
   };
   private static correlationIdKey = 'correlationId'; // Cache for fast access
+  private static traceContextProvider: (() => TraceContext | undefined) | undefined;
+  /**
+   * Set once any context carries a log level, so loggers skip the lookup until then.
+   * It is never reset: contexts have no end event, so once an override was used, calls
+   * below a logger's level pay one context lookup for the rest of the process.
+   */
+  private static levelOverridesUsed = false;
 
   /**
    * Configure the context manager
@@ -56,6 +117,9 @@ export class AsyncContext {
     if (config.correlationIdKey) {
       AsyncContext.correlationIdKey = config.correlationIdKey;
     }
+    if ('traceContextProvider' in config) {
+      AsyncContext.traceContextProvider = config.traceContextProvider;
+    }
   }
 
   /**
@@ -102,7 +166,8 @@ export class AsyncContext {
     const contextMap = initialData
       ? new Map(Object.entries(initialData))
       : new Map<string, unknown>();
-    return AsyncContext.storage.run(contextMap, fn);
+    AsyncContext.trackLevelOverride(initialData);
+    return AsyncContext.storage.run({ data: contextMap, shared: false }, fn);
   }
 
   /**
@@ -133,21 +198,61 @@ export class AsyncContext {
     const contextMap = initialData
       ? new Map(Object.entries(initialData))
       : new Map<string, unknown>();
-    return AsyncContext.storage.run(contextMap, fn);
+    AsyncContext.trackLevelOverride(initialData);
+    return AsyncContext.storage.run({ data: contextMap, shared: false }, fn);
+  }
+
+  /**
+   * Run a function in a child context that inherits the current context.
+   * The child sees every parent key (correlationId, userId, trace...) plus `initialData`
+   * on top. Writes inside the child never leak to the parent, and later parent writes
+   * are not seen by the child (copy-on-write: the store is only copied when needed).
+   * Without an active context it behaves like `run`.
+   *
+   * @param fn - Function to run within the child context
+   * @param initialData - Keys added to (or overriding) the inherited ones
+   *
+   * @example
+   * ```typescript
+   * AsyncContext.run(() => {
+   *   AsyncContext.runChild(() => {
+   *     logger.info('charging card'); // correlationId: 'req-123', step: 'payment'
+   *   }, { step: 'payment' });
+   * }, { correlationId: 'req-123' });
+   * ```
+   */
+  static runChild<R>(fn: () => R, initialData?: Record<string, unknown>): R {
+    AsyncContext.trackLevelOverride(initialData);
+    return AsyncContext.storage.run(AsyncContext.createChildFrame(initialData), fn);
+  }
+
+  /**
+   * Run an async function in a child context that inherits the current context.
+   * See `runChild` for the inheritance and isolation rules.
+   *
+   * @param fn - Async function to run within the child context
+   * @param initialData - Keys added to (or overriding) the inherited ones
+   */
+  static async runChildAsync<R>(
+    fn: () => Promise<R>,
+    initialData?: Record<string, unknown>
+  ): Promise<R> {
+    AsyncContext.trackLevelOverride(initialData);
+    return AsyncContext.storage.run(AsyncContext.createChildFrame(initialData), fn);
   }
 
   /**
    * Get a value from current context
    */
   static get(key: string): unknown | undefined {
-    return AsyncContext.storage.getStore()?.get(key);
+    return AsyncContext.storage.getStore()?.data.get(key);
   }
 
   /**
    * Get all context data
    */
   static getAll(): Record<string, unknown> {
-    const store = AsyncContext.storage.getStore();
+    const store = AsyncContext.storage.getStore()?.data;
     if (!store) return {};
     return Object.fromEntries(store.entries());
   }
@@ -156,7 +261,10 @@ export class AsyncContext {
    * Set a value in the current context
    */
   static set(key: string, value: unknown): void {
-    AsyncContext.storage.getStore()?.set(key, value);
+    if (key === LOG_LEVEL_KEY) {
+      AsyncContext.levelOverridesUsed = true;
+    }
+    AsyncContext.getWritableStore()?.set(key, value);
   }
 
   /**
@@ -165,7 +273,7 @@ export class AsyncContext {
    * Uses guard clauses for better readability.
    */
   static getCorrelationId(): string {
-    const store = AsyncContext.storage.getStore();
+    const store = AsyncContext.storage.getStore()?.data;
 
     // Guard clause: No context store available
     if (!store) {
@@ -177,12 +285,19 @@ export class AsyncContext {
     // Guard clause: Auto-generate if not present and enabled
     if (!correlationId && AsyncContext.config.autoGenerate) {
       correlationId = randomUUID();
-      store.set(AsyncContext.correlationIdKey, correlationId);
+      AsyncContext.set(AsyncContext.correlationIdKey, correlationId);
     }
 
     return correlationId || '';
   }
 
+  /**
+   * Key of the correlation ID in context (also the header name used by the HTTP middleware)
+   */
+  static getCorrelationIdKey(): string {
+    return AsyncContext.correlationIdKey;
+  }
+
   /**
    * Set correlation ID in context
    */
@@ -190,12 +305,242 @@ export class AsyncContext {
     AsyncContext.set(AsyncContext.correlationIdKey, correlationId);
   }
 
+  /**
+   * Log more verbosely for the current context only (e.g. a signed debug header or a
+   * sampling decision). Loggers emit messages at this level and above even when their
+   * own level is higher; messages their level already allows are never hidden.
+   *
+   * @example
+   * ```typescript
+   * if (isTrustedDebugRequest(req)) AsyncContext.setLogLevel('trace');
+   * ```
+   */
+  static setLogLevel(level: LogLevel): void {
+    // Guard clause: Unknown level
+    if (!Object.prototype.hasOwnProperty.call(LOG_LEVEL_WEIGHTS, level)) {
+      throw new Error(`[AsyncContext] Invalid log level "${String(level)}".`);
+    }
+    AsyncContext.set(LOG_LEVEL_KEY, level);
+  }
+
+  /**
+   * Log level override of the current context (undefined when unset or invalid)
+   */
+  static getLogLevel(): LogLevel | undefined {
+    const level = AsyncContext.get(LOG_LEVEL_KEY);
+    return typeof level === 'string' &&
+      Object.prototype.hasOwnProperty.call(LOG_LEVEL_WEIGHTS, level)
+      ? (level as LogLevel)
+      : undefined;
+  }
+
+  /**
+   * Whether any context has carried a log level override so far (sticky, see levelOverridesUsed).
+   * @internal Used by Logger to skip the context lookup on the hot path
+   */
+  static hasLogLevelOverrides(): boolean {
+    return AsyncContext.levelOverridesUsed;
+  }
+
+  /**
+   * Start the trace for the current context from incoming W3C headers.
+   * A valid `traceparent` is continued with a new local span id (its span id becomes
+   * `parentSpanId`); a missing or invalid one starts a new trace.
+   *
+   * @example
+   * ```typescript
+   * AsyncContext.run(() => {
+   *   AsyncContext.startTrace(req.headers); // reads traceparent / tracestate
+   *   logger.info('handling request');     // includes trace_id, span_id, trace_flags
+   * });
+   * ```
+   */
+  static startTrace(headers?: TraceHeaders): TraceContext {
+    const traceContext = createTraceContext(headers);
+    AsyncContext.setTraceContext(traceContext);
+    return traceContext;
+  }
+
+  /**
+   * Get the trace context of the current context (if any)
+   */
+  static getTraceContext(): TraceContext | undefined {
+    return AsyncContext.get(TRACE_CONTEXT_KEY) as TraceContext | undefined;
+  }
+
+  /**
+   * Set the trace context of the current context (e.g. from another tracing library)
+   */
+  static setTraceContext(traceContext: TraceContext): void {
+    AsyncContext.set(TRACE_CONTEXT_KEY, traceContext);
+  }
+
+  /**
+   * Create a child span for an outgoing call. The current context is not modified.
+   * Returns undefined when no trace has been started.
+   */
+  static createChildSpan(): TraceContext | undefined {
+    const traceContext = AsyncContext.getTraceContext();
+    return traceContext ? createChildSpan(traceContext) : undefined;
+  }
+
+  /**
+   * Headers to propagate the trace on an outgoing call (`traceparent`, plus `tracestate`
+   * when present). Uses a new child span unless one is given; empty when no trace is active.
+   *
+   * @example
+   * ```typescript
+   * await fetch(url, { headers: { ...AsyncContext.getTraceHeaders() } });
+   * ```
+   */
+  static getTraceHeaders(span?: TraceContext): Record<string, string> {
+    const outgoing = span ?? AsyncContext.createChildSpan();
+    return outgoing ? toTraceHeaders(outgoing) : {};
+  }
+
+  /**
+   * Write the current context into a message carrier (producer side).
+   * Only the correlation ID, the allowlisted `keys` and the trace (as a child span) are
+   * written, so the rest of the context never leaves the process.
+   *
+   * @example
+   * ```typescript
+   * const headers = AsyncContext.inject({}, { codec: kafkaHeadersCodec, keys: ['tenantId'] });
+   * await producer.send({ topic, messages: [{ value, headers }] });
+   *
+   * worker.postMessage(AsyncContext.inject({ task }, { codec: messageCodec }));
+   * ```
+   */
+  static inject<C = HeadersCarrier>(carrier: C, options: PropagationOptions<C> = {}): C {
+    const codec = options.codec ?? (headersCodec as unknown as ContextCodec<C>);
+
+    // Guard clause: Nothing to propagate outside a context
+    if (!AsyncContext.isActive()) {
+      return carrier;
+    }
+
+    const correlationId = AsyncContext.getCorrelationId();
+    if (correlationId) {
+      codec.set(carrier, AsyncContext.correlationIdKey, correlationId);
+    }
+
+    for (const key of options.keys ?? []) {
+      const value = AsyncContext.get(key);
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        codec.set(carrier, key, String(value));
+      }
+    }
+
+    if (options.trace !== false) {
+      for (const [name, value] of Object.entries(AsyncContext.getTraceHeaders())) {
+        codec.set(carrier, name, value);
+      }
+    }
+
+    return carrier;
+  }
+
+  /**
+   * Read the context written by `inject` (consumer side).
+   * Returns initial data for `AsyncContext.run`: the correlation ID, the allowlisted `keys`
+   * and, when the carrier has a valid `traceparent`, a trace context continuing it.
+   */
+  static extract<C = HeadersCarrier>(
+    carrier: C,
+    options: PropagationOptions<C> = {}
+  ): Record<string, unknown> {
+    const codec = options.codec ?? (headersCodec as unknown as ContextCodec<C>);
+    const data: Record<string, unknown> = {};
+
+    // Guard clause: Missing carrier (e.g. a message without headers)
+    if (carrier === null || carrier === undefined) {
+      return data;
+    }
+
+    for (const key of [AsyncContext.correlationIdKey, ...(options.keys ?? [])]) {
+      const value = codec.get(carrier, key);
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    }
+
+    const traceparent = options.trace !== false ? codec.get(carrier, 'traceparent') : undefined;
+    if (parseTraceparent(traceparent)) {
+      data[TRACE_CONTEXT_KEY] = createTraceContext({
+        traceparent,
+        tracestate: codec.get(carrier, 'tracestate'),
+      });
+    }
+
+    return data;
+  }
+
+  /**
+   * Run a function in a new context resumed from a message carrier (see `extract`).
+   *
+   * @example
+   * ```typescript
+   * await consumer.run({
+   *   eachMessage: ({ message }) =>
+   *     AsyncContext.runWithExtracted(message.headers ?? {}, () => handle(message), {
+   *       codec: kafkaHeadersCodec,
+   *       keys: ['tenantId'],
+   *     }),
+   * });
+   * ```
+   */
+  static runWithExtracted<C, R>(carrier: C, fn: () => R, options: PropagationOptions<C> = {}): R {
+    return AsyncContext.run(fn, AsyncContext.extract(carrier, options));
+  }
+
+  /**
+   * The configured trace context provider, if any.
+   * @internal Used by OpenTelemetryBridge to only remove its own provider
+   */
+  static getTraceContextProvider(): (() => TraceContext | undefined) | undefined {
+    return AsyncContext.traceContextProvider;
+  }
+
+  /**
+   * Trace context from the configured provider, if any.
+   * A failing provider is ignored so that logging never throws (Silent Observer).
+   * @internal Used by Logger to inject the live trace at log time
+   */
+  static getProvidedTraceContext(): TraceContext | undefined {
+    const provider = AsyncContext.traceContextProvider;
+
+    // Guard clause: No provider configured
+    if (!provider) {
+      return undefined;
+    }
+
+    try {
+      return provider();
+    } catch (error) {
+      console.error('[AsyncContext Error] Trace context provider failed:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Clear all context data
    * Useful for cleanup or testing
    */
   static clear(): void {
-    AsyncContext.storage.getStore()?.clear();
+    const frame = AsyncContext.storage.getStore();
+
+    // Guard clause: No context store available
+    if (!frame) {
+      return;
+    }
+
+    // A shared store belongs to other contexts too: detach instead of clearing it
+    if (frame.shared) {
+      frame.data = new Map();
+      frame.shared = false;
+      return;
+    }
+    frame.data.clear();
   }
 
   /**
@@ -210,6 +555,59 @@ export class AsyncContext {
    * @internal Used by Logger for efficient context iteration
    */
   static getStore(): Map<string, unknown> | undefined {
-    return AsyncContext.storage.getStore();
+    return AsyncContext.storage.getStore()?.data;
+  }
+
+  /**
+   * Note when initial data carries a log level override.
+   * @private
+   */
+  private static trackLevelOverride(initialData?: Record<string, unknown>): void {
+    if (initialData && Object.prototype.hasOwnProperty.call(initialData, LOG_LEVEL_KEY)) {
+      AsyncContext.levelOverridesUsed = true;
+    }
+  }
+
+  /**
+   * Build the frame of a child context (Single Responsibility).
+   * Without initial data the parent Map is shared and both frames become copy-on-write;
+   * with initial data the copy is needed anyway.
+   * @private
+   */
+  private static createChildFrame(initialData?: Record<string, unknown>): ContextFrame {
+    const parent = AsyncContext.storage.getStore();
+    const entries = initialData ? Object.entries(initialData) : [];
+
+    // Guard clause: Nothing to inherit
+    if (!parent) {
+      return { data: new Map(entries), shared: false };
+    }
+
+    // Guard clause: Nothing to add - share the parent store until either side writes
+    if (entries.length === 0) {
+      parent.shared = true;
+      return { data: parent.data, shared: true };
+    }
+
+    return { data: new Map([...parent.data, ...entries]), shared: false };
+  }
+
+  /**
+   * Get the current store for writing, copying it first if it is shared (copy-on-write).
+   * @private
+   */
+  private static getWritableStore(): ContextData | undefined {
+    const frame = AsyncContext.storage.getStore();
+
+    // Guard clause: No context store available
+    if (!frame) {
+      return undefined;
+    }
+
+    if (frame.shared) {
+      frame.data = new Map(frame.data);
+      frame.shared = false;
+    }
+    return frame.data;
   }
 }
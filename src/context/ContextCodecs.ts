@@ -0,0 +1,84 @@
+/**
+ * Carrier codecs for AsyncContext.inject / AsyncContext.extract
+ *
+ * AsyncLocalStorage does not cross queues or `worker_threads`: the producer injects the
+ * context into the message (headers or payload) and the consumer extracts it.
+ * A codec tells inject/extract how to write and read one string entry of a carrier
+ * (the same shape as OpenTelemetry's TextMap setter/getter).
+ */
+
+/**
+ * Reads and writes string entries of a carrier.
+ */
+export interface ContextCodec<C> {
+  /** Write one entry */
+  set(carrier: C, key: string, value: string): void;
+  /** Read one entry (undefined when missing or unreadable) */
+  get(carrier: C, key: string): string | undefined;
+}
+
+/** Plain object headers (HTTP-style, AMQP, SQS message attributes flattened to strings...) */
+export type HeadersCarrier = Record<string, unknown>;
+
+/** Kafka-style headers: values are bytes (kafkajs `IHeaders`, node-rdkafka after mapping) */
+export type KafkaHeadersCarrier = Record<string, Buffer | string | (Buffer | string)[] | undefined>;
+
+/** Any object sent with `postMessage` (the context goes under CONTEXT_MESSAGE_FIELD) */
+export type MessageCarrier = Record<string, unknown>;
+
+/** Field of a postMessage payload holding the injected entries */
+export const CONTEXT_MESSAGE_FIELD = '__asyncContext';
+
+/**
+ * Plain object headers: entries are string values.
+ * Reading falls back to the lowercase key, as Node lowercases incoming header names.
+ */
+export const headersCodec: ContextCodec<HeadersCarrier> = {
+  set(carrier, key, value) {
+    carrier[key] = value;
+  },
+  get(carrier, key) {
+    const raw = carrier[key] ?? carrier[key.toLowerCase()];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    return typeof value === 'string' ? value : undefined;
+  },
+};
+
+/**
+ * Kafka-style headers: entries are written as UTF-8 Buffers and read from Buffers or strings.
+ */
+export const kafkaHeadersCodec: ContextCodec<KafkaHeadersCarrier> = {
+  set(carrier, key, value) {
+    carrier[key] = Buffer.from(value, 'utf8');
+  },
+  get(carrier, key) {
+    const raw = carrier[key];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (Buffer.isBuffer(value)) {
+      return value.toString('utf8');
+    }
+    return typeof value === 'string' ? value : undefined;
+  },
+};
+
+/**
+ * postMessage payloads (`worker_threads`, `MessagePort`, `BroadcastChannel`): entries go
+ * into a plain object under CONTEXT_MESSAGE_FIELD, which survives structured cloning.
+ */
+export const messageCodec: ContextCodec<MessageCarrier> = {
+  set(carrier, key, value) {
+    const field = carrier[CONTEXT_MESSAGE_FIELD];
+    const entries =
+      typeof field === 'object' && field !== null ? (field as Record<string, string>) : {};
+    entries[key] = value;
+    carrier[CONTEXT_MESSAGE_FIELD] = entries;
+  },
+  get(carrier, key) {
+    const field = carrier[CONTEXT_MESSAGE_FIELD];
+    const value =
+      typeof field === 'object' && field !== null
+        ? (field as Record<string, unknown>)[key]
+        : undefined;
+    return typeof value === 'string' ? value : undefined;
+  },
+};
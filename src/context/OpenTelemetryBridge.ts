@@ -0,0 +1,197 @@
+/**
+ * OpenTelemetry API bridge
+ *
+ * Joins logs and traces for services instrumented with `@opentelemetry/api`:
+ * - Injection: at log time, the active OTel span's ids are emitted as trace_id/span_id/trace_flags
+ * - Seeding: AsyncContext is filled from the active OTel span (e.g. in a middleware)
+ *
+ * NOTE: `@opentelemetry/api` is an optional peer dependency. It is never imported statically;
+ * `OpenTelemetryBridge.load()` imports it on demand, or the API object can be passed in directly.
+ */
+
+import { AsyncContext } from './Context';
+import type { TraceContext } from './TraceContext';
+
+/** Subset of the OTel SpanContext used by the bridge */
+export interface OpenTelemetrySpanContextLike {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+}
+
+/** Subset of the `@opentelemetry/api` module used by the bridge */
+export interface OpenTelemetryApiLike {
+  trace: {
+    getActiveSpan(): { spanContext(): OpenTelemetrySpanContextLike } | undefined;
+  };
+}
+
+export interface OpenTelemetryBridgeOptions {
+  /**
+   * When seeding AsyncContext, also use the trace id as correlation ID
+   * so that `AsyncContext.getCorrelationId()` matches the trace (default: false)
+   */
+  correlationIdFromTrace?: boolean;
+}
+
+const TRACE_ID_REGEX = /^[0-9a-f]{32}$/;
+const SPAN_ID_REGEX = /^[0-9a-f]{16}$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * @class OpenTelemetryBridge
+ * Reads the active OpenTelemetry span and exposes it as a TraceContext.
+ *
+ * @example
+ * ```typescript
+ * const bridge = await OpenTelemetryBridge.load();
+ * bridge?.enable(); // every log line now carries the active span's ids
+ * ```
+ */
+export class OpenTelemetryBridge {
+  private readonly api: OpenTelemetryApiLike;
+  private readonly options: OpenTelemetryBridgeOptions;
+  /** Provider registered in AsyncContext */
+  private readonly provider = (): TraceContext | undefined => this.getTraceContext();
+  private enabled = false;
+
+  /**
+   * @param api - The `@opentelemetry/api` module (or any object with the same `trace` API)
+   * @param options - Seeding options
+   */
+  constructor(api: OpenTelemetryApiLike, options: OpenTelemetryBridgeOptions = {}) {
+    // Guard clause: The OTel API is required
+    if (!api || typeof api.trace?.getActiveSpan !== 'function') {
+      throw new Error('[OpenTelemetryBridge] api must be the @opentelemetry/api module.');
+    }
+
+    this.api = api;
+    this.options = options;
+  }
+
+  /**
+   * Import `@opentelemetry/api` and create a bridge.
+   * Resolves to undefined when the optional peer dependency is not installed.
+   */
+  static async load(
+    options?: OpenTelemetryBridgeOptions
+  ): Promise<OpenTelemetryBridge | undefined> {
+    try {
+      const api = (await import('@opentelemetry/api')) as unknown as OpenTelemetryApiLike;
+      return new OpenTelemetryBridge(api, options);
+    } catch {
+      // @opentelemetry/api not available
+      return undefined;
+    }
+  }
+
+  /**
+   * Trace context of the active OTel span, or undefined when there is no valid span.
+   * Never throws (Silent Observer).
+   */
+  getTraceContext(): TraceContext | undefined {
+    try {
+      const spanContext = this.api.trace.getActiveSpan()?.spanContext();
+
+      // Guard clause: No active span, or an invalid (non-recording placeholder) one
+      if (!spanContext || !this.isValid(spanContext)) {
+        return undefined;
+      }
+
+      const traceState = spanContext.traceState?.serialize();
+      return {
+        traceId: spanContext.traceId,
+        spanId: spanContext.spanId,
+        traceFlags: (spanContext.traceFlags & 0xff).toString(16).padStart(2, '0'),
+        ...(traceState ? { traceState } : {}),
+      };
+    } catch (error) {
+      console.error('[OpenTelemetryBridge Error] Failed to read the active span:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Inject the active span's ids into every log entry (they take precedence over
+   * a trace stored in AsyncContext). Logging outside AsyncContext.run() works too.
+   */
+  enable(): this {
+    AsyncContext.configure({ traceContextProvider: this.provider });
+    this.enabled = true;
+    return this;
+  }
+
+  /**
+   * Stop injecting span ids (no-op when this bridge was not enabled).
+   * A provider configured by someone else since enable() is left in place.
+   */
+  disable(): this {
+    if (this.enabled && AsyncContext.getTraceContextProvider() === this.provider) {
+      AsyncContext.configure({ traceContextProvider: undefined });
+    }
+    this.enabled = false;
+    return this;
+  }
+
+  /**
+   * Whether this bridge is injecting span ids
+   */
+  isEnabled(): boolean {
+    return this.enabled && AsyncContext.getTraceContextProvider() === this.provider;
+  }
+
+  /**
+   * Copy the active span into the current AsyncContext (reverse mode).
+   * Returns the seeded trace context, or undefined when there is no span or no context.
+   *
+   * @example
+   * ```typescript
+   * AsyncContext.run(() => {
+   *   bridge.seedAsyncContext();
+   *   AsyncContext.getTraceHeaders(); // continues the OTel trace on outgoing calls
+   * });
+   * ```
+   */
+  seedAsyncContext(): TraceContext | undefined {
+    const traceContext = this.getTraceContext();
+
+    // Guard clause: Nothing to seed, or nowhere to seed it
+    if (!traceContext || !AsyncContext.isActive()) {
+      return undefined;
+    }
+
+    AsyncContext.setTraceContext(traceContext);
+    if (this.options.correlationIdFromTrace) {
+      AsyncContext.setCorrelationId(traceContext.traceId);
+    }
+    return traceContext;
+  }
+
+  /**
+   * Run a function in a new AsyncContext seeded from the active span.
+   *
+   * @param fn - Function to run within the context
+   * @param initialData - Optional initial context data
+   */
+  run<R>(fn: () => R, initialData?: Record<string, unknown>): R {
+    return AsyncContext.run(() => {
+      this.seedAsyncContext();
+      return fn();
+    }, initialData);
+  }
+
+  /**
+   * Validate OTel ids the same way the W3C parser does (Single Responsibility).
+   * @private
+   */
+  private isValid(spanContext: OpenTelemetrySpanContextLike): boolean {
+    return (
+      TRACE_ID_REGEX.test(spanContext.traceId) &&
+      SPAN_ID_REGEX.test(spanContext.spanId) &&
+      spanContext.traceId !== INVALID_TRACE_ID &&
+      spanContext.spanId !== INVALID_SPAN_ID
+    );
+  }
+}
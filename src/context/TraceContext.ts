@@ -0,0 +1,205 @@
+/**
+ * W3C Trace Context helpers (https://www.w3.org/TR/trace-context/)
+ *
+ * Pure functions to parse, validate and build `traceparent`/`tracestate` headers and to
+ * generate trace and span ids. AsyncContext uses them to keep the current trace in context.
+ */
+
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Trace context of the current unit of work.
+ */
+export interface TraceContext {
+  /** 32 lowercase hex chars, not all zeros */
+  traceId: string;
+  /** Span id of the current unit of work: 16 lowercase hex chars, not all zeros */
+  spanId: string;
+  /** Trace flags as 2 hex chars ('01' = sampled) */
+  traceFlags: string;
+  /** Span id of the caller (the incoming traceparent's parent-id) */
+  parentSpanId?: string;
+  /** Validated vendor-specific tracestate, propagated as-is */
+  traceState?: string;
+}
+
+/** Incoming headers as found on `http.IncomingMessage` or plain objects */
+export type TraceHeaderValue = string | string[] | undefined;
+
+export interface TraceHeaders {
+  traceparent?: TraceHeaderValue;
+  tracestate?: TraceHeaderValue;
+}
+
+/** version-traceid-parentid-flags, with room for fields added by future versions */
+const TRACEPARENT_REGEX = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+/** tracestate keys: simple-key or tenant@system multi-tenant key */
+const TRACESTATE_KEY_REGEX =
+  /^(?:[a-z][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+/** tracestate values: printable ASCII except ',' and '=', no trailing space */
+const TRACESTATE_VALUE_REGEX =
+  /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+const TRACESTATE_MAX_MEMBERS = 32;
+
+/** Sampled flag used for traces started here */
+export const TRACE_FLAG_SAMPLED = '01';
+
+/**
+ * Generate a random 16-byte trace id (never all zeros).
+ */
+export function generateTraceId(): string {
+  const id = randomBytes(16).toString('hex');
+  return id === INVALID_TRACE_ID ? generateTraceId() : id;
+}
+
+/**
+ * Generate a random 8-byte span id (never all zeros).
+ */
+export function generateSpanId(): string {
+  const id = randomBytes(8).toString('hex');
+  return id === INVALID_SPAN_ID ? generateSpanId() : id;
+}
+
+/**
+ * Take the first value of a header that may have been repeated.
+ * @private
+ */
+const firstHeader = (value: TraceHeaderValue): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Parse and validate a `traceparent` header.
+ * Returns undefined for anything the spec says must be ignored (bad format,
+ * version ff, all-zero ids, extra fields on version 00).
+ */
+export function parseTraceparent(
+  header: TraceHeaderValue
+): Pick<TraceContext, 'traceId' | 'spanId' | 'traceFlags'> | undefined {
+  const value = firstHeader(header)?.trim();
+
+  // Guard clause: Missing header
+  if (!value) {
+    return undefined;
+  }
+
+  const match = TRACEPARENT_REGEX.exec(value);
+
+  // Guard clause: Malformed header
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, traceFlags, rest] = match;
+
+  // Guard clause: Forbidden version, or version 00 with trailing data
+  if (version === 'ff' || (version === '00' && rest !== undefined)) {
+    return undefined;
+  }
+
+  // Guard clause: All-zero ids are invalid
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return { traceId, spanId, traceFlags };
+}
+
+/**
+ * Parse and validate a `tracestate` header (repeated headers are concatenated).
+ * Returns the normalized list, or undefined when it is empty or invalid
+ * (an invalid tracestate must not be propagated).
+ */
+export function parseTracestate(header: TraceHeaderValue): string | undefined {
+  const value = Array.isArray(header) ? header.join(',') : header;
+
+  // Guard clause: Missing header
+  if (!value) {
+    return undefined;
+  }
+
+  const members = value
+    .split(',')
+    .map((member) => member.trim())
+    .filter((member) => member.length > 0);
+  const keys = new Set<string>();
+
+  // Guard clause: Empty list or too many members
+  if (members.length === 0 || members.length > TRACESTATE_MAX_MEMBERS) {
+    return undefined;
+  }
+
+  for (const member of members) {
+    const separator = member.indexOf('=');
+    const key = member.slice(0, separator);
+    const memberValue = member.slice(separator + 1);
+
+    // Guard clause: Invalid or duplicated member
+    if (
+      separator <= 0 ||
+      !TRACESTATE_KEY_REGEX.test(key) ||
+      !TRACESTATE_VALUE_REGEX.test(memberValue) ||
+      keys.has(key)
+    ) {
+      return undefined;
+    }
+    keys.add(key);
+  }
+
+  return members.join(',');
+}
+
+/**
+ * Build a version 00 `traceparent` header.
+ */
+export function formatTraceparent(
+  context: Pick<TraceContext, 'traceId' | 'spanId' | 'traceFlags'>
+): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags}`;
+}
+
+/**
+ * Continue the trace described by incoming headers, or start a new one.
+ * The returned context has a fresh span id for the local unit of work;
+ * the caller's span id becomes `parentSpanId`.
+ */
+export function createTraceContext(headers: TraceHeaders = {}): TraceContext {
+  const parent = parseTraceparent(headers.traceparent);
+
+  // Guard clause: No valid parent - start a new trace (tracestate is dropped with it)
+  if (!parent) {
+    return {
+      traceId: generateTraceId(),
+      spanId: generateSpanId(),
+      traceFlags: TRACE_FLAG_SAMPLED,
+    };
+  }
+
+  const traceState = parseTracestate(headers.tracestate);
+  return {
+    traceId: parent.traceId,
+    spanId: generateSpanId(),
+    traceFlags: parent.traceFlags,
+    parentSpanId: parent.spanId,
+    ...(traceState ? { traceState } : {}),
+  };
+}
+
+/**
+ * Derive a child span (e.g. for an outgoing call) from a trace context.
+ */
+export function createChildSpan(parent: TraceContext): TraceContext {
+  return { ...parent, spanId: generateSpanId(), parentSpanId: parent.spanId };
+}
+
+/**
+ * Outgoing `traceparent` (and `tracestate`, when present) headers for a span.
+ */
+export function toTraceHeaders(context: TraceContext): Record<string, string> {
+  const headers: Record<string, string> = { traceparent: formatTraceparent(context) };
+  if (context.traceState) {
+    headers.tracestate = context.traceState;
+  }
+  return headers;
+}
@@ -0,0 +1,207 @@
+/**
+ * Environment-driven log levels
+ *
+ * Selects levels without code changes:
+ * - `LOG_LEVEL=warn`: level of every logger
+ * - `LOG_LEVELS="app.db=debug,app.http.*=trace,-app.noisy"`: per-name rules ('-name' silences)
+ * - `DEBUG=app:*,-app:noisy`: `debug`-module syntax, enabling 'debug' for matching names
+ *
+ * Patterns are globs over logger names ('*' matches any characters, dots included) and ':'
+ * is treated like '.', so `DEBUG=app:db:*` matches `app.db.pool`.
+ * Precedence: LOG_LEVELS (last matching rule wins), then DEBUG, then LOG_LEVEL.
+ * Environment levels take precedence over levels configured in code.
+ */
+
+import { LOG_LEVEL_WEIGHTS, type LogLevel, logLevels } from './levels';
+
+/** Environment to read LOG_LEVEL, LOG_LEVELS and DEBUG from (process.env by default) */
+export type LevelEnv = Record<string, string | undefined>;
+
+/** A logger-name glob and the level it selects */
+export interface LevelRule {
+  pattern: string;
+  level: LogLevel;
+  matcher: RegExp;
+}
+
+/** Levels parsed from the environment */
+export interface EnvLevelConfig {
+  /** From LOG_LEVEL */
+  defaultLevel?: LogLevel;
+  /** From LOG_LEVELS, in declaration order */
+  rules: LevelRule[];
+  /** From DEBUG: names enabled at 'debug' */
+  debugEnabled: RegExp[];
+  /** From DEBUG: '-' patterns, excluded even when an enabled pattern matches */
+  debugSkipped: RegExp[];
+}
+
+const RULE_SEPARATOR = ',';
+const DEBUG_SEPARATOR = /[\s,]+/;
+const EXCLUDE_PREFIX = '-';
+
+/** Level of a bare LOG_LEVELS pattern (`LOG_LEVELS=app.db`) */
+const BARE_PATTERN_LEVEL: LogLevel = 'debug';
+
+/** Levels in effect (parsed from process.env on first use) */
+let current: EnvLevelConfig | undefined;
+
+/**
+ * Parse LOG_LEVEL, LOG_LEVELS and DEBUG.
+ * Unknown levels and malformed rules are reported with console.warn and ignored.
+ */
+export function parseEnvLevels(env: LevelEnv = process.env): EnvLevelConfig {
+  const config: EnvLevelConfig = { rules: [], debugEnabled: [], debugSkipped: [] };
+
+  if (env.LOG_LEVEL?.trim()) {
+    config.defaultLevel = parseLevel(env.LOG_LEVEL, 'LOG_LEVEL');
+  }
+
+  for (const entry of splitList(env.LOG_LEVELS, RULE_SEPARATOR)) {
+    const rule = parseRule(entry);
+    if (rule) {
+      config.rules.push(rule);
+    }
+  }
+
+  for (const entry of splitList(env.DEBUG, DEBUG_SEPARATOR)) {
+    const excluded = entry.startsWith(EXCLUDE_PREFIX);
+    const pattern = excluded ? entry.slice(EXCLUDE_PREFIX.length) : entry;
+    (excluded ? config.debugSkipped : config.debugEnabled).push(compileGlob(pattern));
+  }
+
+  return config;
+}
+
+/**
+ * Re-read the environment (startup values are read on first use).
+ * Loggers already created by createLogger keep their level; LoggerRegistry.reloadEnvLevels
+ * also re-applies levels to registered loggers.
+ */
+export function loadEnvLevels(env: LevelEnv = process.env): EnvLevelConfig {
+  current = parseEnvLevels(env);
+  return current;
+}
+
+/**
+ * Level selected by the environment for a logger name (undefined when none applies)
+ */
+export function getEnvLevel(name: string, config?: EnvLevelConfig): LogLevel | undefined {
+  current ??= parseEnvLevels();
+  const levels = config ?? current;
+  const normalized = normalizeName(name);
+
+  // Last matching rule wins
+  for (let i = levels.rules.length - 1; i >= 0; i--) {
+    if (levels.rules[i].matcher.test(normalized)) {
+      return levels.rules[i].level;
+    }
+  }
+
+  const debugEnabled =
+    levels.debugEnabled.some((matcher) => matcher.test(normalized)) &&
+    !levels.debugSkipped.some((matcher) => matcher.test(normalized));
+
+  // Guard clause: DEBUG never makes a logger quieter than LOG_LEVEL
+  if (debugEnabled) {
+    return levels.defaultLevel && isMoreVerbose(levels.defaultLevel, BARE_PATTERN_LEVEL)
+      ? levels.defaultLevel
+      : BARE_PATTERN_LEVEL;
+  }
+
+  return levels.defaultLevel;
+}
+
+/**
+ * Parse one LOG_LEVELS entry: 'pattern=level', 'pattern' or '-pattern' (Single Responsibility).
+ * @private
+ */
+function parseRule(entry: string): LevelRule | undefined {
+  // Guard clause: '-pattern' silences matching loggers
+  if (entry.startsWith(EXCLUDE_PREFIX)) {
+    return createRule(entry.slice(EXCLUDE_PREFIX.length), 'silent', entry);
+  }
+
+  const separator = entry.indexOf('=');
+
+  // Guard clause: Bare pattern
+  if (separator === -1) {
+    return createRule(entry, BARE_PATTERN_LEVEL, entry);
+  }
+
+  const level = parseLevel(entry.slice(separator + 1), `LOG_LEVELS rule "${entry}"`);
+  return level ? createRule(entry.slice(0, separator), level, entry) : undefined;
+}
+
+/**
+ * Build a rule, rejecting empty patterns (Single Responsibility).
+ * @private
+ */
+function createRule(pattern: string, level: LogLevel, entry: string): LevelRule | undefined {
+  const trimmed = pattern.trim();
+
+  // Guard clause: Nothing to match against
+  if (!trimmed) {
+    console.warn(`[EnvLevels] Ignoring LOG_LEVELS rule "${entry}": missing logger name pattern`);
+    return undefined;
+  }
+
+  return { pattern: trimmed, level, matcher: compileGlob(trimmed) };
+}
+
+/**
+ * Validate a level name, warning on unknown values instead of silently falling back.
+ * @private
+ */
+function parseLevel(value: string, source: string): LogLevel | undefined {
+  const level = value.trim().toLowerCase();
+
+  // Guard clause: Known level
+  if (Object.hasOwn(LOG_LEVEL_WEIGHTS, level)) {
+    return level as LogLevel;
+  }
+
+  console.warn(
+    `[EnvLevels] Unknown log level "${value.trim()}" in ${source} (expected one of: ${logLevels.join(', ')}); ignored`
+  );
+  return undefined;
+}
+
+/**
+ * Compile a name glob ('*' = any characters) into an anchored RegExp.
+ * @private
+ */
+function compileGlob(pattern: string): RegExp {
+  const source = normalizeName(pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * ':' (DEBUG style) and '.' (namespace style) separate the same segments.
+ * @private
+ */
+function normalizeName(name: string): string {
+  return name.replaceAll(':', '.');
+}
+
+/**
+ * Split a list variable, dropping empty entries.
+ * @private
+ */
+function splitList(value: string | undefined, separator: string | RegExp): string[] {
+  return (value ?? '')
+    .split(separator)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Whether `level` lets more messages through than `than`.
+ * @private
+ */
+function isMoreVerbose(level: LogLevel, than: LogLevel): boolean {
+  return level !== 'silent' && LOG_LEVEL_WEIGHTS[level] < LOG_LEVEL_WEIGHTS[than];
+}
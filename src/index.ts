@@ -5,23 +5,63 @@
  */
 
 export { Logger } from './Logger';
+export type { LoggerBindings, TraceFieldNames } from './Logger';
 export * from './types';
 export type { LogRetentionRules } from './types';
 export * from './levels';
 export * from './transports';
 export * from './LoggerRegistry';
-export { AsyncContext } from './context/Context';
+export { parseEnvLevels, loadEnvLevels, getEnvLevel } from './envLevels';
+export type { EnvLevelConfig, LevelEnv, LevelRule } from './envLevels';
+export { AsyncContext, TRACE_CONTEXT_KEY, LOG_LEVEL_KEY } from './context/Context';
+export type { AsyncContextConfig, PropagationOptions } from './context/Context';
+export {
+  headersCodec,
+  kafkaHeadersCodec,
+  messageCodec,
+  CONTEXT_MESSAGE_FIELD,
+} from './context/ContextCodecs';
+export type {
+  ContextCodec,
+  HeadersCarrier,
+  KafkaHeadersCarrier,
+  MessageCarrier,
+} from './context/ContextCodecs';
+export {
+  parseTraceparent,
+  parseTracestate,
+  formatTraceparent,
+  generateTraceId,
+  generateSpanId,
+  createTraceContext,
+  TRACE_FLAG_SAMPLED,
+} from './context/TraceContext';
+export type { TraceContext, TraceHeaders } from './context/TraceContext';
+export { OpenTelemetryBridge } from './context/OpenTelemetryBridge';
+export type {
+  OpenTelemetryApiLike,
+  OpenTelemetryBridgeOptions,
+  OpenTelemetrySpanContextLike,
+} from './context/OpenTelemetryBridge';
 export * from './masking';
 export * from './sanitization';
 export * from './compliance';
+export * from './serializers';
+export * from './redaction';
+export * from './middleware';
+export * from './instrumentation';
+export * from './config';
 export { validatePlainJson, validateAndSanitizeJson } from './utils/jsonValidation';
 
 // Convenience factory function
-import { Logger } from './Logger';
+import { Logger, type TraceFieldNames } from './Logger';
 import type { LoggingMatrix } from './compliance/LoggingMatrix';
+import { getEnvLevel } from './envLevels';
 import type { LogLevel } from './levels';
 import type { MaskingEngine } from './masking/MaskingEngine';
+import { type RedactOptions, Redactor } from './redaction/Redactor';
 import { SanitizationEngine } from './sanitization/SanitizationEngine';
+import type { Serializers } from './serializers/StandardSerializers';
 import { ClassicTransport } from './transports/classic';
 import { CompactTransport } from './transports/compact';
 import { JsonTransport } from './transports/json';
@@ -36,6 +76,14 @@ export interface CreateLoggerOptions {
   sanitizationEngine?: SanitizationEngine;
   useAsyncContext?: boolean;
   loggingMatrix?: LoggingMatrix;
+  /** Per-key serializers for metadata, bindings and context (see stdSerializers) */
+  serializers?: Serializers;
+  /** Paths to redact in metadata, bindings and context (validated when the logger is created) */
+  redact?: string[] | RedactOptions;
+  /** Output names for the trace context fields (default: trace_id, span_id, trace_flags) */
+  traceFields?: TraceFieldNames;
+  /** Mask format arguments before interpolation, e.g. `info('token=%s', token)` (needs masking) */
+  maskFormatArgs?: boolean;
 }
 
 /**
@@ -52,7 +100,8 @@ const TRANSPORT_MAP: Record<string, () => Transport> = {
 export function createLogger(options: CreateLoggerOptions = {}): Logger {
   // Functional approach: Defaults using nullish coalescing
   const name = options.name ?? 'app';
-  const level = options.level ?? 'info';
+  // LOG_LEVEL / LOG_LEVELS / DEBUG take precedence over the level set in code
+  const level = getEnvLevel(name) ?? options.level ?? 'info';
 
   // Resolve transport: use map for strings, direct assignment for Transport instances
   const transportOption = options.transport ?? 'json';
@@ -75,6 +124,10 @@ export function createLogger(options: CreateLoggerOptions = {}): Logger {
       sanitizationEngine,
       useAsyncContext: options.useAsyncContext,
       loggingMatrix: options.loggingMatrix,
+      serializers: options.serializers,
+      redactor: options.redact ? new Redactor(options.redact) : undefined,
+      traceFields: options.traceFields,
+      maskFormatArgs: options.maskFormatArgs,
     }
   );
 }
@@ -0,0 +1,6 @@
+/**
+ * Outbound instrumentation exports
+ */
+
+export { instrumentOutbound, type OutboundInstrumentationOptions } from './outbound';
+export { withoutInstrumentation, isInstrumentationSuppressed } from './suppress';
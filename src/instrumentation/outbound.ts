@@ -0,0 +1,340 @@
+/**
+ * Outbound instrumentation for `fetch` and `http`/`https` requests
+ *
+ * Opt-in: `instrumentOutbound()` wraps the global `fetch` and `http.request`/`http.get`
+ * (and the `https` ones) until the returned function is called. For each outgoing call it:
+ * - adds configured AsyncContext keys (and the W3C trace) as headers, for allowed hosts only;
+ * - optionally logs the call (method, host, path, statusCode, durationMs) through a Logger.
+ */
+
+import { AsyncResource } from 'node:async_hooks';
+import http, { type ClientRequest, type IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { syncBuiltinESMExports } from 'node:module';
+import { performance } from 'node:perf_hooks';
+import type { Logger } from '../Logger';
+import { AsyncContext } from '../context/Context';
+import type { LogLevel } from '../levels';
+import { isInstrumentationSuppressed } from './suppress';
+
+export interface OutboundInstrumentationOptions {
+  /**
+   * Hosts that receive context headers: exact host names, `*.example.com` patterns
+   * (any subdomain) or RegExps tested against the host name.
+   * Calls to other hosts are sent unchanged, so internal ids never reach third parties.
+   */
+  allowedHosts: (string | RegExp)[];
+  /** Context keys sent as headers (context key → header name). Default: the correlation ID key */
+  contextHeaders?: Record<string, string>;
+  /** Send `traceparent`/`tracestate` for a new child span when a trace is active (default: true) */
+  propagateTrace?: boolean;
+  /** Log each outgoing call through this logger (default: no logging) */
+  logger?: Logger;
+  /** Level of the line for calls that got a response (default: 'info'); failures use 'error' */
+  level?: LogLevel;
+  /** Wrap the global `fetch` (default: true) */
+  fetch?: boolean;
+  /** Wrap `http.request`/`http.get` and `https.request`/`https.get` (default: true) */
+  http?: boolean;
+}
+
+/** Fields of an outgoing-call log line */
+interface OutboundLogFields {
+  method: string;
+  host: string;
+  path: string;
+  statusCode?: number;
+  durationMs: number;
+}
+
+type RequestFunction = typeof http.request;
+
+/** Uninstall function of the active instrumentation (only one may be active) */
+let activeUninstall: (() => void) | undefined;
+
+/**
+ * Install the outbound instrumentation. Returns a function that restores the originals.
+ *
+ * @throws Error when options are invalid or the instrumentation is already installed
+ *
+ * @example
+ * ```typescript
+ * const uninstall = instrumentOutbound({
+ *   allowedHosts: ['*.internal.example.com'],
+ *   logger,
+ * });
+ * await fetch('https://billing.internal.example.com/charge'); // sends correlationId + traceparent
+ * ```
+ */
+export function instrumentOutbound(options: OutboundInstrumentationOptions): () => void {
+  // Guard clause: The allowlist is required (an empty one only logs)
+  if (!options || !Array.isArray(options.allowedHosts)) {
+    throw new Error('[OutboundInstrumentation] allowedHosts must be an array of hosts.');
+  }
+
+  // Guard clause: Patching twice would wrap the wrappers
+  if (activeUninstall) {
+    throw new Error(
+      '[OutboundInstrumentation] Already installed; call the returned uninstall function first.'
+    );
+  }
+
+  const restorers: (() => void)[] = [];
+  if (options.fetch !== false && typeof globalThis.fetch === 'function') {
+    restorers.push(patchFetch(options));
+  }
+  if (options.http !== false) {
+    restorers.push(patchHttpModule(http, options), patchHttpModule(https, options));
+    // Keep `import { request } from 'node:http'` in sync with the patched module
+    syncBuiltinESMExports();
+  }
+
+  const uninstall = (): void => {
+    // Guard clause: Already uninstalled
+    if (activeUninstall !== uninstall) {
+      return;
+    }
+    for (const restore of restorers) {
+      restore();
+    }
+    syncBuiltinESMExports();
+    activeUninstall = undefined;
+  };
+  activeUninstall = uninstall;
+  return uninstall;
+}
+
+/**
+ * Check a host name against the allowlist (Single Responsibility).
+ * @private
+ */
+function isAllowedHost(hostname: string, allowedHosts: (string | RegExp)[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some((allowed) => {
+    if (allowed instanceof RegExp) {
+      return allowed.test(host);
+    }
+    const pattern = allowed.toLowerCase();
+    return pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern;
+  });
+}
+
+/**
+ * Headers to add from the current AsyncContext (functional approach).
+ * @private
+ */
+function outboundHeaders(options: OutboundInstrumentationOptions): Record<string, string> {
+  const correlationIdKey = AsyncContext.getCorrelationIdKey();
+  const mapping = options.contextHeaders ?? { [correlationIdKey]: correlationIdKey };
+
+  const headers = Object.entries(mapping).reduce<Record<string, string>>((acc, [key, header]) => {
+    const value = AsyncContext.get(key);
+    if (typeof value === 'string' || typeof value === 'number') {
+      acc[header] = String(value);
+    }
+    return acc;
+  }, {});
+
+  return options.propagateTrace === false
+    ? headers
+    : { ...headers, ...AsyncContext.getTraceHeaders() };
+}
+
+/**
+ * Log an outgoing call; never throws (Silent Observer).
+ * @private
+ */
+function logOutbound(
+  options: OutboundInstrumentationOptions,
+  fields: OutboundLogFields,
+  error?: unknown
+): void {
+  const level = error ? 'error' : (options.level ?? 'info');
+
+  // Guard clause: Logging disabled
+  if (!options.logger || level === 'silent') {
+    return;
+  }
+
+  try {
+    if (error) {
+      options.logger.error(
+        { ...fields, err: error instanceof Error ? error : new Error(String(error)) },
+        'outgoing request failed'
+      );
+    } else {
+      options.logger[level]({ ...fields }, 'outgoing request completed');
+    }
+  } catch (logError) {
+    console.error('[OutboundInstrumentation Error] Failed to log outgoing request:', logError);
+  }
+}
+
+/**
+ * Elapsed time in ms with microsecond precision.
+ * @private
+ */
+const elapsed = (start: number): number => Math.round((performance.now() - start) * 1000) / 1000;
+
+/**
+ * Wrap the global fetch (Single Responsibility).
+ * @private
+ */
+function patchFetch(options: OutboundInstrumentationOptions): () => void {
+  const originalFetch = globalThis.fetch;
+
+  const instrumentedFetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    // Guard clause: Suppressed call (e.g. log delivery)
+    if (isInstrumentationSuppressed()) {
+      return originalFetch(input, init);
+    }
+
+    const url = parseFetchUrl(input);
+    let nextInit = init;
+
+    if (url && isAllowedHost(url.hostname, options.allowedHosts)) {
+      // Headers given by the caller win over context headers
+      const headers = new Headers(
+        init?.headers ?? (input instanceof Request ? input.headers : undefined)
+      );
+      for (const [name, value] of Object.entries(outboundHeaders(options))) {
+        if (!headers.has(name)) {
+          headers.set(name, value);
+        }
+      }
+      nextInit = { ...init, headers };
+    }
+
+    // Guard clause: Nothing to log (or no URL to describe the call)
+    if (!options.logger || !url) {
+      return originalFetch(input, nextInit);
+    }
+
+    const fields = {
+      method: (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase(),
+      host: url.host,
+      path: url.pathname,
+    };
+    const start = performance.now();
+
+    try {
+      const response = await originalFetch(input, nextInit);
+      logOutbound(options, { ...fields, statusCode: response.status, durationMs: elapsed(start) });
+      return response;
+    } catch (error) {
+      logOutbound(options, { ...fields, durationMs: elapsed(start) }, error);
+      throw error;
+    }
+  };
+
+  globalThis.fetch = instrumentedFetch as typeof fetch;
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
+
+/**
+ * Absolute URL of a fetch input, or undefined when it cannot be parsed.
+ * @private
+ */
+function parseFetchUrl(input: string | URL | Request): URL | undefined {
+  try {
+    return new URL(input instanceof Request ? input.url : input);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wrap `request` and `get` of `node:http` or `node:https` (Single Responsibility).
+ * `get` is rebuilt on the wrapped `request` because Node's own `get` calls the
+ * internal function, not the module export.
+ * @private
+ */
+function patchHttpModule(
+  mod: typeof http | typeof https,
+  options: OutboundInstrumentationOptions
+): () => void {
+  const target = mod as unknown as { request: RequestFunction; get: RequestFunction };
+  const originalRequest = target.request;
+  const originalGet = target.get;
+
+  const request = function (this: unknown, ...args: unknown[]): ClientRequest {
+    const req = Reflect.apply(originalRequest, this, args) as ClientRequest;
+    instrumentClientRequest(req, options);
+    return req;
+  };
+  const get = function (this: unknown, ...args: unknown[]): ClientRequest {
+    const req = Reflect.apply(request, this, args);
+    req.end();
+    return req;
+  };
+
+  target.request = request as RequestFunction;
+  target.get = get as RequestFunction;
+  return () => {
+    target.request = originalRequest;
+    target.get = originalGet;
+  };
+}
+
+/**
+ * Add context headers to a ClientRequest (before its headers are sent) and log its outcome.
+ * @private
+ */
+function instrumentClientRequest(
+  req: ClientRequest,
+  options: OutboundInstrumentationOptions
+): void {
+  // Guard clause: Suppressed call (e.g. log delivery)
+  if (isInstrumentationSuppressed()) {
+    return;
+  }
+
+  if (isAllowedHost(req.host, options.allowedHosts) && !req.headersSent) {
+    // Headers given by the caller win over context headers
+    for (const [name, value] of Object.entries(outboundHeaders(options))) {
+      if (!req.hasHeader(name)) {
+        req.setHeader(name, value);
+      }
+    }
+  }
+
+  // Guard clause: Nothing to log
+  if (!options.logger) {
+    return;
+  }
+
+  const start = performance.now();
+  const queryStart = req.path.indexOf('?');
+  const fields = {
+    method: req.method,
+    host: req.getHeader('host')?.toString() ?? req.host,
+    path: queryStart === -1 ? req.path : req.path.slice(0, queryStart),
+  };
+
+  let responded = false;
+
+  // Bound to the caller's context so the line carries its correlation ID
+  req.once(
+    'response',
+    AsyncResource.bind((res: IncomingMessage) => {
+      responded = true;
+      logOutbound(options, { ...fields, statusCode: res.statusCode, durationMs: elapsed(start) });
+    })
+  );
+
+  // 'close' instead of 'error': an 'error' listener would hide errors the caller does not handle
+  req.once(
+    'close',
+    AsyncResource.bind(() => {
+      if (!responded) {
+        const error = (req as { errored?: unknown }).errored ?? new Error('socket closed');
+        logOutbound(options, { ...fields, durationMs: elapsed(start) }, error);
+      }
+    })
+  );
+}
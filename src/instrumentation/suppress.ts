@@ -0,0 +1,25 @@
+/**
+ * Suppression of outbound instrumentation
+ *
+ * Transports that ship logs over HTTP run their requests through `withoutInstrumentation`,
+ * so the outbound instrumentation neither adds context headers to them nor logs them
+ * (logging a log delivery would feed itself forever).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const suppressed = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run a function whose outgoing calls (including async continuations) are not instrumented.
+ */
+export function withoutInstrumentation<R>(fn: () => R): R {
+  return suppressed.run(true, fn);
+}
+
+/**
+ * Whether the current call runs inside `withoutInstrumentation`
+ */
+export function isInstrumentationSuppressed(): boolean {
+  return suppressed.getStore() === true;
+}
@@ -0,0 +1,254 @@
+/**
+ * FILE: src/masking/FieldEncryption.ts
+ * DESCRIPTION: Reversible field encryption (AES-256-GCM) for the ENCRYPT strategy.
+ *
+ * Values are sealed under a data key and written as `enc:v1:<keyId>:<base64url(iv|ciphertext|tag)>`.
+ * Data keys come from a pluggable provider: envelope encryption (data keys wrapped by a KMS
+ * master key) lives there, so only holders of the key can reveal a field with decryptLogEntry.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+/**
+ * @interface DataKey
+ * @description AES-256 data key with the id recorded in every token it seals.
+ */
+export interface DataKey {
+  /** Key id (letters, digits, '_' or '-', at most 32 characters) */
+  id: string;
+  /** 32-byte AES-256 key */
+  key: Uint8Array;
+}
+
+/**
+ * @interface EncryptionKeyProvider
+ * @description Source of data keys. Implement it to unwrap keys with a KMS.
+ */
+export interface EncryptionKeyProvider {
+  /**
+   * Data key for new values. Called for every encrypted field, so it must be synchronous
+   * and cheap (unwrap once, then cache).
+   */
+  currentKey(): DataKey;
+  /** Data key by id, for decryption (undefined when unknown) */
+  getKey(id: string): Uint8Array | undefined | Promise<Uint8Array | undefined>;
+}
+
+/** What decryption needs from a provider (decrypt-only tooling may not hold a current key) */
+export type DecryptionKeyProvider = Pick<EncryptionKeyProvider, 'getKey'>;
+
+/** Token prefix (format version 1) */
+const TOKEN_PREFIX = 'enc:v1:';
+/** Recognizes a token: key id, then base64url(iv | ciphertext | tag) */
+const TOKEN_PATTERN = /^enc:v1:([\w-]{1,32}):([\w-]{38,})$/;
+const KEY_ID_PATTERN = /^[\w-]{1,32}$/;
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Generate a random data key.
+ * @param id - Key id
+ * @returns A new 32-byte data key
+ */
+export function generateDataKey(id: string): DataKey {
+  const dataKey = { id, key: randomBytes(KEY_BYTES) };
+  validateDataKey(dataKey);
+  return dataKey;
+}
+
+/**
+ * @class InMemoryKeyProvider
+ * Key provider holding plain data keys (tests, local tooling, keys already unwrapped at startup).
+ */
+export class InMemoryKeyProvider implements EncryptionKeyProvider {
+  private readonly keys = new Map<string, Uint8Array>();
+  private currentId: string;
+
+  /**
+   * @param keys - Data keys; the last one encrypts new values
+   */
+  constructor(keys: DataKey[]) {
+    // Guard clause: A provider needs a key to encrypt with
+    if (keys.length === 0) {
+      throw new Error('[InMemoryKeyProvider] At least one data key is required');
+    }
+    for (const key of keys) {
+      this.addKey(key);
+    }
+    this.currentId = keys[keys.length - 1].id;
+  }
+
+  /**
+   * Add a key and make it current (older keys stay available for decryption).
+   * @param key - The new data key
+   */
+  rotate(key: DataKey): void {
+    this.addKey(key);
+    this.currentId = key.id;
+  }
+
+  currentKey(): DataKey {
+    return { id: this.currentId, key: this.keys.get(this.currentId) as Uint8Array };
+  }
+
+  getKey(id: string): Uint8Array | undefined {
+    return this.keys.get(id);
+  }
+
+  /**
+   * @private
+   */
+  private addKey(key: DataKey): void {
+    validateDataKey(key);
+    this.keys.set(key.id, key.key);
+  }
+}
+
+/**
+ * @class FieldEncryptor
+ * Seals values with the provider's current data key.
+ */
+export class FieldEncryptor {
+  private readonly provider: EncryptionKeyProvider;
+
+  constructor(provider: EncryptionKeyProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Encrypt a value.
+   * @param value - Plain value
+   * @returns `enc:v1:<keyId>:<payload>`
+   */
+  encrypt(value: string): string {
+    const { id, key } = this.provider.currentKey();
+    validateDataKey({ id, key });
+
+    const header = `${TOKEN_PREFIX}${id}:`;
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    // The header is authenticated, so the key id cannot be swapped
+    cipher.setAAD(Buffer.from(header, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    const payload = Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+    return header + payload.toString('base64url');
+  }
+}
+
+/**
+ * Whether a value is an ENCRYPT token.
+ * @param value - Any value
+ */
+export function isEncryptedToken(value: unknown): value is string {
+  return typeof value === 'string' && TOKEN_PATTERN.test(value);
+}
+
+/**
+ * Decrypt one token.
+ * @param token - `enc:v1:<keyId>:<payload>`
+ * @param provider - Provider holding the token's data key
+ * @returns The plain value
+ */
+export async function decryptToken(
+  token: string,
+  provider: DecryptionKeyProvider
+): Promise<string> {
+  const match = TOKEN_PATTERN.exec(token);
+  // Guard clause: Not a token
+  if (!match) {
+    throw new Error('[FieldEncryption] Not an encrypted token');
+  }
+
+  const [, id, encoded] = match;
+  const key = await provider.getKey(id);
+  if (!key) {
+    throw new Error(`[FieldEncryption] Unknown data key "${id}"`);
+  }
+
+  const payload = Buffer.from(encoded, 'base64url');
+  const decipher = createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(`${TOKEN_PREFIX}${id}:`, 'utf8'));
+  try {
+    decipher.setAuthTag(payload.subarray(payload.length - TAG_BYTES));
+    const ciphertext = payload.subarray(IV_BYTES, payload.length - TAG_BYTES);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error(`[FieldEncryption] Token with key "${id}" failed authentication`);
+  }
+}
+
+/**
+ * @interface DecryptLogEntryOptions
+ * @description Which fields decryptLogEntry reveals.
+ */
+export interface DecryptLogEntryOptions {
+  /** Dotted field paths to reveal, array indexes omitted (default: every token) */
+  fields?: string[];
+}
+
+/**
+ * Reveal the encrypted fields of a log entry.
+ * The entry is not modified; tokens outside `fields` stay encrypted.
+ * @param entry - Parsed log entry
+ * @param provider - Provider holding the data keys
+ * @param options - Fields to reveal
+ * @returns A copy of the entry with the tokens decrypted
+ */
+export async function decryptLogEntry(
+  entry: Record<string, unknown>,
+  provider: DecryptionKeyProvider,
+  options: DecryptLogEntryOptions = {}
+): Promise<Record<string, unknown>> {
+  const fields = options.fields ? new Set(options.fields) : undefined;
+  return (await decryptValue(entry, '', provider, fields)) as Record<string, unknown>;
+}
+
+/**
+ * Walk a value and decrypt the tokens at the selected paths (Single Responsibility).
+ * @private
+ */
+async function decryptValue(
+  value: unknown,
+  path: string,
+  provider: DecryptionKeyProvider,
+  fields: Set<string> | undefined
+): Promise<unknown> {
+  // Guard clause: Token at a selected path
+  if (isEncryptedToken(value)) {
+    return !fields || fields.has(path) ? decryptToken(value, provider) : value;
+  }
+
+  // Guard clause: Array - same path for every item
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => decryptValue(item, path, provider, fields)));
+  }
+
+  // Guard clause: Primitive or null - return as-is
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([key, item]) => [
+      key,
+      await decryptValue(item, path ? `${path}.${key}` : key, provider, fields),
+    ])
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * @private
+ */
+function validateDataKey(dataKey: DataKey): void {
+  // Guard clause: The id is embedded in tokens, so it must stay parseable
+  if (!KEY_ID_PATTERN.test(dataKey.id ?? '')) {
+    throw new Error(
+      `[FieldEncryption] Invalid key id "${dataKey.id}": use 1-32 letters, digits, '_' or '-'`
+    );
+  }
+  if (dataKey.key?.length !== KEY_BYTES) {
+    throw new Error(`[FieldEncryption] Data key "${dataKey.id}" must be ${KEY_BYTES} bytes`);
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * FILE: src/masking/Identifiers.ts
+ * DESCRIPTION: Format-aware masking of national and regional identifiers.
+ *
+ * Each identifier validates its format (and checksum, where the identifier has one) and masks
+ * the value while keeping its separators and the characters regulators allow to show.
+ * Identifiers with a distinctive written form also provide a free-text detector; the others
+ * (passport numbers, dates) are too ambiguous outside a named field and only back key rules.
+ */
+
+import { isIP } from 'node:net';
+import type { ValueDetector } from './ValueDetectors';
+import { passesMod97 } from './ValueDetectors';
+
+/**
+ * @interface IdentifierFormat
+ * @description Validation and masking of one kind of identifier.
+ */
+export interface IdentifierFormat {
+  /** Whether the value is a well-formed identifier (checksum included) */
+  isValid(value: string): boolean;
+  /** Mask a valid identifier */
+  mask(value: string, maskChar: string): string;
+  /** Written form found in free text (omitted when too ambiguous) */
+  pattern?: RegExp;
+}
+
+/** Control letters of the Spanish DNI/NIE (number mod 23) */
+const DNI_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+/** NIE prefixes stand for these leading digits */
+const NIE_PREFIX: Record<string, string> = { X: '0', Y: '1', Z: '2' };
+/** CUIL/CUIT type prefixes (people and companies) */
+const CUIL_PREFIXES = new Set(['20', '23', '24', '27', '30', '33', '34']);
+/** NINO prefixes that are never issued */
+const NINO_INVALID_PREFIXES = new Set(['BG', 'GB', 'KN', 'NK', 'NT', 'TN', 'ZZ']);
+const YEAR_RANGE = { min: 1900, max: 2100 };
+
+/**
+ * Spanish DNI (12345678Z) and NIE (X1234567L), mod-23 control letter.
+ * Shows digits 4-7 as recommended by the Spanish data protection agency: ***4567**.
+ */
+const esDni: IdentifierFormat = {
+  isValid: (value) => {
+    const compact = value.toUpperCase().replace(/[\s-]/g, '');
+    if (!/^(?:\d{8}|[XYZ]\d{7})[A-Z]$/.test(compact)) {
+      return false;
+    }
+    const number = (NIE_PREFIX[compact[0]] ?? compact[0]) + compact.slice(1, 8);
+    return DNI_LETTERS[Number(number) % 23] === compact[8];
+  },
+  mask: (value, maskChar) => {
+    const first = /^[XYZ]/i.test(value.trim()) ? 4 : 3;
+    return maskAlphanumerics(value, maskChar, (index) => index >= first && index < first + 4);
+  },
+  pattern: /\b(?:\d{8}|[XYZ]\d{7})-?[A-Z]\b/g,
+};
+
+/**
+ * Brazilian CPF (123.456.789-09), two mod-11 check digits. Shows the middle groups: ***.456.789-**.
+ */
+const brCpf: IdentifierFormat = {
+  isValid: (value) => {
+    if (!/^\d{3}\.?\d{3}\.?\d{3}-?\d{2}$/.test(value.trim())) {
+      return false;
+    }
+    const digits = toDigits(value);
+    return (
+      !/^(\d)\1*$/.test(value.replace(/\D/g, '')) &&
+      cpfCheckDigit(digits, 9) === digits[9] &&
+      cpfCheckDigit(digits, 10) === digits[10]
+    );
+  },
+  mask: (value, maskChar) => maskAlphanumerics(value, maskChar, (index) => index >= 3 && index < 9),
+  pattern: /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g,
+};
+
+/**
+ * Brazilian CNPJ (12.345.678/0001-95), two mod-11 check digits.
+ * Shows the first two digits and the branch: 12.***.***\/0001-**.
+ */
+const brCnpj: IdentifierFormat = {
+  isValid: (value) => {
+    if (!/^\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}$/.test(value.trim())) {
+      return false;
+    }
+    const digits = toDigits(value);
+    return (
+      !/^(\d)\1*$/.test(value.replace(/\D/g, '')) &&
+      cnpjCheckDigit(digits, 12) === digits[12] &&
+      cnpjCheckDigit(digits, 13) === digits[13]
+    );
+  },
+  mask: (value, maskChar) =>
+    maskAlphanumerics(value, maskChar, (index) => index < 2 || (index >= 8 && index < 12)),
+  pattern: /\b\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}\b/g,
+};
+
+/**
+ * Argentine CUIL/CUIT (20-12345678-6), mod-11 check digit.
+ * Shows the type prefix and the last 4 digits of the DNI: 20-****5678-*.
+ */
+const arCuil: IdentifierFormat = {
+  isValid: (value) => {
+    if (!/^\d{2}-?\d{8}-?\d$/.test(value.trim())) {
+      return false;
+    }
+    const digits = toDigits(value);
+    const weights = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, index) => total + weight * digits[index], 0);
+    const check = (11 - (sum % 11)) % 11;
+    return CUIL_PREFIXES.has(value.trim().slice(0, 2)) && check !== 10 && check === digits[10];
+  },
+  mask: (value, maskChar) =>
+    maskAlphanumerics(value, maskChar, (index) => index < 2 || (index >= 6 && index < 10)),
+  pattern: /\b\d{2}-\d{8}-\d\b/g,
+};
+
+/**
+ * UK National Insurance number (AB 12 34 56 C): issued prefixes and suffix A-D (no checksum).
+ * Shows the last two digits: ** ** ** 56 *.
+ */
+const ukNino: IdentifierFormat = {
+  isValid: (value) => {
+    const compact = value.toUpperCase().replace(/\s/g, '');
+    return (
+      /^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(compact) &&
+      !NINO_INVALID_PREFIXES.has(compact.slice(0, 2))
+    );
+  },
+  mask: (value, maskChar) =>
+    maskAlphanumerics(value, maskChar, (index) => index === 6 || index === 7),
+  pattern: /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+};
+
+/**
+ * US passport number: 9 digits, or a letter and 8 digits (no checksum). Shows the last 4.
+ */
+const usPassport: IdentifierFormat = {
+  isValid: (value) => /^(?:[A-Z]\d{8}|\d{9})$/i.test(value.trim()),
+  mask: (value, maskChar) =>
+    maskAlphanumerics(value, maskChar, (index, total) => index >= total - 4),
+};
+
+/**
+ * IBAN with a valid mod-97 checksum. Shows the country, check digits and last 4 characters.
+ * (Free text is covered by the `iban` value detector.)
+ */
+const iban: IdentifierFormat = {
+  isValid: (value) => {
+    const compact = value.toUpperCase().replace(/\s/g, '');
+    return /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact) && passesMod97(compact);
+  },
+  mask: (value, maskChar) =>
+    maskAlphanumerics(value, maskChar, (index, total) => index < 4 || index >= total - 4),
+};
+
+/**
+ * IPv4 and IPv6 addresses. Keeps the network part: 192.168.*.* and 2001:db8:85a3:*:...
+ */
+const ipAddress: IdentifierFormat = {
+  isValid: (value) => isIP(value.trim()) !== 0,
+  mask: (value, maskChar) => {
+    const address = value.trim();
+    // Guard clause: IPv4 - keep the first two octets
+    if (isIP(address) === 4) {
+      return maskIpv4(address, maskChar);
+    }
+
+    return maskIpv6(address, maskChar);
+  },
+  // Dotted quads written as versions ("v 10.2.3.4", "version 10.2.3.4") are not addresses
+  pattern: /(?<!\b(?:[Vv]|[Vv]ersion:?)\s*)\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/g,
+};
+
+/**
+ * Dates of birth (YYYY-MM-DD with optional time, DD/MM/YYYY or MM/DD/YYYY). Keeps the year only.
+ */
+const dateOfBirth: IdentifierFormat = {
+  isValid: (value) => parseDate(value) !== undefined,
+  mask: (value, maskChar) => {
+    const date = parseDate(value) as ParsedDate;
+    const masked = maskChar.repeat(2);
+    return date.yearFirst
+      ? [date.year, masked, masked].join(date.separator)
+      : [masked, masked, date.year].join(date.separator);
+  },
+};
+
+/**
+ * Built-in identifiers by name.
+ */
+export const IDENTIFIERS = {
+  esDni,
+  brCpf,
+  brCnpj,
+  arCuil,
+  ukNino,
+  usPassport,
+  iban,
+  ipAddress,
+  dateOfBirth,
+} as const satisfies Record<string, IdentifierFormat>;
+
+export type IdentifierName = keyof typeof IDENTIFIERS;
+
+/**
+ * Free-text detector for an identifier: only checksum-valid candidates are masked.
+ * @param name - Identifier with a written-form pattern
+ * @returns The value detector
+ */
+export function identifierDetector(name: IdentifierName): ValueDetector {
+  const format: IdentifierFormat = IDENTIFIERS[name];
+  // Guard clause: Ambiguous formats are only masked by key
+  if (!format.pattern) {
+    throw new Error(`[Identifiers] "${name}" has no free-text form`);
+  }
+  return {
+    name,
+    pattern: format.pattern,
+    mask: (match, maskChar) => (format.isValid(match) ? format.mask(match, maskChar) : undefined),
+  };
+}
+
+/**
+ * Mask letters and digits, keeping separators and the positions `keep` selects.
+ * Positions count letters and digits only, so "123.456" and "123456" mask alike.
+ * @private
+ */
+function maskAlphanumerics(
+  value: string,
+  maskChar: string,
+  keep: (index: number, total: number) => boolean
+): string {
+  const total = value.replace(/[^A-Za-z0-9]/g, '').length;
+  let index = 0;
+  return value.replace(/[A-Za-z0-9]/g, (char) => (keep(index++, total) ? char : maskChar));
+}
+
+/**
+ * @private
+ */
+function maskIpv4(address: string, maskChar: string): string {
+  return address
+    .split('.')
+    .map((octet, index) => (index < 2 ? octet : maskChar))
+    .join('.');
+}
+
+/**
+ * IPv4-mapped (::ffff:a.b.c.d) and IPv4-translated (::ffff:0:a.b.c.d) addresses
+ * @private
+ */
+const IPV4_MAPPED_REGEX = /^(::ffff:(?:0{1,4}:)?)(\d{1,3}(?:\.\d{1,3}){3})$/i;
+
+/**
+ * Keep the /48 prefix (groups 0-2) of an IPv6 address and mask every other group.
+ * Groups are counted at their real position, so '::' compression cannot shift
+ * interface-id groups into the kept prefix; an embedded IPv4 counts as two groups.
+ * @private
+ */
+function maskIpv6(address: string, maskChar: string): string {
+  const mapped = IPV4_MAPPED_REGEX.exec(address);
+
+  // Guard clause: IPv4-mapped - the prefix is fixed, only the IPv4 part identifies
+  if (mapped) {
+    return `${mapped[1]}${maskIpv4(mapped[2], maskChar)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const groupsOf = (part: string | undefined) => (part ? part.split(':') : []);
+  const width = (group: string) => (group.includes('.') ? 2 : 1);
+  const maskGroups = (groups: string[], start: number) => {
+    let position = start;
+    return groups
+      .map((group) => {
+        const masked = group.includes('.')
+          ? maskIpv4(group, maskChar)
+          : position < 3
+            ? group
+            : maskChar;
+        position += width(group);
+        return masked;
+      })
+      .join(':');
+  };
+
+  const maskedHead = maskGroups(groupsOf(head), 0);
+
+  // Guard clause: No '::' - every group is already at its real position
+  if (tail === undefined) {
+    return maskedHead;
+  }
+
+  const tailGroups = groupsOf(tail);
+  const tailStart = 8 - tailGroups.reduce((count, group) => count + width(group), 0);
+  return `${maskedHead}::${maskGroups(tailGroups, tailStart)}`;
+}
+
+/**
+ * @private
+ */
+function toDigits(value: string): number[] {
+  return [...value.replace(/\D/g, '')].map(Number);
+}
+
+/**
+ * CPF check digit at `position` (9 or 10).
+ * @private
+ */
+function cpfCheckDigit(digits: number[], position: number): number {
+  const sum = digits
+    .slice(0, position)
+    .reduce((total, digit, index) => total + digit * (position + 1 - index), 0);
+  return ((sum * 10) % 11) % 10;
+}
+
+/**
+ * CNPJ check digit at `position` (12 or 13).
+ * @private
+ */
+function cnpjCheckDigit(digits: number[], position: number): number {
+  const weights = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2].slice(13 - position);
+  const remainder =
+    weights.reduce((total, weight, index) => total + weight * digits[index], 0) % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+}
+
+/** A date split into its year and layout */
+interface ParsedDate {
+  year: string;
+  separator: string;
+  yearFirst: boolean;
+}
+
+/**
+ * Parse the supported date layouts (undefined when not a plausible date).
+ * @private
+ */
+function parseDate(value: string): ParsedDate | undefined {
+  const trimmed = value.trim();
+  const yearFirst =
+    /^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})(?:[T ][\d:.]{1,18}(?:Z|[+-]\d{2}:?\d{2})?)?$/.exec(
+      trimmed
+    );
+  const yearLast = /^(\d{1,2})([-/.])(\d{1,2})\2(\d{4})$/.exec(trimmed);
+
+  const parts = yearFirst
+    ? { year: yearFirst[1], separator: yearFirst[2], a: yearFirst[3], b: yearFirst[4] }
+    : yearLast
+      ? { year: yearLast[4], separator: yearLast[2], a: yearLast[1], b: yearLast[3] }
+      : undefined;
+  // Guard clause: Unknown layout
+  if (!parts) {
+    return undefined;
+  }
+
+  const year = Number(parts.year);
+  const [a, b] = [Number(parts.a), Number(parts.b)];
+  // Month and day may come in either order (DD/MM or MM/DD)
+  const plausible =
+    year >= YEAR_RANGE.min &&
+    year <= YEAR_RANGE.max &&
+    Math.min(a, b) >= 1 &&
+    Math.min(a, b) <= 12 &&
+    Math.max(a, b) <= 31;
+  return plausible
+    ? { year: parts.year, separator: parts.separator, yearFirst: !!yearFirst }
+    : undefined;
+}
@@ -4,8 +4,20 @@
  *
  * This engine processes nested objects recursively, applying masking rules
  * to sensitive data fields based on pattern matching.
+ * Opt-in value detectors also mask sensitive values inside free text.
  */
 
+import { type EncryptionKeyProvider, FieldEncryptor } from './FieldEncryption';
+import { IDENTIFIERS, type IdentifierFormat, type IdentifierName } from './Identifiers';
+import { type MaskingPreset, type MaskingPresetSpec, resolveMaskingPreset } from './Presets';
+import {
+  type PseudonymKey,
+  type PseudonymizeOptions,
+  Pseudonymizer,
+  loadPseudonymKey,
+} from './Pseudonymizer';
+import { VALUE_DETECTORS, type ValueDetector, type ValueDetectorName } from './ValueDetectors';
+
 /**
  * Basic regex validation for ReDoS prevention.
  * Used as fallback when safe-regex is not available.
@@ -109,9 +121,47 @@ export enum MaskingStrategy {
   PHONE = 'phone',
   PASSWORD = 'password',
   TOKEN = 'token',
+  /** Keyed HMAC-SHA256 pseudonym: same input, same output within a key epoch */
+  PSEUDONYMIZE = 'pseudonymize',
+  /** AES-256-GCM token, reversible with decryptLogEntry by holders of the data key */
+  ENCRYPT = 'encrypt',
+  /** Spanish DNI/NIE (control letter checked) */
+  ES_DNI = 'es_dni',
+  /** Brazilian CPF (check digits checked) */
+  BR_CPF = 'br_cpf',
+  /** Brazilian CNPJ (check digits checked) */
+  BR_CNPJ = 'br_cnpj',
+  /** Argentine CUIL/CUIT (check digit checked) */
+  AR_CUIL = 'ar_cuil',
+  /** UK National Insurance number */
+  UK_NINO = 'uk_nino',
+  /** US passport number */
+  US_PASSPORT = 'us_passport',
+  /** IBAN (mod-97 checked) */
+  IBAN = 'iban',
+  /** IPv4/IPv6 address (network part kept) */
+  IP_ADDRESS = 'ip_address',
+  /** Date of birth (year kept) */
+  DATE_OF_BIRTH = 'date_of_birth',
   CUSTOM = 'custom',
 }
 
+/**
+ * Identifier behind each format-aware strategy.
+ * Values that fail validation are masked entirely: the field name already marks them sensitive.
+ */
+const IDENTIFIER_STRATEGIES: [MaskingStrategy, IdentifierName][] = [
+  [MaskingStrategy.ES_DNI, 'esDni'],
+  [MaskingStrategy.BR_CPF, 'brCpf'],
+  [MaskingStrategy.BR_CNPJ, 'brCnpj'],
+  [MaskingStrategy.AR_CUIL, 'arCuil'],
+  [MaskingStrategy.UK_NINO, 'ukNino'],
+  [MaskingStrategy.US_PASSPORT, 'usPassport'],
+  [MaskingStrategy.IBAN, 'iban'],
+  [MaskingStrategy.IP_ADDRESS, 'ipAddress'],
+  [MaskingStrategy.DATE_OF_BIRTH, 'dateOfBirth'],
+];
+
 /**
  * @interface MaskingRule
  * @description Configuration for a masking rule.
@@ -127,10 +177,15 @@ export interface MaskingRule {
   preserveLength?: boolean;
   /** Character to use for masking */
   maskChar?: string;
+  /** Prefix and digest length (for PSEUDONYMIZE strategy) */
+  pseudonymize?: PseudonymizeOptions;
   /** Compiled regex pattern for performance */
   _compiledPattern?: RegExp;
 }
 
+/** Length of the mask replacing a scalar format argument */
+const FORMAT_ARG_MASK_LENGTH = 8;
+
 /**
  * @interface MaskingEngineOptions
  * @description Options for configuring the MaskingEngine.
@@ -144,6 +199,24 @@ export interface MaskingEngineOptions {
   preserveLength?: boolean;
   /** Enable default rules for common data types */
   enableDefaultRules?: boolean;
+  /**
+   * Scan string values for sensitive content (card numbers, JWTs, cloud keys, IBANs, emails):
+   * true enables every built-in detector; a list picks built-ins by name or adds custom ones.
+   * Only values whose key matched no rule are scanned (default: off).
+   */
+  valueDetectors?: boolean | (ValueDetectorName | ValueDetector)[];
+  /**
+   * Key for PSEUDONYMIZE rules. Defaults to LOG_PSEUDONYM_KEY / LOG_PSEUDONYM_KEY_ID
+   * from the environment; never put the secret in logged data.
+   */
+  pseudonymKey?: PseudonymKey;
+  /** Data keys for ENCRYPT rules */
+  encryptionKeyProvider?: EncryptionKeyProvider;
+  /**
+   * Compliance rule packs: 'pci', 'hipaa', 'gdpr', 'latam' (latest version) or pinned ('gdpr@1').
+   * Their rules are checked before the default and custom rules; their detectors always run.
+   */
+  presets?: MaskingPresetSpec[];
 }
 
 /**
@@ -164,15 +237,40 @@ export class MaskingEngine {
   private initialized = false;
   /** @private Strategy map: Dictionary of masking functions (functional approach) */
   private readonly strategyMap: Map<MaskingStrategy, (value: string, rule: MaskingRule) => string>;
+  /** @private Value detectors (empty unless enabled) */
+  private detectors: ValueDetector[] = [];
+  /** @private Pseudonymizer for PSEUDONYMIZE rules (undefined when no key is configured) */
+  private pseudonymizer?: Pseudonymizer;
+  /** @private Encryptor for ENCRYPT rules (undefined when no key provider is configured) */
+  private encryptor?: FieldEncryptor;
+  /** @private Applied presets ('name@version') */
+  private presets: string[] = [];
 
   constructor(options?: MaskingEngineOptions) {
     // Functional approach: Nullish coalescing for defaults
     this.maskChar = options?.maskChar ?? '*';
     this.preserveLength = options?.preserveLength ?? true; // Default to true for security
 
+    // Guard clause: Key from options, else from the environment (before rules need it)
+    const pseudonymKey = options?.pseudonymKey ?? loadPseudonymKey();
+    if (pseudonymKey) {
+      this.pseudonymizer = new Pseudonymizer(pseudonymKey);
+    }
+    if (options?.encryptionKeyProvider) {
+      this.encryptor = new FieldEncryptor(options.encryptionKeyProvider);
+    }
+
     // Initialize strategy map (functional approach: dictionary instead of switch)
     this.strategyMap = this.initializeStrategyMap();
 
+    // Presets first: their field names are more specific than the defaults ('passport' vs 'pass')
+    const presets = (options?.presets ?? []).map((spec) => resolveMaskingPreset(spec));
+    for (const preset of presets) {
+      for (const rule of preset.rules()) {
+        this.addRule(rule);
+      }
+    }
+
     // Guard clause: Add default rules if enabled
     if (options?.enableDefaultRules !== false) {
       this.addDefaultRules();
@@ -182,6 +280,35 @@ export class MaskingEngine {
     options?.rules?.forEach((rule) => {
       this.addRule(rule);
     });
+
+    // Guard clause: Value detectors are opt-in
+    if (options?.valueDetectors) {
+      const detectors =
+        options.valueDetectors === true
+          ? Object.values(VALUE_DETECTORS)
+          : options.valueDetectors.map((detector) =>
+              typeof detector === 'string' ? VALUE_DETECTORS[detector] : detector
+            );
+      for (const detector of detectors) {
+        this.addValueDetector(detector);
+      }
+    }
+
+    for (const preset of presets) {
+      this.addPresetDetectors(preset);
+    }
+  }
+
+  /**
+   * Adds the detectors of a preset, skipping those already enabled.
+   * @private
+   */
+  private addPresetDetectors(preset: MaskingPreset): void {
+    const enabled = new Set(this.detectors.map((detector) => detector.name));
+    for (const detector of preset.detectors.filter(({ name }) => !enabled.has(name))) {
+      this.addValueDetector(detector);
+    }
+    this.presets.push(`${preset.name}@${preset.version}`);
   }
 
   /**
@@ -261,6 +388,23 @@ export class MaskingEngine {
       );
     }
 
+    // Guard clause: Pseudonyms need a key, and a bad format fails now rather than per log
+    if (rule.strategy === MaskingStrategy.PSEUDONYMIZE) {
+      if (!this.pseudonymizer) {
+        throw new Error(
+          '[MaskingEngine] PSEUDONYMIZE rules need a key: set the pseudonymKey option or the LOG_PSEUDONYM_KEY environment variable'
+        );
+      }
+      Pseudonymizer.validateOptions(rule.pseudonymize);
+    }
+
+    // Guard clause: Encryption needs a key provider
+    if (rule.strategy === MaskingStrategy.ENCRYPT && !this.encryptor) {
+      throw new Error(
+        '[MaskingEngine] ENCRYPT rules need a key provider: set the encryptionKeyProvider option'
+      );
+    }
+
     // Functional approach: Compile regex pattern (guard clause pattern)
     rule._compiledPattern =
       typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'i') : rule.pattern;
@@ -272,6 +416,32 @@ export class MaskingEngine {
     this.rules.push(rule);
   }
 
+  /**
+   * Adds a value detector.
+   * Like rules, detectors can only be added, and their pattern must pass the ReDoS check.
+   * @param detector - The detector to add
+   */
+  public addValueDetector(detector: ValueDetector): void {
+    // Guard clause: Unknown built-in name (from plain configuration)
+    if (!detector?.pattern || typeof detector.mask !== 'function') {
+      throw new Error(
+        `[MaskingEngine] Invalid value detector. Built-in detectors: ${Object.keys(VALUE_DETECTORS).join(', ')}`
+      );
+    }
+
+    if (!isSafeRegex(detector.pattern)) {
+      throw new Error(
+        `[MaskingEngine] Unsafe value detector pattern in "${detector.name}": "${detector.pattern.source}". This pattern could cause ReDoS (Regular Expression Denial of Service) attacks.`
+      );
+    }
+
+    // Replacing every occurrence needs a global pattern
+    const pattern = detector.pattern.global
+      ? detector.pattern
+      : new RegExp(detector.pattern.source, `${detector.pattern.flags}g`);
+    this.detectors.push({ ...detector, pattern });
+  }
+
   /**
    * Processes a metadata object and applies the configured masking rules.
    * @param meta - The metadata object to process
@@ -297,6 +467,50 @@ export class MaskingEngine {
     }
   }
 
+  /**
+   * Applies the value detectors to free text, such as a formatted log message.
+   * Key rules need a field name, so only detectors apply here.
+   * @param text - The text to scan
+   * @returns The text with detected values masked
+   */
+  public processText(text: string): string {
+    try {
+      return this.maskDetectedValues(text);
+    } catch (_error) {
+      // Silent observer - return original text if masking fails
+      return text;
+    }
+  }
+
+  /**
+   * Masks a format argument before it is interpolated into a message.
+   * Strings, numbers and bigints are replaced entirely (fixed length, so the size of a secret
+   * does not leak); plain objects and arrays go through the masking rules.
+   * @param arg - The format argument
+   * @returns The masked argument
+   */
+  public maskFormatArg(arg: unknown): unknown {
+    // Guard clause: Scalar - nothing tells its meaning, so mask it whole
+    if (typeof arg === 'string' || typeof arg === 'number' || typeof arg === 'bigint') {
+      return this.maskChar.repeat(FORMAT_ARG_MASK_LENGTH);
+    }
+
+    const isPlainData =
+      Array.isArray(arg) || (typeof arg === 'object' && arg !== null && arg.constructor === Object);
+
+    // Guard clause: Booleans, null, Errors and class instances are kept as-is
+    if (!isPlainData) {
+      return arg;
+    }
+
+    try {
+      return this.applyMaskingRules(arg);
+    } catch (_error) {
+      // Silent observer - never interpolate the unmasked value
+      return this.maskChar.repeat(FORMAT_ARG_MASK_LENGTH);
+    }
+  }
+
   /**
    * Applies masking rules to data recursively.
    * Uses functional programming and guard clauses for better maintainability.
@@ -305,6 +519,11 @@ export class MaskingEngine {
    * @private
    */
   private applyMaskingRules(data: unknown): unknown {
+    // Guard clause: String array item - only value detectors apply
+    if (typeof data === 'string') {
+      return this.maskDetectedValues(data);
+    }
+
     // Guard clause: Primitive or null - return as-is
     if (data === null || typeof data !== 'object') {
       return data;
@@ -329,7 +548,9 @@ export class MaskingEngine {
         // Guard clause: String value - apply masking rules
         if (typeof value === 'string') {
           const matchingRule = this.findMatchingRule(key);
-          masked[key] = matchingRule ? this.applyStrategy(value, matchingRule) : value;
+          masked[key] = matchingRule
+            ? this.applyStrategy(value, matchingRule)
+            : this.maskDetectedValues(value);
           return masked;
         }
 
@@ -345,6 +566,26 @@ export class MaskingEngine {
       }, {});
   }
 
+  /**
+   * Replace the substrings found by value detectors.
+   * Single Responsibility: Only applies value detectors.
+   * @param value - String value to scan
+   * @returns Value with detected substrings masked
+   * @private
+   */
+  private maskDetectedValues(value: string): string {
+    // Guard clause: No detectors enabled (fast path)
+    if (this.detectors.length === 0) {
+      return value;
+    }
+
+    return this.detectors.reduce(
+      (current, detector) =>
+        current.replace(detector.pattern, (match) => detector.mask(match, this.maskChar) ?? match),
+      value
+    );
+  }
+
   /**
    * Find first matching masking rule for a key.
    * Single Responsibility: Only finds matching rules.
@@ -377,6 +618,13 @@ export class MaskingEngine {
     strategies.set(MaskingStrategy.PHONE, (value, rule) => this.maskPhone(value, rule));
     strategies.set(MaskingStrategy.PASSWORD, (value, rule) => this.maskPassword(value, rule));
     strategies.set(MaskingStrategy.TOKEN, (value, rule) => this.maskToken(value, rule));
+    strategies.set(MaskingStrategy.PSEUDONYMIZE, (value, rule) => this.pseudonymize(value, rule));
+    strategies.set(MaskingStrategy.ENCRYPT, (value, rule) => this.encrypt(value, rule));
+    for (const [strategy, name] of IDENTIFIER_STRATEGIES) {
+      strategies.set(strategy, (value, rule) =>
+        this.maskIdentifier(IDENTIFIERS[name], value, rule)
+      );
+    }
 
     return strategies;
   }
@@ -596,6 +844,73 @@ export class MaskingEngine {
     return maskChar.repeat(Math.min(value.length, 8));
   }
 
+  /**
+   * Pseudonymization strategy.
+   * Replaces the value with a keyed digest; addRule guarantees the key exists.
+   *
+   * @param value - Value to pseudonymize
+   * @param rule - Masking rule
+   * @returns `[prefix:]keyId:hexDigest`
+   * @private
+   */
+  private pseudonymize(value: string, rule: MaskingRule): string {
+    // Guard clause: No key - never fall back to the clear value
+    if (!this.pseudonymizer) {
+      return this.maskDefault(value, rule);
+    }
+    return this.pseudonymizer.pseudonymize(value, rule.pseudonymize);
+  }
+
+  /**
+   * Format-aware identifier strategy.
+   * Functional approach: Validation and masking come from the identifier definition.
+   *
+   * @param format - Identifier definition
+   * @param value - Value to mask
+   * @param rule - Masking rule
+   * @returns Masked value (fully masked when the value is not a valid identifier)
+   * @private
+   */
+  private maskIdentifier(format: IdentifierFormat, value: string, rule: MaskingRule): string {
+    // Guard clause: Malformed or failed checksum - mask it whole
+    if (!format.isValid(value)) {
+      return this.maskDefault(value, rule);
+    }
+    return format.mask(value, rule.maskChar ?? this.maskChar);
+  }
+
+  /**
+   * Encryption strategy.
+   * Fails closed: when the provider cannot supply a key, the value is masked instead.
+   *
+   * @param value - Value to encrypt
+   * @param rule - Masking rule
+   * @returns `enc:v1:<keyId>:<payload>`, or the masked value on failure
+   * @private
+   */
+  private encrypt(value: string, rule: MaskingRule): string {
+    try {
+      // Guard clause: No provider - never fall back to the clear value
+      if (!this.encryptor) {
+        return this.maskDefault(value, rule);
+      }
+      return this.encryptor.encrypt(value);
+    } catch (error) {
+      // Silent observer - the entry is still written, with the field masked
+      console.error('[MaskingEngine Error] Field encryption failed:', error);
+      return this.maskDefault(value, rule);
+    }
+  }
+
+  /**
+   * Rotates the pseudonymization key.
+   * Later pseudonyms carry the new key id; earlier ones stay joinable within their epoch.
+   * @param key - The new key
+   */
+  public rotatePseudonymKey(key: PseudonymKey): void {
+    this.pseudonymizer = new Pseudonymizer(key);
+  }
+
   /**
    * Gets masking engine statistics.
    * @returns Dictionary with masking statistics
@@ -616,6 +931,9 @@ export class MaskingEngine {
       ).length,
       customRules: this.rules.filter((r) => r.strategy === MaskingStrategy.CUSTOM).length,
       strategies: this.rules.map((r) => r.strategy),
+      valueDetectors: this.detectors.map((detector) => detector.name),
+      pseudonymKeyId: this.pseudonymizer?.keyId,
+      presets: [...this.presets],
     };
   }
 
@@ -632,6 +950,8 @@ export class MaskingEngine {
    */
   public shutdown(): void {
     this.rules = [];
+    this.detectors = [];
+    this.presets = [];
     this.initialized = false;
   }
 }
@@ -0,0 +1,188 @@
+/**
+ * FILE: src/masking/Presets.ts
+ * DESCRIPTION: Named, versioned masking rule packs (PCI-DSS, HIPAA, GDPR, LATAM).
+ *
+ * A preset bundles key rules (field names -> format-aware strategies) and value detectors
+ * (identifiers found in free text). Versions are immutable: a pack that must change gets a new
+ * version, and `'gdpr@1'` keeps selecting the old behaviour.
+ */
+
+import { identifierDetector } from './Identifiers';
+import { type MaskingRule, MaskingStrategy } from './MaskingEngine';
+import { VALUE_DETECTORS, type ValueDetector } from './ValueDetectors';
+
+/**
+ * @interface MaskingPreset
+ * @description A versioned rule pack.
+ */
+export interface MaskingPreset {
+  name: string;
+  version: number;
+  description: string;
+  /** Fresh key rules (MaskingEngine.addRule mutates the rules it receives) */
+  rules(): MaskingRule[];
+  /** Value detectors for identifiers in free text */
+  detectors: ValueDetector[];
+}
+
+/**
+ * Field-name pattern for snake_case, kebab-case, camelCase and UPPER_CASE keys.
+ * A name matches as a whole word: `clientIp` and `client_ip` match `ip`, `zip` does not.
+ * @private
+ */
+function fieldPattern(...names: string[]): RegExp {
+  const variants = names.flatMap((name) => {
+    const snake = name.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+    return [name, snake, snake.toUpperCase(), name.charAt(0).toUpperCase() + name.slice(1)];
+  });
+  const humps = variants.filter((variant) => /^[A-Z]/.test(variant));
+  return new RegExp(
+    `(?:^|[^A-Za-z])(?:${[...new Set(variants)].join('|')})(?![a-z])|[a-z0-9](?:${[...new Set(humps)].join('|')})(?![a-z])`
+  );
+}
+
+/**
+ * @private
+ */
+function rule(strategy: MaskingStrategy, ...names: string[]): MaskingRule {
+  return { pattern: fieldPattern(...names), strategy };
+}
+
+const pci: MaskingPreset = {
+  name: 'pci',
+  version: 1,
+  description: 'PCI-DSS: card numbers (last 4 kept), card verification codes, PINs and track data',
+  rules: () => [
+    {
+      ...rule(
+        MaskingStrategy.CREDIT_CARD,
+        'pan',
+        'cardNumber',
+        'creditCard',
+        'ccNumber',
+        'primaryAccountNumber'
+      ),
+      preserveLength: false,
+    },
+    rule(
+      MaskingStrategy.PASSWORD,
+      'cvv',
+      'cvv2',
+      'cvc',
+      'cvc2',
+      'securityCode',
+      'pin',
+      'pinBlock',
+      'track1',
+      'track2',
+      'trackData'
+    ),
+  ],
+  detectors: [VALUE_DETECTORS.creditCard],
+};
+
+const hipaa: MaskingPreset = {
+  name: 'hipaa',
+  version: 1,
+  description: 'HIPAA: SSNs, dates of birth, passports, record and plan ids, IPs and contact data',
+  rules: () => [
+    rule(MaskingStrategy.SSN, 'ssn', 'socialSecurityNumber'),
+    rule(MaskingStrategy.DATE_OF_BIRTH, 'dob', 'dateOfBirth', 'birthDate', 'birthday'),
+    rule(MaskingStrategy.US_PASSPORT, 'passport', 'passportNumber', 'passportNo'),
+    rule(
+      MaskingStrategy.PASSWORD,
+      'mrn',
+      'medicalRecordNumber',
+      'healthPlanId',
+      'beneficiaryId',
+      'memberId'
+    ),
+    rule(MaskingStrategy.IP_ADDRESS, 'ip', 'ipAddress', 'remoteAddress'),
+    rule(MaskingStrategy.EMAIL, 'email'),
+    rule(MaskingStrategy.PHONE, 'phone', 'fax'),
+  ],
+  detectors: [VALUE_DETECTORS.email],
+};
+
+const gdpr: MaskingPreset = {
+  name: 'gdpr',
+  version: 1,
+  description: 'GDPR: contact data, IPs, dates of birth, IBANs, Spanish DNI/NIE and UK NINO',
+  rules: () => [
+    rule(MaskingStrategy.ES_DNI, 'dni', 'nie', 'nif'),
+    rule(MaskingStrategy.UK_NINO, 'nino', 'nationalInsuranceNumber'),
+    rule(MaskingStrategy.IBAN, 'iban'),
+    rule(MaskingStrategy.DATE_OF_BIRTH, 'dob', 'dateOfBirth', 'birthDate', 'birthday'),
+    rule(MaskingStrategy.IP_ADDRESS, 'ip', 'ipAddress', 'remoteAddress'),
+    rule(MaskingStrategy.EMAIL, 'email'),
+    rule(MaskingStrategy.PHONE, 'phone'),
+  ],
+  detectors: [
+    VALUE_DETECTORS.email,
+    VALUE_DETECTORS.iban,
+    identifierDetector('esDni'),
+    identifierDetector('ukNino'),
+    identifierDetector('ipAddress'),
+  ],
+};
+
+const latam: MaskingPreset = {
+  name: 'latam',
+  version: 1,
+  description: 'LATAM: Brazilian CPF/CNPJ and Argentine CUIL/CUIT',
+  rules: () => [
+    rule(MaskingStrategy.BR_CPF, 'cpf'),
+    rule(MaskingStrategy.BR_CNPJ, 'cnpj'),
+    rule(MaskingStrategy.AR_CUIL, 'cuil', 'cuit'),
+  ],
+  detectors: [
+    identifierDetector('brCpf'),
+    identifierDetector('brCnpj'),
+    identifierDetector('arCuil'),
+  ],
+};
+
+/**
+ * Built-in presets by name, oldest version first.
+ */
+export const MASKING_PRESETS = {
+  pci: [pci],
+  hipaa: [hipaa],
+  gdpr: [gdpr],
+  latam: [latam],
+} as const satisfies Record<string, readonly MaskingPreset[]>;
+
+export type MaskingPresetName = keyof typeof MASKING_PRESETS;
+
+/** A preset by name (latest version) or pinned to a version: 'gdpr' or 'gdpr@1' */
+export type MaskingPresetSpec = MaskingPresetName | `${MaskingPresetName}@${number}`;
+
+/**
+ * Find a preset by name and optional version.
+ * @param spec - 'name' (latest version) or 'name@version'
+ * @returns The preset
+ */
+export function resolveMaskingPreset(spec: string): MaskingPreset {
+  const [name, version] = String(spec).split('@');
+  const versions: readonly MaskingPreset[] | undefined = Object.hasOwn(MASKING_PRESETS, name)
+    ? MASKING_PRESETS[name as MaskingPresetName]
+    : undefined;
+
+  // Guard clause: Unknown pack
+  if (!versions) {
+    throw new Error(
+      `[MaskingPresets] Unknown preset "${spec}" (available: ${Object.keys(MASKING_PRESETS).join(', ')})`
+    );
+  }
+
+  const preset =
+    version === undefined
+      ? versions[versions.length - 1]
+      : versions.find((candidate) => String(candidate.version) === version);
+  if (!preset) {
+    throw new Error(
+      `[MaskingPresets] Unknown version "${spec}" (available: ${versions.map((candidate) => `${name}@${candidate.version}`).join(', ')})`
+    );
+  }
+  return preset;
+}
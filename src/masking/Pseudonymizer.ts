@@ -0,0 +1,120 @@
+/**
+ * FILE: src/masking/Pseudonymizer.ts
+ * DESCRIPTION: Keyed, deterministic pseudonyms (HMAC-SHA256) for the PSEUDONYMIZE strategy.
+ *
+ * The same input always maps to the same pseudonym under one key, so masked fields can still
+ * be counted and joined. The key id is part of the output: after a rotation, pseudonyms from
+ * different key epochs never collide and analysts can tell them apart.
+ */
+
+import { type KeyObject, createHmac, createSecretKey } from 'node:crypto';
+
+/**
+ * @interface PseudonymKey
+ * @description Secret used to pseudonymize values, with the id embedded in every pseudonym.
+ */
+export interface PseudonymKey {
+  /** Key id (letters, digits, '_' or '-', at most 32 characters) */
+  id: string;
+  /** HMAC secret (at least 16 bytes) */
+  secret: string | Uint8Array;
+}
+
+/**
+ * @interface PseudonymizeOptions
+ * @description Output format of a PSEUDONYMIZE rule.
+ */
+export interface PseudonymizeOptions {
+  /** Label before the key id, e.g. 'user' gives 'user:k1:...' (default: none) */
+  prefix?: string;
+  /** Hex characters of the digest kept, 8-64 (default: 16) */
+  length?: number;
+}
+
+/** Environment variables read when no key is configured */
+export const PSEUDONYM_KEY_ENV = {
+  secret: 'LOG_PSEUDONYM_KEY',
+  id: 'LOG_PSEUDONYM_KEY_ID',
+} as const;
+
+/** Key id used when LOG_PSEUDONYM_KEY_ID is not set */
+const DEFAULT_KEY_ID = 'k1';
+const KEY_ID_PATTERN = /^[\w-]{1,32}$/;
+const MIN_SECRET_BYTES = 16;
+const DIGEST_LENGTH = { min: 8, max: 64, default: 16 };
+
+/**
+ * Read the pseudonymization key from the environment.
+ * @param env - Environment variables (default: process.env)
+ * @returns The key, or undefined when LOG_PSEUDONYM_KEY is not set
+ */
+export function loadPseudonymKey(
+  env: Record<string, string | undefined> = process.env
+): PseudonymKey | undefined {
+  const secret = env[PSEUDONYM_KEY_ENV.secret];
+  // Guard clause: No secret configured
+  if (!secret) {
+    return undefined;
+  }
+  return { id: env[PSEUDONYM_KEY_ENV.id] || DEFAULT_KEY_ID, secret };
+}
+
+/**
+ * @class Pseudonymizer
+ * Computes `[prefix:]keyId:hexDigest` pseudonyms with a validated key.
+ * The secret is kept as a KeyObject, so it never shows up when the engine is inspected or logged.
+ */
+export class Pseudonymizer {
+  public readonly keyId: string;
+  private readonly key: KeyObject;
+
+  constructor(key: PseudonymKey) {
+    // Guard clause: The id is embedded in the output, so it must stay parseable
+    if (!KEY_ID_PATTERN.test(key.id ?? '')) {
+      throw new Error(
+        `[Pseudonymizer] Invalid key id "${key.id}": use 1-32 letters, digits, '_' or '-'`
+      );
+    }
+
+    const secret = typeof key.secret === 'string' ? Buffer.from(key.secret, 'utf8') : key.secret;
+    if (!secret || secret.length < MIN_SECRET_BYTES) {
+      throw new Error(
+        `[Pseudonymizer] Secret for key "${key.id}" must be at least ${MIN_SECRET_BYTES} bytes`
+      );
+    }
+
+    this.keyId = key.id;
+    this.key = createSecretKey(secret);
+  }
+
+  /**
+   * Validate pseudonym options up front, so a bad rule fails when it is added.
+   * @param options - Options to check
+   */
+  static validateOptions(options: PseudonymizeOptions | undefined): void {
+    const length = options?.length ?? DIGEST_LENGTH.default;
+    if (!Number.isInteger(length) || length < DIGEST_LENGTH.min || length > DIGEST_LENGTH.max) {
+      throw new Error(
+        `[Pseudonymizer] length must be an integer from ${DIGEST_LENGTH.min} to ${DIGEST_LENGTH.max}`
+      );
+    }
+    if (options?.prefix !== undefined && typeof options.prefix !== 'string') {
+      throw new Error('[Pseudonymizer] prefix must be a string');
+    }
+  }
+
+  /**
+   * Pseudonymize a value.
+   * @param value - Value to replace
+   * @param options - Prefix and digest length
+   * @returns `[prefix:]keyId:hexDigest`
+   */
+  pseudonymize(value: string, options?: PseudonymizeOptions): string {
+    const digest = createHmac('sha256', this.key)
+      .update(value, 'utf8')
+      .digest('hex')
+      .slice(0, options?.length ?? DIGEST_LENGTH.default);
+    const pseudonym = `${this.keyId}:${digest}`;
+    return options?.prefix ? `${options.prefix}:${pseudonym}` : pseudonym;
+  }
+}
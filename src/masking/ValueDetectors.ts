@@ -0,0 +1,294 @@
+/**
+ * FILE: src/masking/ValueDetectors.ts
+ * DESCRIPTION: Value-content detectors for MaskingEngine.
+ *
+ * Key rules only see field names, so secrets inside free text (`note`, `header`, `message`)
+ * go out in clear. Detectors scan string values and replace only the matched substring.
+ *
+ * NOTE: Patterns are kept flat (no nested quantifiers, bounded repetitions) so they pass the
+ * same ReDoS check as rule patterns; checksums and structure are verified in `mask`, not in
+ * the regex.
+ */
+
+/**
+ * @interface ValueDetector
+ * @description Finds and masks one kind of sensitive value inside strings.
+ */
+export interface ValueDetector {
+  /** Detector name (used in statistics and errors) */
+  name: string;
+  /** Finds candidates (the 'g' flag is added when missing) */
+  pattern: RegExp;
+  /**
+   * Replacement for a candidate, or undefined to leave it untouched
+   * (e.g. when a checksum does not match).
+   */
+  mask(match: string, maskChar: string): string | undefined;
+}
+
+/** Card numbers: 13-19 digits, single spaces or dashes between groups */
+const CARD_LENGTH = { min: 13, max: 19 };
+/** IBAN: 15-34 characters (compact form) */
+const IBAN_LENGTH = { min: 15, max: 34 };
+/** Issuer prefixes of the major card networks (Visa, Mastercard, Amex, Discover, JCB...) */
+const CARD_FIRST_DIGITS = new Set(['2', '3', '4', '5', '6']);
+/** Characters of a token replacement */
+const TOKEN_MASK_LENGTH = 8;
+
+/**
+ * Luhn-checked card numbers, even when written in groups ("4111 1111 1111 1111").
+ * The last 4 digits and the separators are kept.
+ */
+const creditCard: ValueDetector = {
+  name: 'creditCard',
+  pattern: /\b\d[\d -]{11,40}\d\b/g,
+  mask: (match, maskChar) => maskDigitRuns(match, maskChar),
+};
+
+/**
+ * JSON Web Tokens (header checked to decode to a JOSE header). The header is kept.
+ */
+const jwt: ValueDetector = {
+  name: 'jwt',
+  pattern: /\beyJ[\w-]{10,4096}\.[\w-]{2,16384}\.[\w-]{0,4096}/g,
+  mask: (match, maskChar) => {
+    const header = match.slice(0, match.indexOf('.'));
+    return isJoseHeader(header) ? `${header}.${maskChar.repeat(TOKEN_MASK_LENGTH)}` : undefined;
+  },
+};
+
+/**
+ * AWS access key IDs (long-term AKIA and temporary ASIA keys). The prefix is kept.
+ */
+const awsKey: ValueDetector = {
+  name: 'awsKey',
+  pattern: /\b(?:AKIA|ASIA)[A-Z2-7]{16}\b/g,
+  mask: (match, maskChar) => maskAfter(match, 4, maskChar),
+};
+
+/**
+ * Google Cloud API keys (AIza...) and OAuth access tokens (ya29.). The prefix is kept.
+ */
+const gcpKey: ValueDetector = {
+  name: 'gcpKey',
+  pattern: /\b(?:AIza[\w-]{35}|ya29\.[\w-]{20,2048})/g,
+  mask: (match, maskChar) => maskAfter(match, match.startsWith('ya29.') ? 5 : 4, maskChar),
+};
+
+/**
+ * GitHub tokens (ghp_, gho_, ghu_, ghs_, ghr_ and fine-grained github_pat_). The prefix is kept.
+ */
+const githubToken: ValueDetector = {
+  name: 'githubToken',
+  pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,251}|github_pat_\w{22,251})\b/g,
+  mask: (match, maskChar) => maskAfter(match, match.startsWith('github_pat_') ? 11 : 4, maskChar),
+};
+
+/**
+ * IBANs with a valid mod-97 checksum, compact or in groups of 4.
+ * The country code, check digits and last 4 characters are kept.
+ */
+const iban: ValueDetector = {
+  name: 'iban',
+  pattern: /\b[A-Z]{2}\d{2}[ A-Z0-9]{11,41}/g,
+  mask: (match, maskChar) => maskIban(match, maskChar),
+};
+
+/**
+ * Email addresses in free text. The first character and the domain are kept.
+ */
+const email: ValueDetector = {
+  name: 'email',
+  pattern: /[\w.+-]{1,64}@[A-Za-z0-9-]{1,63}\.[A-Za-z0-9.-]{2,252}/g,
+  mask: (match, maskChar) => {
+    // Guard clause: A sentence-ending dot is not part of the address
+    const address = match.replace(/\.+$/, '');
+    const at = address.indexOf('@');
+    const tld = address.slice(address.lastIndexOf('.') + 1);
+    if (!/^[A-Za-z]{2,63}$/.test(tld)) {
+      return undefined;
+    }
+    return `${address.charAt(0)}${maskChar.repeat(3)}${address.slice(at)}${match.slice(address.length)}`;
+  },
+};
+
+/**
+ * Built-in detectors by name (enable with `valueDetectors: true` or a list of names).
+ */
+export const VALUE_DETECTORS = {
+  creditCard,
+  jwt,
+  awsKey,
+  gcpKey,
+  githubToken,
+  iban,
+  email,
+} as const satisfies Record<string, ValueDetector>;
+
+export type ValueDetectorName = keyof typeof VALUE_DETECTORS;
+
+/**
+ * Mask the Luhn-valid card numbers inside a run of digit groups.
+ * A run can hold several numbers or extra digits ("4111 1111 1111 1111 2025"), so each
+ * start group is tried with the longest valid sequence of groups.
+ * @private
+ */
+function maskDigitRuns(match: string, maskChar: string): string | undefined {
+  const groups = [...match.matchAll(/\d+/g)].map((group) => ({
+    start: group.index ?? 0,
+    end: (group.index ?? 0) + group[0].length,
+  }));
+  const masked = [...match];
+  let found = false;
+
+  for (let first = 0; first < groups.length; ) {
+    const last = findCardEnd(match, groups, first);
+    // Guard clause: No card number starts at this group
+    if (last === -1) {
+      first++;
+      continue;
+    }
+
+    const start = groups[first].start;
+    const end = groups[last].end;
+    const digitCount = match.slice(start, end).replace(/\D/g, '').length;
+    let seen = 0;
+    for (let i = start; i < end; i++) {
+      if (match[i] >= '0' && match[i] <= '9' && seen++ < digitCount - 4) {
+        masked[i] = maskChar;
+      }
+    }
+    found = true;
+    first = last + 1;
+  }
+
+  return found ? masked.join('') : undefined;
+}
+
+/**
+ * Index of the last group of the longest card number starting at `first` (-1 when none).
+ * @private
+ */
+function findCardEnd(
+  match: string,
+  groups: { start: number; end: number }[],
+  first: number
+): number {
+  let digits = '';
+  let best = -1;
+
+  for (let i = first; i < groups.length; i++) {
+    // Guard clause: Groups must be separated by exactly one space or dash
+    if (i > first && groups[i].start - groups[i - 1].end !== 1) {
+      break;
+    }
+    digits += match.slice(groups[i].start, groups[i].end);
+    if (digits.length > CARD_LENGTH.max) {
+      break;
+    }
+    if (
+      digits.length >= CARD_LENGTH.min &&
+      CARD_FIRST_DIGITS.has(digits[0]) &&
+      passesLuhn(digits)
+    ) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Luhn (mod 10) checksum.
+ * @private
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Mask the longest prefix of the candidate that is a valid IBAN.
+ * @private
+ */
+function maskIban(match: string, maskChar: string): string | undefined {
+  const groups = match.split(' ');
+  let compact = '';
+  let best: { length: number; compact: string } | undefined;
+  let length = 0;
+
+  for (const [index, group] of groups.entries()) {
+    // Guard clause: Double spaces end the IBAN
+    if (!group) {
+      break;
+    }
+    compact += group;
+    length += group.length + (index > 0 ? 1 : 0);
+    if (compact.length > IBAN_LENGTH.max) {
+      break;
+    }
+    if (compact.length >= IBAN_LENGTH.min && passesMod97(compact)) {
+      best = { length, compact };
+    }
+  }
+
+  // Guard clause: No valid IBAN
+  if (!best) {
+    return undefined;
+  }
+
+  const visibleEnd = best.compact.length - 4;
+  let seen = 0;
+  const masked = [...match.slice(0, best.length)].map((char) => {
+    if (char === ' ') {
+      return char;
+    }
+    seen++;
+    return seen > 4 && seen <= visibleEnd ? maskChar : char;
+  });
+  return masked.join('') + match.slice(best.length);
+}
+
+/**
+ * ISO 13616 mod-97 check (letters count as 10-35).
+ * Shared with the IBAN identifier.
+ */
+export function passesMod97(compact: string): boolean {
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = char >= 'A' ? char.charCodeAt(0) - 55 : char.charCodeAt(0) - 48;
+    remainder = (remainder * (value > 9 ? 100 : 10) + value) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Whether a base64url segment decodes to a JOSE header ({"alg": ...}).
+ * @private
+ */
+function isJoseHeader(segment: string): boolean {
+  try {
+    const header: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return typeof header === 'object' && header !== null && 'alg' in header;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keep a recognizable prefix and replace the rest with a fixed-length mask.
+ * @private
+ */
+function maskAfter(match: string, prefixLength: number, maskChar: string): string {
+  return match.slice(0, prefixLength) + maskChar.repeat(TOKEN_MASK_LENGTH);
+}
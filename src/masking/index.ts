@@ -1,3 +1,25 @@
 export { MaskingEngine } from './MaskingEngine';
 export type { MaskingEngineOptions, MaskingRule } from './MaskingEngine';
 export { MaskingStrategy } from './MaskingEngine';
+export { VALUE_DETECTORS } from './ValueDetectors';
+export type { ValueDetector, ValueDetectorName } from './ValueDetectors';
+export {
+  FieldEncryptor,
+  InMemoryKeyProvider,
+  decryptLogEntry,
+  decryptToken,
+  generateDataKey,
+  isEncryptedToken,
+} from './FieldEncryption';
+export type {
+  DataKey,
+  DecryptionKeyProvider,
+  DecryptLogEntryOptions,
+  EncryptionKeyProvider,
+} from './FieldEncryption';
+export { PSEUDONYM_KEY_ENV, loadPseudonymKey } from './Pseudonymizer';
+export type { PseudonymKey, PseudonymizeOptions } from './Pseudonymizer';
+export { IDENTIFIERS, identifierDetector } from './Identifiers';
+export type { IdentifierFormat, IdentifierName } from './Identifiers';
+export { MASKING_PRESETS, resolveMaskingPreset } from './Presets';
+export type { MaskingPreset, MaskingPresetName, MaskingPresetSpec } from './Presets';
@@ -0,0 +1,43 @@
+/**
+ * Request context middleware for Express and Connect
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { type RequestContextOptions, runInRequestContext } from './requestContext';
+
+/** Fields Express adds to the request (Connect has none of them) */
+export interface ExpressRequestLike extends IncomingMessage {
+  baseUrl?: string;
+  route?: { path?: unknown };
+}
+
+/**
+ * Express/Connect middleware: runs the rest of the chain in a request context.
+ * Register it before the routes so that they run inside the context.
+ *
+ * @example
+ * ```typescript
+ * app.use(expressRequestContext({ logger }));
+ * ```
+ */
+export function expressRequestContext(
+  options: RequestContextOptions
+): (req: ExpressRequestLike, res: ServerResponse, next: (err?: unknown) => void) => void {
+  return (req, res, next) =>
+    runInRequestContext(
+      req,
+      res,
+      options,
+      () => expressRoute(req),
+      () => next()
+    );
+}
+
+/**
+ * Matched route pattern (e.g. `/users/:id`), read when the response ends.
+ * @private
+ */
+function expressRoute(req: ExpressRequestLike): string | undefined {
+  const path = req.route?.path;
+  return typeof path === 'string' ? `${req.baseUrl ?? ''}${path}` : undefined;
+}
@@ -0,0 +1,65 @@
+/**
+ * Request context plugin for Fastify (hook-based)
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { type RequestContextOptions, runInRequestContext } from './requestContext';
+
+/** Fields of the Fastify request used by the plugin */
+export interface FastifyRequestLike {
+  raw: IncomingMessage;
+  /** Route pattern (Fastify >= 4.10) */
+  routeOptions?: { url?: string };
+  /** Route pattern (older Fastify versions) */
+  routerPath?: string;
+}
+
+/** Fields of the Fastify reply used by the plugin */
+export interface FastifyReplyLike {
+  raw: ServerResponse;
+}
+
+/** Fields of the Fastify instance used by the plugin */
+export interface FastifyInstanceLike {
+  addHook(
+    name: 'onRequest',
+    hook: (request: FastifyRequestLike, reply: FastifyReplyLike, done: () => void) => void
+  ): unknown;
+}
+
+export type FastifyRequestContextPlugin = ((
+  instance: FastifyInstanceLike,
+  opts: unknown,
+  done: () => void
+) => void) & { [key: symbol]: unknown };
+
+/**
+ * Fastify plugin: an `onRequest` hook continues the request lifecycle inside the
+ * request context (the same technique as @fastify/request-context).
+ * The plugin is not encapsulated, so it applies to every route.
+ *
+ * @example
+ * ```typescript
+ * await app.register(fastifyRequestContext({ logger }));
+ * ```
+ */
+export function fastifyRequestContext(options: RequestContextOptions): FastifyRequestContextPlugin {
+  const plugin = (instance: FastifyInstanceLike, _opts: unknown, done: () => void): void => {
+    instance.addHook('onRequest', (request, reply, hookDone) => {
+      runInRequestContext(
+        request.raw,
+        reply.raw,
+        options,
+        () => request.routeOptions?.url ?? request.routerPath,
+        () => hookDone()
+      );
+    });
+    done();
+  };
+
+  // Same flags as fastify-plugin: skip encapsulation so the hook is global
+  return Object.assign(plugin, {
+    [Symbol.for('skip-override')]: true,
+    [Symbol.for('fastify.display-name')]: 'syntrojs-request-context',
+  });
+}
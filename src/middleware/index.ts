@@ -0,0 +1,19 @@
+/**
+ * HTTP request context middleware exports
+ */
+
+export type {
+  RequestContextOptions,
+  AccessLogFields,
+  StatusClass,
+} from './requestContext';
+export { withRequestContext } from './node';
+export { expressRequestContext, type ExpressRequestLike } from './express';
+export {
+  fastifyRequestContext,
+  type FastifyRequestContextPlugin,
+  type FastifyInstanceLike,
+  type FastifyRequestLike,
+  type FastifyReplyLike,
+} from './fastify';
+export { koaRequestContext, type KoaContextLike } from './koa';
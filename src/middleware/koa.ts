@@ -0,0 +1,35 @@
+/**
+ * Request context middleware for Koa
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { type RequestContextOptions, runInRequestContext } from './requestContext';
+
+/** Fields of the Koa context used by the middleware */
+export interface KoaContextLike {
+  req: IncomingMessage;
+  res: ServerResponse;
+  /** Route pattern set by @koa/router */
+  _matchedRoute?: unknown;
+}
+
+/**
+ * Koa middleware: runs downstream middleware in a request context.
+ *
+ * @example
+ * ```typescript
+ * app.use(koaRequestContext({ logger }));
+ * ```
+ */
+export function koaRequestContext(
+  options: RequestContextOptions
+): (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<unknown> {
+  return (ctx, next) =>
+    runInRequestContext(
+      ctx.req,
+      ctx.res,
+      options,
+      () => (typeof ctx._matchedRoute === 'string' ? ctx._matchedRoute : undefined),
+      () => next()
+    );
+}
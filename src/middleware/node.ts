@@ -0,0 +1,37 @@
+/**
+ * Request context for plain `node:http` servers
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { type RequestContextOptions, runInRequestContext } from './requestContext';
+
+/**
+ * Wrap a `node:http` request listener so each request runs in its own AsyncContext
+ * with a correlation ID and an access-log line.
+ *
+ * @example
+ * ```typescript
+ * const server = http.createServer(
+ *   withRequestContext((req, res) => {
+ *     logger.info('handling'); // includes correlationId
+ *     res.end('ok');
+ *   }, { logger })
+ * );
+ * ```
+ */
+export function withRequestContext<
+  Req extends IncomingMessage = IncomingMessage,
+  Res extends ServerResponse = ServerResponse,
+>(
+  handler: (req: Req, res: Res) => unknown,
+  options: RequestContextOptions
+): (req: Req, res: Res) => unknown {
+  return (req, res) =>
+    runInRequestContext(
+      req,
+      res,
+      options,
+      () => undefined,
+      () => handler(req, res)
+    );
+}
@@ -0,0 +1,230 @@
+/**
+ * Request context core shared by the HTTP middlewares
+ *
+ * For each request: reads (or generates) the correlation ID, echoes it on the response,
+ * runs the rest of the request inside AsyncContext, and writes one access-log line when
+ * the response finishes (or the client goes away).
+ *
+ * NOTE: Works on `http.IncomingMessage` / `http.ServerResponse`, which every supported
+ * framework exposes, so no framework is a dependency.
+ */
+
+import { AsyncResource } from 'node:async_hooks';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { performance } from 'node:perf_hooks';
+import type { Logger } from '../Logger';
+import { AsyncContext } from '../context/Context';
+import { LOG_LEVEL_WEIGHTS, type LogLevel } from '../levels';
+
+/** HTTP status classes used to pick the access-log level */
+export type StatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+
+export interface RequestContextOptions {
+  /** Logger used for access-log lines */
+  logger: Logger;
+  /** Write one access-log line per request (default: true) */
+  accessLog?: boolean;
+  /** Access-log level per status class; 'silent' skips the line (default: 4xx warn, 5xx error, else info) */
+  statusLevels?: Partial<Record<StatusClass, LogLevel>>;
+  /** Requests for which no access-log line is written (e.g. health checks) */
+  ignore?: (req: IncomingMessage) => boolean;
+  /**
+   * Per-request log level override (e.g. from a signed debug header or a sampling decision).
+   * Return undefined to keep the loggers' own levels; unknown levels are ignored.
+   */
+  logLevel?: (req: IncomingMessage) => LogLevel | undefined;
+}
+
+/** Fields of an access-log line */
+export interface AccessLogFields {
+  method: string;
+  /** Matched route pattern when the framework exposes it, else the request path */
+  route: string;
+  statusCode: number;
+  durationMs: number;
+  /** Response body bytes written by the application */
+  bytes: number;
+  remoteAddress?: string;
+  /** Present when the client closed the connection before the response finished */
+  aborted?: true;
+}
+
+/** Status class → access-log level (dictionary instead of a switch) */
+const DEFAULT_STATUS_LEVELS: Record<StatusClass, LogLevel> = {
+  '1xx': 'info',
+  '2xx': 'info',
+  '3xx': 'info',
+  '4xx': 'warn',
+  '5xx': 'error',
+};
+
+/** Incoming ids are echoed and logged: accept only short, header-safe values */
+const CORRELATION_ID_REGEX = /^[\w\-.:@/+=]{1,128}$/;
+
+const ACCESS_LOG_MESSAGE = 'request completed';
+const ABORTED_LOG_MESSAGE = 'request aborted';
+
+/**
+ * Run `fn` in a request context: the correlation ID is read from the header named by
+ * `AsyncContextConfig.correlationIdKey` (or generated), set on the response, and the
+ * access-log line is scheduled for when the response ends.
+ *
+ * @param getRoute - Returns the matched route pattern, read when the response ends
+ * @internal Used by the framework middlewares
+ */
+export function runInRequestContext<R>(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: RequestContextOptions,
+  getRoute: () => string | undefined,
+  fn: () => R
+): R {
+  const key = AsyncContext.getCorrelationIdKey();
+  const incoming = readCorrelationId(req, key);
+  const startTime = performance.now();
+  const logLevel = readLogLevel(req, options);
+
+  return AsyncContext.run(
+    () => {
+      if (logLevel) {
+        AsyncContext.setLogLevel(logLevel);
+      }
+      const correlationId = AsyncContext.getCorrelationId();
+
+      // Echo the id so callers can report it (skipped when generation is disabled)
+      if (correlationId && !res.headersSent) {
+        res.setHeader(key, correlationId);
+      }
+
+      if (options.accessLog !== false && !options.ignore?.(req)) {
+        trackResponse(req, res, options, getRoute, startTime);
+      }
+      return fn();
+    },
+    incoming ? { [key]: incoming } : undefined
+  );
+}
+
+/**
+ * Read the per-request level override, ignoring unknown levels (Silent Observer:
+ * a bad value from the callback must never fail the request).
+ * @private
+ */
+function readLogLevel(req: IncomingMessage, options: RequestContextOptions): LogLevel | undefined {
+  const level: unknown = options.logLevel?.(req);
+  return typeof level === 'string' && Object.prototype.hasOwnProperty.call(LOG_LEVEL_WEIGHTS, level)
+    ? (level as LogLevel)
+    : undefined;
+}
+
+/**
+ * Read a valid correlation ID from the request headers (Single Responsibility).
+ * @private
+ */
+function readCorrelationId(req: IncomingMessage, key: string): string | undefined {
+  const header = req.headers[key.toLowerCase()];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && CORRELATION_ID_REGEX.test(value) ? value : undefined;
+}
+
+/**
+ * Count body bytes and write the access-log line once the response ends.
+ * The listener is bound to the request context so the line carries its fields.
+ * @private
+ */
+function trackResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: RequestContextOptions,
+  getRoute: () => string | undefined,
+  startTime: number
+): void {
+  const counter = countBodyBytes(res);
+  let logged = false;
+
+  const onDone = AsyncResource.bind((): void => {
+    // Guard clause: 'finish' and 'close' both fire for completed responses
+    if (logged) {
+      return;
+    }
+    logged = true;
+
+    const aborted = !res.writableFinished;
+    const fields: AccessLogFields = {
+      method: req.method ?? 'GET',
+      route: getRoute() ?? requestPath(req),
+      statusCode: res.statusCode,
+      durationMs: Math.round((performance.now() - startTime) * 1000) / 1000,
+      bytes: counter.bytes,
+      ...(req.socket?.remoteAddress ? { remoteAddress: req.socket.remoteAddress } : {}),
+      ...(aborted ? { aborted: true as const } : {}),
+    };
+    writeAccessLog(options, fields);
+  });
+
+  res.once('finish', onDone);
+  res.once('close', onDone);
+}
+
+/**
+ * Pick the level for the status class and write the line (Single Responsibility).
+ * @private
+ */
+function writeAccessLog(options: RequestContextOptions, fields: AccessLogFields): void {
+  const statusClass = `${Math.floor(fields.statusCode / 100)}xx` as StatusClass;
+  const level = fields.aborted
+    ? 'warn'
+    : (options.statusLevels?.[statusClass] ?? DEFAULT_STATUS_LEVELS[statusClass] ?? 'info');
+
+  // Guard clause: Level disabled for this status class
+  if (level === 'silent') {
+    return;
+  }
+
+  options.logger[level]({ ...fields }, fields.aborted ? ABORTED_LOG_MESSAGE : ACCESS_LOG_MESSAGE);
+}
+
+/**
+ * Wrap `write`/`end` to count the body bytes written by the application.
+ * @private
+ */
+function countBodyBytes(res: ServerResponse): { bytes: number } {
+  const counter = { bytes: 0 };
+  const write = res.write;
+  const end = res.end;
+
+  const add = (chunk: unknown, encoding: unknown): void => {
+    if (typeof chunk === 'string') {
+      counter.bytes += Buffer.byteLength(
+        chunk,
+        typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8'
+      );
+    } else if (chunk instanceof Uint8Array) {
+      counter.bytes += chunk.byteLength;
+    }
+  };
+
+  res.write = function (this: ServerResponse, chunk: unknown, ...rest: unknown[]) {
+    add(chunk, rest[0]);
+    return Reflect.apply(write, this, [chunk, ...rest]);
+  } as ServerResponse['write'];
+
+  res.end = function (this: ServerResponse, chunk?: unknown, ...rest: unknown[]) {
+    if (typeof chunk !== 'function') {
+      add(chunk, rest[0]);
+    }
+    return Reflect.apply(end, this, [chunk, ...rest]);
+  } as ServerResponse['end'];
+
+  return counter;
+}
+
+/**
+ * Request path without the query string (the route when none was matched).
+ * @private
+ */
+function requestPath(req: IncomingMessage): string {
+  const url = req.url ?? '/';
+  const queryStart = url.indexOf('?');
+  return queryStart === -1 ? url : url.slice(0, queryStart);
+}
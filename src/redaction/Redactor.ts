@@ -0,0 +1,283 @@
+/**
+ * @file src/redaction/Redactor.ts
+ * @description Path-based redaction (pino-style `redact`).
+ *
+ * Where MaskingEngine matches leaf key names anywhere, the Redactor targets exact locations:
+ * `req.headers.authorization` is redacted while `user.authorization.role` is kept.
+ * Paths are validated and compiled into a trie once; at log time only the branches named
+ * by a path are visited, and containers on those branches are copied (never mutated).
+ */
+
+import { serialize } from '../utils/serialize';
+
+/**
+ * Custom censor: receives the original value and its concrete path (e.g. ['items', '0', 'card']).
+ */
+export type RedactCensor = (value: unknown, path: string[]) => unknown;
+
+export interface RedactOptions {
+  /** Paths to redact: dotted (`a.b`), bracket (`a["b-c"]`, `a[0]`) and wildcard (`a.*`, `a[*].b`) */
+  paths: string[];
+  /** Replacement value, or a function computing it (default: '[Redacted]') */
+  censor?: unknown;
+  /** Remove matching keys instead of censoring them (default: false) */
+  remove?: boolean;
+}
+
+/** Compiled path segment: a concrete key or a wildcard */
+type PathSegment = { key: string } | { wildcard: true };
+
+/** Trie node: one per distinct path prefix */
+interface PathNode {
+  children: Map<string, PathNode>;
+  wildcard?: PathNode;
+  /** A path ends here: redact the value itself (deeper paths are irrelevant) */
+  terminal: boolean;
+}
+
+/** Marker returned when a field must be removed from the output */
+export const REDACTED_REMOVE: unique symbol = Symbol('redacted-remove');
+
+/** Default replacement value */
+export const DEFAULT_CENSOR = '[Redacted]';
+
+/**
+ * Parse a path into segments, throwing a descriptive error on invalid syntax.
+ * Supports `a.b`, `a[0]`, `a["b.c"]`, `a['b']`, `a.*` and `a[*]`.
+ */
+export function parseRedactPath(path: string): PathSegment[] {
+  const fail = (reason: string): never => {
+    throw new Error(`[Redactor] Invalid redact path "${path}": ${reason}.`);
+  };
+
+  // Guard clause: Path must be a non-empty string
+  if (typeof path !== 'string' || path.trim() === '') {
+    fail('paths must be non-empty strings');
+  }
+
+  const segments: PathSegment[] = [];
+  let i = 0;
+
+  while (i < path.length) {
+    if (path[i] === '[') {
+      const { segment, next } = parseBracket(path, i, fail);
+      segments.push(segment);
+      i = next;
+    } else {
+      let end = i;
+      while (end < path.length && path[end] !== '.' && path[end] !== '[') {
+        end++;
+      }
+      const name = path.slice(i, end);
+      if (name === '') fail(`empty segment at position ${i}`);
+      if (name.includes(']')) fail(`unexpected "]" at position ${i + name.indexOf(']')}`);
+      segments.push(name === '*' ? { wildcard: true } : { key: name });
+      i = end;
+    }
+
+    // Separator: "." must be followed by a segment; "[" starts the next one directly
+    if (path[i] === '.') {
+      i++;
+      if (i === path.length) fail('trailing "."');
+      if (path[i] === '.' || path[i] === '[') fail(`empty segment at position ${i}`);
+    } else if (i < path.length && path[i] !== '[') {
+      fail(`expected "." or "[" at position ${i}`);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parse a bracket segment starting at `start` (Single Responsibility).
+ * @private
+ */
+function parseBracket(
+  path: string,
+  start: number,
+  fail: (reason: string) => never
+): { segment: PathSegment; next: number } {
+  const quote = path[start + 1];
+
+  // Quoted key: ["any.chars"] or ['any.chars']
+  if (quote === '"' || quote === "'") {
+    const close = path.indexOf(quote, start + 2);
+    if (close === -1) fail(`unterminated quote at position ${start + 1}`);
+    if (path[close + 1] !== ']') fail(`expected "]" at position ${close + 1}`);
+    return { segment: { key: path.slice(start + 2, close) }, next: close + 2 };
+  }
+
+  const close = path.indexOf(']', start);
+  if (close === -1) fail(`unterminated "[" at position ${start}`);
+  const inner = path.slice(start + 1, close);
+
+  // Guard clause: Wildcard or array index
+  if (inner === '*') {
+    return { segment: { wildcard: true }, next: close + 1 };
+  }
+  if (!/^\d+$/.test(inner)) {
+    fail(`brackets must contain *, an index or a quoted key, got "[${inner}]"`);
+  }
+  return { segment: { key: inner }, next: close + 1 };
+}
+
+/**
+ * Whether a previous path already removed `key` from a copied container.
+ * @private
+ */
+function isRemoved(copy: Record<string, unknown>, key: string): boolean {
+  return !Object.prototype.hasOwnProperty.call(copy, key) || copy[key] === REDACTED_REMOVE;
+}
+
+/**
+ * @class Redactor
+ * Compiles redact paths once and applies them to log fields.
+ */
+export class Redactor {
+  private readonly root: PathNode = { children: new Map(), terminal: false };
+  private readonly censor: RedactCensor;
+  private readonly remove: boolean;
+  /** Original paths (for inspection and child loggers) */
+  public readonly paths: readonly string[];
+
+  /**
+   * @param options - Paths array, or paths plus censor/remove options
+   * @throws Error when a path or option is invalid (all paths are checked up front)
+   */
+  constructor(options: string[] | RedactOptions) {
+    const config: RedactOptions = Array.isArray(options) ? { paths: options } : options;
+
+    // Guard clause: Paths are required
+    if (!config || !Array.isArray(config.paths) || config.paths.length === 0) {
+      throw new Error('[Redactor] redact requires a non-empty array of paths.');
+    }
+
+    // Guard clause: remove must be boolean when provided
+    if (config.remove !== undefined && typeof config.remove !== 'boolean') {
+      throw new Error('[Redactor] redact.remove must be a boolean.');
+    }
+
+    this.remove = config.remove ?? false;
+    this.censor = this.createCensor('censor' in config ? config.censor : DEFAULT_CENSOR);
+    this.paths = Object.freeze([...config.paths]);
+
+    for (const path of config.paths) {
+      this.insert(parseRedactPath(path));
+    }
+  }
+
+  /**
+   * Redact a top-level field. Returns the value untouched when no path starts with `key`,
+   * a redacted copy when one does, or REDACTED_REMOVE when the field must be dropped.
+   */
+  redactField(key: string, value: unknown): unknown {
+    const exact = this.root.children.get(key);
+    const wildcard = this.root.wildcard;
+
+    // Guard clause: No path starts with this key (fast path)
+    if (!exact && !wildcard) {
+      return value;
+    }
+
+    let result = value;
+    for (const node of [exact, wildcard]) {
+      if (!node || result === REDACTED_REMOVE) continue;
+      result = this.applyNode(result, node, [key]);
+    }
+    return result;
+  }
+
+  /**
+   * Redact every top-level field of a record, dropping removed keys (functional + immutable).
+   */
+  redactRecord(data: Record<string, unknown>): Record<string, unknown> {
+    return Object.keys(data).reduce<Record<string, unknown>>((acc, key) => {
+      const value = this.redactField(key, data[key]);
+      if (value !== REDACTED_REMOVE) {
+        acc[key] = value;
+      }
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Apply a trie node to the value found at `path` (Single Responsibility).
+   * @private
+   */
+  private applyNode(value: unknown, node: PathNode, path: string[]): unknown {
+    // Guard clause: A path ends here - censor or remove the value itself
+    if (node.terminal) {
+      return this.remove ? REDACTED_REMOVE : this.censor(value, path);
+    }
+
+    // Errors keep their fields in non-enumerable properties: expand them first
+    const target = value instanceof Error ? serialize(value) : value;
+
+    // Guard clause: Nothing to descend into
+    if (typeof target !== 'object' || target === null) {
+      return value;
+    }
+
+    const source = target as Record<string, unknown>;
+    let copy: Record<string, unknown> | undefined;
+    const keys = node.wildcard ? Object.keys(source) : Array.from(node.children.keys());
+
+    for (const key of keys) {
+      // Guard clause: Only existing keys are redacted
+      if (!Object.prototype.hasOwnProperty.call(source, key)) continue;
+
+      for (const child of [node.children.get(key), node.wildcard]) {
+        // Guard clause: No path for this key, or already removed by a previous path
+        if (!child || (copy && isRemoved(copy, key))) continue;
+
+        const current = (copy ?? source)[key];
+        const next = this.applyNode(current, child, [...path, key]);
+        if (next === current) continue;
+
+        copy ??= (Array.isArray(source) ? [...source] : { ...source }) as Record<string, unknown>;
+        // Array elements are marked and filtered out below: deleting them would leave holes
+        if (next === REDACTED_REMOVE && !Array.isArray(copy)) {
+          delete copy[key];
+        } else {
+          copy[key] = next;
+        }
+      }
+    }
+
+    // Guard clause: Nothing changed
+    if (!copy) {
+      return value;
+    }
+    return Array.isArray(copy) ? copy.filter((item) => item !== REDACTED_REMOVE) : copy;
+  }
+
+  /**
+   * Insert a compiled path into the trie.
+   * @private
+   */
+  private insert(segments: PathSegment[]): void {
+    let node = this.root;
+    for (const segment of segments) {
+      if ('wildcard' in segment) {
+        node.wildcard ??= { children: new Map(), terminal: false };
+        node = node.wildcard;
+      } else {
+        let child = node.children.get(segment.key);
+        if (!child) {
+          child = { children: new Map(), terminal: false };
+          node.children.set(segment.key, child);
+        }
+        node = child;
+      }
+    }
+    node.terminal = true;
+  }
+
+  /**
+   * Normalize the censor option into a function.
+   * @private
+   */
+  private createCensor(censor: unknown): RedactCensor {
+    return typeof censor === 'function' ? (censor as RedactCensor) : () => censor;
+  }
+}
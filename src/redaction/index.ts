@@ -0,0 +1,2 @@
+export { Redactor, parseRedactPath, REDACTED_REMOVE } from './Redactor';
+export type { RedactOptions, RedactCensor } from './Redactor';
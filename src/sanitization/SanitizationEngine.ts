@@ -46,6 +46,38 @@ export class SanitizationEngine {
       : meta;
   }
 
+  /**
+   * Processes a formatted log message: strips control characters, then masks the values
+   * found by the masking engine's value detectors.
+   * @param message - The formatted message.
+   * @returns The sanitized message.
+   */
+  public processMessage(message: string): string {
+    const sanitized = message.replace(this.ansiRegex, '');
+    return this.maskingEngine ? this.maskingEngine.processText(sanitized) : sanitized;
+  }
+
+  /**
+   * Whether a masking engine is attached (format arguments can only be masked with one).
+   */
+  public hasMaskingEngine(): boolean {
+    return this.maskingEngine !== undefined;
+  }
+
+  /**
+   * Masks format arguments before they are interpolated into the message.
+   * @param args - The format arguments.
+   * @returns The masked arguments (unchanged when there is no masking engine).
+   */
+  public processFormatArgs<T>(args: T[]): T[] {
+    const maskingEngine = this.maskingEngine;
+    // Guard clause: Nothing to mask with
+    if (!maskingEngine) {
+      return args;
+    }
+    return args.map((arg) => maskingEngine.maskFormatArg(arg) as T);
+  }
+
   /**
    * @private
    * Recursively traverses an object or array to sanitize all string values.
@@ -0,0 +1,102 @@
+/**
+ * @file src/serializers/StandardSerializers.ts
+ * @description Per-key serializers that turn rich objects (errors, HTTP requests/responses,
+ * ORM entities...) into plain JSON before they are written.
+ */
+
+import { serialize } from '../utils/serialize';
+
+/**
+ * A serializer receives the value logged under its key and returns plain JSON.
+ */
+export type Serializer = (value: unknown) => unknown;
+
+/**
+ * Map of metadata/binding/context keys to serializers.
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger({
+ *   serializers: { ...stdSerializers, user: (u) => ({ id: (u as User).id }) },
+ * });
+ * logger.info({ req, user }, 'request received');
+ * ```
+ */
+export type Serializers = Record<string, Serializer>;
+
+/** Shape of the fields read from `http.IncomingMessage` (and Express/Koa requests) */
+interface RequestLike {
+  method?: string;
+  url?: string;
+  originalUrl?: string;
+  headers?: Record<string, unknown>;
+  socket?: { remoteAddress?: string; remotePort?: number };
+}
+
+/** Shape of the fields read from `http.ServerResponse` */
+interface ResponseLike {
+  statusCode?: number;
+  getHeaders?: () => Record<string, unknown>;
+}
+
+/**
+ * Check that a value looks like an object with the given field (duck typing, no `instanceof`
+ * so requests wrapped by frameworks are recognised too).
+ * @private
+ */
+const hasField = (value: unknown, field: string): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && field in value;
+
+/**
+ * Serialize an Error (stack, custom properties, cause chain, AggregateError.errors).
+ * Non-Error values fall back to serialize().
+ */
+export function errSerializer(value: unknown): unknown {
+  return serialize(value);
+}
+
+/**
+ * Serialize an `http.IncomingMessage`: method, url, headers and remote address.
+ * Values that are not requests fall back to serialize(), which handles circular references.
+ */
+export function reqSerializer(value: unknown): unknown {
+  // Guard clause: Not a request
+  if (!hasField(value, 'method') || !hasField(value, 'headers')) {
+    return serialize(value);
+  }
+
+  const req = value as RequestLike;
+  return {
+    method: req.method,
+    url: req.originalUrl ?? req.url,
+    headers: serialize(req.headers),
+    remoteAddress: req.socket?.remoteAddress,
+    remotePort: req.socket?.remotePort,
+  };
+}
+
+/**
+ * Serialize an `http.ServerResponse`: status code and headers.
+ * Values that are not responses fall back to serialize(), which handles circular references.
+ */
+export function resSerializer(value: unknown): unknown {
+  // Guard clause: Not a response
+  if (!hasField(value, 'statusCode')) {
+    return serialize(value);
+  }
+
+  const res = value as ResponseLike;
+  return {
+    statusCode: res.statusCode,
+    headers: typeof res.getHeaders === 'function' ? serialize(res.getHeaders()) : undefined,
+  };
+}
+
+/**
+ * Standard serializers for the conventional `err`, `req` and `res` keys.
+ */
+export const stdSerializers: Readonly<Serializers> = Object.freeze({
+  err: errSerializer,
+  req: reqSerializer,
+  res: resSerializer,
+});
@@ -0,0 +1,2 @@
+export { stdSerializers, errSerializer, reqSerializer, resSerializer } from './StandardSerializers';
+export type { Serializer, Serializers } from './StandardSerializers';
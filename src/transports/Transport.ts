@@ -2,7 +2,7 @@
  * Base Transport class for extensibility
  *
  * This provides a solid foundation for custom transports including
- * future OpenTelemetry integration
+ * OpenTelemetry integration (see OtlpTransport)
  */
 
 import type { LogLevel } from '../levels';
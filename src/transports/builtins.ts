@@ -0,0 +1,13 @@
+/**
+ * FILE: src/transports/builtins.ts
+ * DESCRIPTION: Worker entry for ThreadedTransport's built-in targets ('json', 'file', ...).
+ *
+ * Bundled as its own entry (dist/builtins.js) next to dist/index.js, so the worker loads
+ * only the transports and the same relative URL works from source and from the bundle.
+ */
+
+export { ClassicTransport } from './classic';
+export { CompactTransport } from './compact';
+export { FileTransport } from './file';
+export { JsonTransport } from './json';
+export { PrettyTransport } from './pretty';
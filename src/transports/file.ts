@@ -0,0 +1,323 @@
+/**
+ * File Transport - Writes JSON lines to a file with rotation and retention
+ *
+ * Rotates by size and/or by interval (hourly/daily), keeps a bounded number
+ * of archived files and can gzip them once they are closed.
+ *
+ * NOTE: The file is opened eagerly in the constructor so `log()` stays synchronous.
+ * Rotation renames the active file and swaps in a new stream immediately; closing,
+ * compressing and pruning the old file happens in the background and is awaited
+ * by `flush()` and `close()`.
+ */
+
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  renameSync,
+  statSync,
+} from 'node:fs';
+import type { WriteStream } from 'node:fs';
+import { readdir, unlink } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import type { LogEntry } from '../types';
+import { Transport, type TransportOptions } from './Transport';
+
+export type FileRotationInterval = 'hourly' | 'daily';
+
+export interface FileTransportOptions extends TransportOptions {
+  /** Path of the active log file */
+  path: string;
+  /** Rotate when the active file would exceed this many bytes */
+  maxSize?: number;
+  /** Rotate at the start of every hour or day (local time, like the archive stamps) */
+  interval?: FileRotationInterval;
+  /** Number of archived files to keep (default: 5, 0 keeps none) */
+  maxFiles?: number;
+  /** Gzip archived files (default: false) */
+  compress?: boolean;
+}
+
+/** Interval boundary calculators (functional approach: dictionary instead of switch) */
+const NEXT_BOUNDARY: Record<FileRotationInterval, (now: number) => number> = {
+  hourly: (now) => {
+    const date = new Date(now);
+    date.setMinutes(60, 0, 0);
+    return date.getTime();
+  },
+  daily: (now) => {
+    const date = new Date(now);
+    date.setHours(24, 0, 0, 0);
+    return date.getTime();
+  },
+};
+
+/** Archive suffix after `<file>.`: local-time stamp, optional sequence, optional `.gz` */
+const ARCHIVE_SUFFIX_REGEX = /^(\d{8}-\d{6})(?:-(\d+))?(?:\.gz)?$/;
+
+/**
+ * Format a rotation time as `YYYYMMDD-HHmmss` in local time, the same clock
+ * the interval boundaries use, so a daily archive is stamped at local midnight.
+ * @private
+ */
+const formatStamp = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+};
+
+export class FileTransport extends Transport {
+  private readonly path: string;
+  private readonly maxSize?: number;
+  private readonly interval?: FileRotationInterval;
+  private readonly maxFiles: number;
+  private readonly compress: boolean;
+  private stream: WriteStream;
+  private size = 0;
+  private nextRotationAt = Number.POSITIVE_INFINITY;
+  /** Background rotation work (close old stream → compress → prune) */
+  private pending: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(options: FileTransportOptions) {
+    super(options);
+
+    // Guard clause: Path is required
+    if (!options?.path) {
+      throw new Error('[FileTransport] A file path is required.');
+    }
+
+    // Guard clause: maxSize must be a positive number
+    if (options.maxSize !== undefined && !(options.maxSize > 0)) {
+      throw new Error(`[FileTransport] maxSize must be a positive number, got: ${options.maxSize}`);
+    }
+
+    // Guard clause: Unknown interval
+    if (options.interval !== undefined && !NEXT_BOUNDARY[options.interval]) {
+      throw new Error(
+        `[FileTransport] Unknown rotation interval: "${options.interval}". Use 'hourly' or 'daily'.`
+      );
+    }
+
+    this.path = options.path;
+    this.maxSize = options.maxSize;
+    this.interval = options.interval;
+    this.maxFiles = Math.max(0, options.maxFiles ?? 5);
+    this.compress = options.compress ?? false;
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    this.size = existsSync(this.path) ? statSync(this.path).size : 0;
+    this.stream = this.openStream();
+    this.scheduleNextRotation(Date.now());
+  }
+
+  log(entry: LogEntry | string): void {
+    // Guard clause: Transport closed - drop silently (Silent Observer)
+    if (this.closed) {
+      return;
+    }
+
+    const line = `${typeof entry === 'string' ? entry : JSON.stringify(entry)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    // Guard clause: Rotate before writing if this line crosses a boundary
+    if (this.shouldRotate(bytes)) {
+      this.rotate();
+    }
+
+    this.stream.write(line);
+    this.size += bytes;
+  }
+
+  /**
+   * Wait until everything written so far reaches the file and
+   * all background rotation work has finished.
+   */
+  async flush(): Promise<void> {
+    await this.drainStream(this.stream);
+    await this.pending;
+  }
+
+  /**
+   * Flush and close the active file. Further logs are dropped.
+   */
+  async close(): Promise<void> {
+    // Guard clause: Already closed
+    if (this.closed) {
+      await this.pending;
+      return;
+    }
+
+    this.closed = true;
+    await this.endStream(this.stream);
+    await this.pending;
+  }
+
+  /**
+   * Force a rotation now, regardless of size or interval.
+   */
+  rotate(): void {
+    // Guard clause: Nothing to rotate
+    if (this.closed || this.size === 0) {
+      this.scheduleNextRotation(Date.now());
+      return;
+    }
+
+    const oldStream = this.stream;
+    const archivePath = this.nextArchivePath();
+
+    // Guard clause: Rename failed - keep writing to the current file
+    try {
+      // The open fd follows the file on POSIX, so queued writes land in the archive
+      renameSync(this.path, archivePath);
+    } catch (error) {
+      console.error('[FileTransport Error] Rotation failed:', error);
+      this.scheduleNextRotation(Date.now());
+      return;
+    }
+
+    this.pending = this.pending
+      .then(() => this.endStream(oldStream))
+      .then(() => (this.compress ? this.compressArchive(archivePath) : undefined))
+      .then(() => this.pruneArchives())
+      .catch((error) => {
+        // Silent Observer: Rotation failures never interrupt the app
+        console.error('[FileTransport Error] Rotation failed:', error);
+      });
+
+    this.size = 0;
+    this.stream = this.openStream();
+    this.scheduleNextRotation(Date.now());
+  }
+
+  /**
+   * Check whether the next write requires a rotation (Single Responsibility).
+   * @private
+   */
+  private shouldRotate(nextBytes: number): boolean {
+    if (Date.now() >= this.nextRotationAt) {
+      return true;
+    }
+
+    return this.maxSize !== undefined && this.size > 0 && this.size + nextBytes > this.maxSize;
+  }
+
+  /**
+   * Compute the next interval boundary (no-op for size-only rotation).
+   * @private
+   */
+  private scheduleNextRotation(now: number): void {
+    this.nextRotationAt = this.interval
+      ? NEXT_BOUNDARY[this.interval](now)
+      : Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * Open an append stream on the active path (Single Responsibility).
+   * The fd is opened synchronously so a rotation can never race the open.
+   * @private
+   */
+  private openStream(): WriteStream {
+    const stream = createWriteStream(this.path, { fd: openSync(this.path, 'a') });
+    stream.on('error', (error) => {
+      // Silent Observer: Never interrupt the app
+      console.error('[FileTransport Error] Failed to write log file:', error);
+    });
+    return stream;
+  }
+
+  /**
+   * Resolve once all data queued on the stream has been handed to the OS.
+   * @private
+   */
+  private drainStream(stream: WriteStream): Promise<void> {
+    // Guard clause: Stream already ended (close() waits for it instead)
+    if (stream.writableEnded || stream.destroyed) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      stream.write('', () => resolve());
+    });
+  }
+
+  /**
+   * End a stream and resolve once it is fully closed.
+   * @private
+   */
+  private endStream(stream: WriteStream): Promise<void> {
+    // Guard clause: Stream already closed
+    if (stream.closed || stream.destroyed) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      stream.once('close', () => resolve());
+      stream.end();
+    });
+  }
+
+  /**
+   * Build a unique, sortable archive name: `<file>.<YYYYMMDD-HHmmss>[-n]` (local time).
+   * @private
+   */
+  private nextArchivePath(): string {
+    const base = `${this.path}.${formatStamp(new Date())}`;
+
+    let candidate = base;
+    for (let n = 1; existsSync(candidate) || existsSync(`${candidate}.gz`); n++) {
+      candidate = `${base}-${n}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Gzip an archive in place and remove the uncompressed copy.
+   * @private
+   */
+  private async compressArchive(archivePath: string): Promise<void> {
+    await pipeline(
+      createReadStream(archivePath),
+      createGzip(),
+      createWriteStream(`${archivePath}.gz`)
+    );
+    await unlink(archivePath);
+  }
+
+  /**
+   * Delete the oldest archives beyond `maxFiles`.
+   * @private
+   */
+  private async pruneArchives(): Promise<void> {
+    const archives = await this.listArchives();
+    const excess = archives.slice(0, Math.max(0, archives.length - this.maxFiles));
+    await Promise.all(excess.map((file) => unlink(file)));
+  }
+
+  /**
+   * List archives of the active file, oldest first.
+   * Ordered by the stamp and sequence in their names, so copying or restoring
+   * archives (which changes their mtime) does not change which ones are pruned.
+   * @returns Absolute archive paths sorted from oldest to newest
+   */
+  async listArchives(): Promise<string[]> {
+    const dir = dirname(this.path);
+    const prefix = `${basename(this.path)}.`;
+    const archives = (await readdir(dir)).flatMap((name) => {
+      const match = name.startsWith(prefix)
+        ? ARCHIVE_SUFFIX_REGEX.exec(name.slice(prefix.length))
+        : null;
+      return match ? [{ file: join(dir, name), stamp: match[1], seq: Number(match[2] ?? 0) }] : [];
+    });
+
+    return archives
+      .sort((a, b) => a.stamp.localeCompare(b.stamp) || a.seq - b.seq)
+      .map(({ file }) => file);
+  }
+}
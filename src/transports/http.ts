@@ -0,0 +1,594 @@
+/**
+ * HTTP Transport - Ships batched JSON lines to an HTTP endpoint
+ *
+ * Batches by count, bytes and linger time; retries 5xx/429 and network errors with
+ * exponential backoff and jitter (honouring `Retry-After`); caps the memory held by
+ * queued and in-flight batches; and spills batches that keep failing to a local
+ * dead-letter NDJSON file, which is replayed (alongside live batches) the next time
+ * the transport starts.
+ *
+ * NOTE: Lines are sent exactly as built by Logger (no re-parsing), using the global
+ * `fetch` (Node 18+ / Bun).
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { access, appendFile, mkdir, open, rename, stat, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { StringDecoder } from 'node:string_decoder';
+import { withoutInstrumentation } from '../instrumentation/suppress';
+import type { LogEntry } from '../types';
+import { parseRetryAfter } from '../utils/retryAfter';
+import { Transport, type TransportOptions } from './Transport';
+
+export type HttpBodyFormat = 'ndjson' | 'json-array';
+
+export interface HttpTransportOptions extends TransportOptions {
+  /** Endpoint receiving the batches */
+  url: string;
+  /** HTTP method (default: 'POST') */
+  method?: 'POST' | 'PUT';
+  /** Extra HTTP headers (e.g. authentication) */
+  headers?: Record<string, string>;
+  /** Body format (default: 'ndjson') */
+  format?: HttpBodyFormat;
+  /** Lines per request (default: 100) */
+  maxBatchSize?: number;
+  /** Bytes per request (default: 1 MiB) */
+  maxBatchBytes?: number;
+  /** Max ms a line waits before its batch is sent (default: 1000) */
+  lingerMs?: number;
+  /** Bytes held by queued and in-flight batches; new lines are dropped beyond this (default: 16 MiB) */
+  maxBufferedBytes?: number;
+  /** Retries per batch on network errors, 5xx and 429 (default: 5) */
+  maxRetries?: number;
+  /** First retry delay, doubled on each attempt, with jitter (default: 500ms) */
+  retryBackoffMs?: number;
+  /** Upper bound for a single retry delay, including Retry-After (default: 30000ms) */
+  maxBackoffMs?: number;
+  /** Per-request timeout (default: 10000ms) */
+  timeoutMs?: number;
+  /** NDJSON file receiving batches that exhausted their retries; replayed on start */
+  deadLetterPath?: string;
+  /** Size cap of the dead-letter file (and of a merged replay file); batches beyond it are dropped (default: 64 MiB) */
+  maxDeadLetterBytes?: number;
+}
+
+interface Batch {
+  lines: string[];
+  bytes: number;
+}
+
+/** Content types by body format (functional approach: dictionary instead of switch) */
+const CONTENT_TYPES: Record<HttpBodyFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  'json-array': 'application/json',
+};
+
+/** Bytes read (and appended) at a time when replaying or merging dead-letter files */
+const FILE_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Read the lines of a file chunk by chunk, so large files are never held in memory.
+ * Empty lines are yielded too, so callers can track byte offsets.
+ * @private
+ */
+async function* readLines(path: string): AsyncGenerator<string> {
+  const file = await open(path, 'r');
+  const decoder = new StringDecoder('utf8');
+  const chunk = Buffer.alloc(FILE_CHUNK_BYTES);
+  let pending = '';
+
+  try {
+    for (;;) {
+      const { bytesRead } = await file.read(chunk, 0, chunk.length, null);
+      if (bytesRead === 0) break;
+
+      const lines = (pending + decoder.write(chunk.subarray(0, bytesRead))).split('\n');
+      pending = lines.pop() ?? '';
+      yield* lines;
+    }
+    pending += decoder.end();
+    if (pending) yield pending;
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * @private
+ */
+const pathExists = (path: string): Promise<boolean> =>
+  access(path).then(
+    () => true,
+    () => false
+  );
+
+/**
+ * Size of a file, 0 when it does not exist.
+ * @private
+ */
+const fileSize = (path: string): Promise<number> =>
+  stat(path).then(
+    (stats) => stats.size,
+    () => 0
+  );
+
+/**
+ * Sleep helper for retry backoff.
+ * @private
+ */
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+export class HttpTransport extends Transport {
+  private readonly url: string;
+  private readonly method: 'POST' | 'PUT';
+  private readonly headers: Record<string, string>;
+  private readonly format: HttpBodyFormat;
+  private readonly maxBatchSize: number;
+  private readonly maxBatchBytes: number;
+  private readonly lingerMs: number;
+  private readonly maxBufferedBytes: number;
+  private readonly maxRetries: number;
+  private readonly retryBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly timeoutMs: number;
+  private readonly deadLetterPath?: string;
+  private readonly maxDeadLetterBytes: number;
+  private current: Batch = { lines: [], bytes: 0 };
+  /** Bytes held by the open batch plus every sealed batch not yet settled */
+  private bufferedBytes = 0;
+  private lingerTimer?: NodeJS.Timeout;
+  /** Delivery chain: batches are sent one at a time, in order */
+  private sending: Promise<void> = Promise.resolve();
+  /** Dead-letter replay, on its own chain so it never delays live batches */
+  private replaying: Promise<void> = Promise.resolve();
+  private closed = false;
+  /** Lines discarded (memory cap, permanent failures, or no dead-letter file) */
+  public dropped = 0;
+  /** Lines written to the dead-letter file */
+  public deadLettered = 0;
+
+  constructor(options: HttpTransportOptions) {
+    super(options);
+
+    // Guard clause: URL is required
+    if (!options?.url) {
+      throw new Error('[HttpTransport] A url is required.');
+    }
+
+    this.url = options.url;
+    this.method = options.method ?? 'POST';
+    this.headers = options.headers ?? {};
+    this.format = options.format ?? 'ndjson';
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.maxBatchBytes = options.maxBatchBytes ?? 1024 * 1024;
+    this.lingerMs = options.lingerMs ?? 1000;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 16 * 1024 * 1024;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.retryBackoffMs = options.retryBackoffMs ?? 500;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30_000;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.deadLetterPath = options.deadLetterPath;
+    this.maxDeadLetterBytes = options.maxDeadLetterBytes ?? 64 * 1024 * 1024;
+
+    // Guard clause: Unknown body format
+    if (!CONTENT_TYPES[this.format]) {
+      throw new Error(
+        `[HttpTransport] Unknown format: "${this.format}". Use 'ndjson' or 'json-array'.`
+      );
+    }
+
+    this.replayDeadLetters();
+  }
+
+  log(entry: LogEntry | string): void {
+    // Guard clause: Closed
+    if (this.closed) {
+      return;
+    }
+
+    // Guard clause: Convert entry to JSON string (functional approach)
+    const line = typeof entry === 'string' ? entry : JSON.stringify(entry);
+    const bytes = Buffer.byteLength(line) + 1;
+
+    // Guard clause: Memory cap reached - drop newest (Silent Observer: never block the app)
+    if (this.bufferedBytes + bytes > this.maxBufferedBytes) {
+      this.dropped++;
+      return;
+    }
+
+    this.append(line, bytes);
+  }
+
+  /**
+   * Send everything queued and resolve once it has been delivered or dead-lettered.
+   * The dead-letter replay runs on its own and is not waited for.
+   */
+  async flush(): Promise<void> {
+    this.sealBatch();
+    await this.sending;
+  }
+
+  /**
+   * Resolve once the dead-letter replay started by the constructor has sent every line,
+   * or has stopped (first failed batch, or close()) leaving the rest for the next start.
+   */
+  replayed(): Promise<void> {
+    return this.replaying;
+  }
+
+  /**
+   * Flush and stop accepting new lines.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.closed = true;
+    // The replay stops before its next batch; wait only for the one in flight
+    await this.replaying;
+  }
+
+  /**
+   * Add a line to the open batch, sealing it on count/bytes limits (Single Responsibility).
+   * @private
+   */
+  private append(line: string, bytes: number): void {
+    // Guard clause: Line would overflow the open batch - send that batch first
+    if (this.current.lines.length > 0 && this.current.bytes + bytes > this.maxBatchBytes) {
+      this.sealBatch();
+    }
+
+    this.current.lines.push(line);
+    this.current.bytes += bytes;
+    this.bufferedBytes += bytes;
+
+    // Guard clause: Batch full
+    if (
+      this.current.lines.length >= this.maxBatchSize ||
+      this.current.bytes >= this.maxBatchBytes
+    ) {
+      this.sealBatch();
+      return;
+    }
+
+    this.armLingerTimer();
+  }
+
+  /**
+   * Close the open batch and put it on the delivery chain.
+   * @private
+   */
+  private sealBatch(): void {
+    this.clearLingerTimer();
+
+    // Guard clause: Nothing to send
+    if (this.current.lines.length === 0) {
+      return;
+    }
+
+    const batch = this.current;
+    this.current = { lines: [], bytes: 0 };
+    this.sending = this.sending.then(() =>
+      this.deliver(batch).finally(() => {
+        this.bufferedBytes -= batch.bytes;
+      })
+    );
+  }
+
+  /**
+   * Deliver one batch with retries; spill to the dead-letter file when retries run out.
+   * @private
+   */
+  private async deliver(batch: Batch): Promise<void> {
+    const body = this.toBody(batch);
+
+    for (let attempt = 0; ; attempt++) {
+      const { ok, retryable, retryAfterMs } = await this.post(body);
+
+      // Guard clause: Delivered
+      if (ok) {
+        return;
+      }
+
+      // Guard clause: Permanent failure (4xx other than 429) - retrying cannot help
+      if (!retryable) {
+        this.dropRejected(batch);
+        return;
+      }
+
+      // Guard clause: Retries exhausted
+      if (attempt >= this.maxRetries) {
+        await this.deadLetter(batch);
+        return;
+      }
+
+      await delay(Math.min(retryAfterMs ?? this.backoff(attempt), this.maxBackoffMs));
+    }
+  }
+
+  /**
+   * @private
+   */
+  private dropRejected(batch: Batch): void {
+    this.dropped += batch.lines.length;
+    console.error(
+      `[HttpTransport Error] Dropped ${batch.lines.length} log lines: endpoint rejected the batch.`
+    );
+  }
+
+  /**
+   * @private
+   */
+  private toBody(batch: Batch): string {
+    return this.format === 'ndjson' ? `${batch.lines.join('\n')}\n` : `[${batch.lines.join(',')}]`;
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half fixed, half random.
+   * @private
+   */
+  private backoff(attempt: number): number {
+    const base = Math.min(this.retryBackoffMs * 2 ** attempt, this.maxBackoffMs);
+    return base / 2 + Math.random() * (base / 2);
+  }
+
+  /**
+   * Single request to the endpoint; never throws (Silent Observer).
+   * @private
+   */
+  private async post(
+    body: string
+  ): Promise<{ ok: boolean; retryable: boolean; retryAfterMs?: number }> {
+    try {
+      // Not instrumented: the call is log delivery, not application traffic
+      const response = await withoutInstrumentation(() =>
+        fetch(this.url, {
+          method: this.method,
+          headers: { 'Content-Type': CONTENT_TYPES[this.format], ...this.headers },
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        })
+      );
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+
+      return {
+        ok: response.ok,
+        retryable: response.status >= 500 || response.status === 429,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      };
+    } catch {
+      // Network errors and timeouts are retryable
+      return { ok: false, retryable: true };
+    }
+  }
+
+  /**
+   * Append a failed batch to the dead-letter file (or drop it if none is configured).
+   * @private
+   */
+  private async deadLetter(batch: Batch): Promise<void> {
+    // Guard clause: No dead-letter file configured
+    if (!this.deadLetterPath) {
+      this.dropped += batch.lines.length;
+      console.error(
+        `[HttpTransport Error] Dropped ${batch.lines.length} log lines after ${this.maxRetries + 1} attempts.`
+      );
+      return;
+    }
+
+    try {
+      // Guard clause: Dead-letter file full - a dead endpoint must not fill the disk
+      if ((await fileSize(this.deadLetterPath)) + batch.bytes > this.maxDeadLetterBytes) {
+        this.dropped += batch.lines.length;
+        console.error(
+          `[HttpTransport Error] Dropped ${batch.lines.length} log lines: dead-letter file is full.`
+        );
+        return;
+      }
+
+      await mkdir(dirname(this.deadLetterPath), { recursive: true });
+      await appendFile(this.deadLetterPath, `${batch.lines.join('\n')}\n`);
+      this.deadLettered += batch.lines.length;
+    } catch (error) {
+      this.dropped += batch.lines.length;
+      console.error('[HttpTransport Error] Failed to write dead-letter file:', error);
+    }
+  }
+
+  /**
+   * Start replaying the lines left in the dead-letter file by a previous run.
+   * Live batches keep flowing meanwhile; a batch of this run that fails is written
+   * to a new dead-letter file, replayed on the next start.
+   * @private
+   */
+  private replayDeadLetters(): void {
+    const deadLetterPath = this.deadLetterPath;
+
+    // Guard clause: No dead-letter file configured
+    if (!deadLetterPath) {
+      return;
+    }
+
+    this.replaying = this.replay(deadLetterPath, `${deadLetterPath}.replay`).catch((error) => {
+      // Silent Observer: A broken dead-letter file never prevents logging
+      console.error('[HttpTransport Error] Failed to replay dead-letter file:', error);
+    });
+  }
+
+  /**
+   * Move the dead-letter file aside and resend it in batches read from disk, one attempt
+   * each. The first batch that fails (or close()) stops the replay: the unsent rest stays
+   * in the replay file for the next start; the file is removed once everything was sent.
+   * @private
+   */
+  private async replay(deadLetterPath: string, replayPath: string): Promise<void> {
+    await mkdir(dirname(deadLetterPath), { recursive: true });
+
+    // Merge with a replay file left over by an earlier run (finishing a merge a crash
+    // interrupted first). The dead-letter file is moved before it is read, so batches
+    // this run dead-letters meanwhile land in a new file
+    const mergePath = `${deadLetterPath}.merge`;
+    for (const source of [mergePath, deadLetterPath]) {
+      if (!(await pathExists(source))) {
+        continue;
+      }
+      if (!(await pathExists(replayPath))) {
+        await rename(source, replayPath);
+        continue;
+      }
+      if (source !== mergePath) {
+        await rename(source, mergePath);
+      }
+      await this.appendCapped(mergePath, replayPath);
+      await unlink(mergePath);
+    }
+
+    // Guard clause: Nothing to replay
+    if (!(await pathExists(replayPath))) {
+      return;
+    }
+
+    let batch: Batch = { lines: [], bytes: 0 };
+    let batchStart = 0;
+    let offset = 0;
+    for await (const line of readLines(replayPath)) {
+      const bytes = Buffer.byteLength(line) + 1;
+      if (
+        batch.lines.length > 0 &&
+        (batch.lines.length >= this.maxBatchSize || batch.bytes + bytes > this.maxBatchBytes)
+      ) {
+        // Guard clause: Stopped - keep this batch and everything after it
+        if (!(await this.sendReplayed(batch))) {
+          return this.keepFrom(replayPath, batchStart);
+        }
+        batch = { lines: [], bytes: 0 };
+        batchStart = offset;
+      }
+      offset += bytes;
+      if (line) {
+        batch.lines.push(line);
+        batch.bytes += bytes;
+      }
+    }
+
+    // Guard clause: Stopped on the last batch
+    if (batch.lines.length > 0 && !(await this.sendReplayed(batch))) {
+      return this.keepFrom(replayPath, batchStart);
+    }
+
+    await unlink(replayPath);
+  }
+
+  /**
+   * Send a replayed batch once. Returns false when the replay must stop
+   * (transport closed, or a retryable failure - the endpoint is likely still down).
+   * @private
+   */
+  private async sendReplayed(batch: Batch): Promise<boolean> {
+    // Guard clause: Closed - leave the rest for the next start
+    if (this.closed) {
+      return false;
+    }
+
+    const { ok, retryable } = await this.post(this.toBody(batch));
+
+    // Guard clause: Permanent failure - retrying cannot help, drop it as live batches are
+    if (!ok && !retryable) {
+      this.dropRejected(batch);
+    }
+    return ok || !retryable;
+  }
+
+  /**
+   * Cut a file down to its bytes from `offset` on (streamed, Single Responsibility).
+   * @private
+   */
+  private async keepFrom(path: string, offset: number): Promise<void> {
+    // Guard clause: Nothing was sent - the file is already the rest
+    if (offset === 0) {
+      return;
+    }
+
+    const restPath = `${path}.rest`;
+    await pipeline(createReadStream(path, { start: offset }), createWriteStream(restPath));
+    await rename(restPath, path);
+  }
+
+  /**
+   * Append the lines of `source` to `target` while `target` stays within
+   * maxDeadLetterBytes; the rest are dropped (Single Responsibility).
+   * @private
+   */
+  private async appendCapped(source: string, target: string): Promise<void> {
+    let size = await fileSize(target);
+    let pending: string[] = [];
+    let pendingBytes = 0;
+    let skipped = 0;
+
+    for await (const line of readLines(source)) {
+      const bytes = Buffer.byteLength(line) + 1;
+
+      // Guard clause: Blank line
+      if (!line) {
+        continue;
+      }
+
+      // Guard clause: Replay file full
+      if (size + bytes > this.maxDeadLetterBytes) {
+        skipped++;
+        continue;
+      }
+
+      pending.push(line);
+      pendingBytes += bytes;
+      size += bytes;
+      if (pendingBytes >= FILE_CHUNK_BYTES) {
+        await appendFile(target, `${pending.join('\n')}\n`);
+        pending = [];
+        pendingBytes = 0;
+      }
+    }
+
+    if (pending.length > 0) {
+      await appendFile(target, `${pending.join('\n')}\n`);
+    }
+
+    if (skipped > 0) {
+      this.dropped += skipped;
+      console.error(`[HttpTransport Error] Dropped ${skipped} log lines: replay file is full.`);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private armLingerTimer(): void {
+    // Guard clause: Already armed
+    if (this.lingerTimer) {
+      return;
+    }
+
+    this.lingerTimer = setTimeout(() => {
+      this.lingerTimer = undefined;
+      this.sealBatch();
+    }, this.lingerMs);
+    this.lingerTimer.unref();
+  }
+
+  /**
+   * @private
+   */
+  private clearLingerTimer(): void {
+    // Guard clause: No timer armed
+    if (!this.lingerTimer) {
+      return;
+    }
+
+    clearTimeout(this.lingerTimer);
+    this.lingerTimer = undefined;
+  }
+}
@@ -3,10 +3,46 @@
  */
 
 export { JsonTransport, type JsonTransportOptions } from './json';
+export {
+  FileTransport,
+  type FileTransportOptions,
+  type FileRotationInterval,
+} from './file';
 export { PrettyTransport } from './pretty';
 export { CompactTransport } from './compact';
 export { ClassicTransport } from './classic';
+export {
+  ThreadedTransport,
+  type ThreadedTransportOptions,
+  type ThreadedOverflowPolicy,
+} from './threaded';
+export {
+  OtlpTransport,
+  type OtlpTransportOptions,
+  type OtlpLogRecord,
+  type OtlpAnyValue,
+  type OtlpKeyValue,
+  toLogRecord,
+  toSeverityNumber,
+} from './otlp';
+export {
+  SyslogTransport,
+  type SyslogTransportOptions,
+  type SyslogProtocol,
+  type SyslogFormat,
+  type SyslogFraming,
+  type SyslogFacility,
+  SYSLOG_FACILITIES,
+  SYSLOG_SEVERITIES,
+} from './syslog';
+export {
+  HttpTransport,
+  type HttpTransportOptions,
+  type HttpBodyFormat,
+} from './http';
+export { parseRetryAfter } from '../utils/retryAfter';
 export { ArrayTransport } from './array';
 export { CompositeTransport } from './CompositeTransport';
+export { RoutingTransport, type TransportRoute } from './routing';
 
 export type { Transport, TransportOptions } from './Transport';
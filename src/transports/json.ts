@@ -5,22 +5,111 @@
  * Optimized for raw JSON output without complex serialization overhead
  * * NOTE: Uses process.stdout.write() for maximum performance, which is synchronous
  * and avoids console.log's internal overhead.
+ *
+ * Lines are written immediately unless `bufferSize` asks for batching. Buffered lines are
+ * written when the buffer fills, when `flushInterval` elapses and when the process exits
+ * (beforeExit/exit, plus SIGTERM/SIGINT with `flushOnSignal`), so a quiet service never
+ * holds logs in memory indefinitely.
  */
 
+import type { Writable } from 'node:stream';
 import type { LogEntry } from '../types';
 import { Transport, type TransportOptions } from './Transport';
 
 export interface JsonTransportOptions extends TransportOptions {
-  bufferSize?: number; // Number of logs to buffer before flushing
+  bufferSize?: number; // Number of logs to buffer before flushing (default: 1 - write immediately)
+  flushInterval?: number; // Max ms a buffered log waits before being written (0 disables)
+  flushOnExit?: boolean; // Drain the buffer on beforeExit/exit (default: true)
+  flushOnSignal?: boolean; // Also drain on SIGTERM/SIGINT, installing process-wide handlers (default: false)
+  maxBufferedBytes?: number; // Bytes held while buffering or under backpressure; newer lines are dropped beyond this (default: 16 MiB)
+  destination?: NodeJS.WritableStream; // Where to write (default: process.stdout)
+}
+
+/**
+ * Transports with buffered lines, drained synchronously on process exit.
+ * Only non-empty buffers are registered, so idle transports are never retained.
+ */
+const pendingOnExit = new Set<JsonTransport>();
+let exitHooksInstalled = false;
+let signalHooksInstalled = false;
+
+const EXIT_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+function drainAllOnExit(): void {
+  for (const transport of pendingOnExit) {
+    transport.flushSync(true);
+  }
+}
+
+/**
+ * Install exit hooks once for all transports (avoids MaxListeners warnings).
+ */
+function installExitHooks(): void {
+  // Guard clause: Already installed
+  if (exitHooksInstalled) {
+    return;
+  }
+  exitHooksInstalled = true;
+
+  process.on('beforeExit', drainAllOnExit);
+  process.on('exit', drainAllOnExit);
+}
+
+/**
+ * Install signal hooks once (opt-in: they change how the whole process handles signals).
+ * Handlers re-raise the signal after draining when nobody else handles it,
+ * preserving the default "terminate" behaviour.
+ */
+function installSignalHooks(): void {
+  // Guard clause: Already installed
+  if (signalHooksInstalled) {
+    return;
+  }
+  signalHooksInstalled = true;
+
+  for (const signal of EXIT_SIGNALS) {
+    const handler = (): void => {
+      drainAllOnExit();
+      process.removeListener(signal, handler);
+
+      // Guard clause: Application handles this signal itself
+      if (process.listenerCount(signal) > 0) {
+        return;
+      }
+
+      process.kill(process.pid, signal);
+    };
+    process.on(signal, handler);
+  }
 }
 
 export class JsonTransport extends Transport {
   private buffer: string[] = [];
   private bufferSize: number;
+  private readonly flushInterval: number;
+  private readonly flushOnExit: boolean;
+  private readonly maxBufferedBytes: number;
+  private readonly destination: NodeJS.WritableStream;
+  private flushTimer?: NodeJS.Timeout;
+  /** Bytes held in the buffer */
+  private bufferedBytes = 0;
+  /** Set while the destination reports backpressure; writes resume on 'drain' */
+  private waitingForDrain = false;
+  /** Lines discarded (buffer cap reached, or the destination was closed) */
+  public dropped = 0;
 
   constructor(options?: JsonTransportOptions) {
     super(options);
-    this.bufferSize = options?.bufferSize ?? 100; // Default: buffer 100 logs
+    this.bufferSize = options?.bufferSize ?? 1; // Default: write immediately
+    this.flushInterval = options?.flushInterval ?? 1000; // Default: at most 1s in memory
+    this.flushOnExit = options?.flushOnExit ?? true;
+    this.maxBufferedBytes = options?.maxBufferedBytes ?? 16 * 1024 * 1024;
+    this.destination = options?.destination ?? process.stdout;
+
+    // Exit hooks are installed with the first buffered line; signal hooks only on request
+    if (this.flushOnExit && options?.flushOnSignal) {
+      installSignalHooks();
+    }
   }
 
   log(entry: LogEntry | string): void {
@@ -30,32 +119,182 @@ export class JsonTransport extends Transport {
     // Guard clause: Convert entry to JSON string (functional approach)
     const json = typeof entry === 'string' ? entry : JSON.stringify(entry); // Fallback for custom transports
 
-    // Guard clause: No buffering (fast path)
-    if (this.bufferSize === 1) {
-      process.stdout.write(`${json}\n`);
+    // Guard clause: No buffering (fast path), unless the destination is applying backpressure
+    if (this.bufferSize === 1 && !this.waitingForDrain) {
+      this.write(`${json}\n`);
+      return;
+    }
+
+    const bytes = Buffer.byteLength(json) + 1;
+
+    // Guard clause: Memory cap reached (e.g. stalled stdout pipe) - drop newest
+    if (this.bufferedBytes + bytes > this.maxBufferedBytes) {
+      this.dropped++;
       return;
     }
 
     // Add to buffer
     this.buffer.push(json);
+    this.bufferedBytes += bytes;
+
+    // Guard clause: First buffered line - arm the interval and exit hooks
+    if (this.buffer.length === 1) {
+      this.armFlushTimer();
+    }
 
     // Guard clause: Buffer full - flush immediately
     if (this.buffer.length >= this.bufferSize) {
-      this.flush();
+      this.flushSync();
+    }
+  }
+
+  /**
+   * Write buffered lines and resolve once the destination has accepted them
+   * (waits for 'drain' while the destination reports backpressure). Resolves early,
+   * dropping what is left, when the destination errors or closes.
+   */
+  async flush(): Promise<void> {
+    this.flushSync();
+
+    while (this.waitingForDrain || this.buffer.length > 0) {
+      // Guard clause: Destination gone - nothing will ever drain
+      if (this.isDestinationClosed() || !(await this.waitForDrain())) {
+        this.discardBuffer();
+        return;
+      }
+      this.flushSync();
     }
   }
 
-  flush(): void {
-    if (this.buffer.length === 0) return;
+  /**
+   * Write buffered lines synchronously (buffer full, flush interval, process exit).
+   * While the destination reports backpressure, lines stay buffered until 'drain'
+   * unless `force` is set (process exit is the last chance to write).
+   */
+  flushSync(force = false): void {
+    this.clearFlushTimer();
+
+    // Guard clause: Nothing buffered, or holding lines until 'drain'
+    if (this.buffer.length === 0 || (this.waitingForDrain && !force)) {
+      return;
+    }
 
     // Write all buffered logs at once (batched for better I/O performance)
     // NOTE: Using process.stdout.write() for Pino-like performance
-    process.stdout.write(`${this.buffer.join('\n')}\n`);
+    const lines = this.buffer.length;
+    const chunk = `${this.buffer.join('\n')}\n`;
     this.buffer = [];
+    this.bufferedBytes = 0;
+    pendingOnExit.delete(this);
+    this.write(chunk, lines);
   }
 
-  override close(): void {
+  override close(): Promise<void> {
     // Flush any remaining logs before closing
-    this.flush();
+    return this.flush();
+  }
+
+  /**
+   * Write a chunk and track backpressure (Single Responsibility).
+   * @private
+   */
+  private write(chunk: string, lines = 1): void {
+    // Guard clause: Writing to an ended or destroyed stream would emit an error
+    if (this.isDestinationClosed()) {
+      this.dropped += lines;
+      return;
+    }
+
+    const accepted = this.destination.write(chunk);
+
+    // Guard clause: Destination still has room
+    if (accepted !== false || this.waitingForDrain) {
+      return;
+    }
+
+    this.waitingForDrain = true;
+    this.destination.once('drain', () => {
+      this.waitingForDrain = false;
+      this.flushSync();
+    });
+  }
+
+  /**
+   * Wait for 'drain'; resolves false when the destination errors or closes first.
+   * @private
+   */
+  private waitForDrain(): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const settle = (drained: boolean) => (): void => {
+        this.destination.removeListener('drain', onDrain);
+        this.destination.removeListener('error', onClose);
+        this.destination.removeListener('close', onClose);
+        resolve(drained);
+      };
+      const onDrain = settle(true);
+      const onClose = settle(false);
+
+      this.destination.once('drain', onDrain);
+      this.destination.once('error', onClose);
+      this.destination.once('close', onClose);
+    });
+  }
+
+  /**
+   * @private
+   */
+  private isDestinationClosed(): boolean {
+    const stream = this.destination as Partial<Writable>;
+    return stream.destroyed === true || stream.writableEnded === true;
+  }
+
+  /**
+   * Drop buffered lines once the destination can no longer take them.
+   * @private
+   */
+  private discardBuffer(): void {
+    this.clearFlushTimer();
+    this.dropped += this.buffer.length;
+    this.buffer = [];
+    this.bufferedBytes = 0;
+    this.waitingForDrain = false;
+    pendingOnExit.delete(this);
+  }
+
+  /**
+   * Start the flush interval and register for exit draining.
+   * @private
+   */
+  private armFlushTimer(): void {
+    if (this.flushOnExit) {
+      installExitHooks();
+      pendingOnExit.add(this);
+    }
+
+    // Guard clause: Interval disabled or already armed
+    if (this.flushInterval <= 0 || this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flushSync();
+    }, this.flushInterval);
+
+    // Never keep the process alive just to flush logs (exit hooks cover shutdown)
+    this.flushTimer.unref();
+  }
+
+  /**
+   * @private
+   */
+  private clearFlushTimer(): void {
+    // Guard clause: No timer armed
+    if (!this.flushTimer) {
+      return;
+    }
+
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
   }
 }
@@ -0,0 +1,404 @@
+/**
+ * OTLP Transport - Exports logs to an OpenTelemetry collector (OTLP/HTTP JSON)
+ *
+ * Maps the JSON lines built by Logger into the OTLP LogRecord data model and
+ * posts batched `ExportLogsServiceRequest` bodies to the collector.
+ *
+ * NOTE: No OpenTelemetry SDK is required; the wire format is built by hand and
+ * sent with the global `fetch` (Node 18+ / Bun).
+ */
+
+import { withoutInstrumentation } from '../instrumentation/suppress';
+import type { LogLevel } from '../levels';
+import { LOG_LEVEL_WEIGHTS } from '../levels';
+import type { LogEntry } from '../types';
+import { parseRetryAfter } from '../utils/retryAfter';
+import { Transport, type TransportOptions } from './Transport';
+
+export interface OtlpTransportOptions extends TransportOptions {
+  /** Collector logs endpoint (default: http://localhost:4318/v1/logs) */
+  endpoint?: string;
+  /** Extra HTTP headers (e.g. authentication) */
+  headers?: Record<string, string>;
+  /** Extra resource attributes added to every batch (e.g. deployment.environment) */
+  resourceAttributes?: Record<string, unknown>;
+  /** Records per request (default: 512) */
+  maxBatchSize?: number;
+  /** Max ms a record waits before its batch is sent (default: 1000) */
+  lingerMs?: number;
+  /** Records kept in memory while the collector is slow; extra records are dropped (default: 10000) */
+  maxQueueSize?: number;
+  /** Retries per batch on network errors and 429/502/503/504 (default: 5) */
+  maxRetries?: number;
+  /** First retry delay, doubled on each attempt (default: 500ms) */
+  retryBackoffMs?: number;
+  /** Upper bound for a single retry delay (default: 30000ms) */
+  maxBackoffMs?: number;
+  /** Per-request timeout (default: 10000ms) */
+  timeoutMs?: number;
+}
+
+/** OTLP AnyValue (JSON encoding) */
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+  | { kvlistValue: { values: OtlpKeyValue[] } };
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OtlpAnyValue;
+  attributes: OtlpKeyValue[];
+  traceId?: string;
+  spanId?: string;
+  flags?: number;
+}
+
+/** Status codes the OTLP spec marks as retryable */
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+
+/** Entry fields with a dedicated place in the LogRecord (not copied to attributes) */
+const RESERVED_FIELDS = new Set([
+  'timestamp',
+  'level',
+  'message',
+  'service',
+  'trace_id',
+  'span_id',
+  'trace_flags',
+]);
+
+const INSTRUMENTATION_SCOPE = '@syntrojs/logger';
+
+/**
+ * Map a LogLevel to an OTLP severity number using LOG_LEVEL_WEIGHTS.
+ * trace(10)→1, debug(20)→5, info(30)→9, warn(40)→13, error(50)→17, fatal(60)→21.
+ */
+export function toSeverityNumber(level: LogLevel): number {
+  const weight = LOG_LEVEL_WEIGHTS[level];
+
+  // Guard clause: Unknown or silent level
+  if (!weight) {
+    return 0;
+  }
+
+  return (weight / 10 - 1) * 4 + 1;
+}
+
+/**
+ * Convert any JSON value to an OTLP AnyValue (recursive, functional approach).
+ */
+export function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  if (value !== null && typeof value === 'object') {
+    return { kvlistValue: { values: toKeyValues(value as Record<string, unknown>) } };
+  }
+  return { stringValue: String(value) };
+}
+
+/**
+ * Convert an object to OTLP key/value attributes, skipping undefined and null.
+ */
+export function toKeyValues(obj: Record<string, unknown>): OtlpKeyValue[] {
+  return Object.keys(obj)
+    .filter((key) => obj[key] !== undefined && obj[key] !== null)
+    .map((key) => ({ key, value: toAnyValue(obj[key]) }));
+}
+
+/**
+ * Map one log entry to an OTLP LogRecord.
+ */
+export function toLogRecord(entry: LogEntry, observedAt = Date.now()): OtlpLogRecord {
+  const timestamp = typeof entry.timestamp === 'number' ? entry.timestamp : observedAt;
+  const attributes = Object.keys(entry)
+    .filter((key) => !RESERVED_FIELDS.has(key))
+    .reduce<Record<string, unknown>>((acc, key) => {
+      acc[key] = entry[key];
+      return acc;
+    }, {});
+
+  const record: OtlpLogRecord = {
+    timeUnixNano: `${timestamp}000000`,
+    observedTimeUnixNano: `${observedAt}000000`,
+    severityNumber: toSeverityNumber(entry.level),
+    severityText: String(entry.level ?? '').toUpperCase(),
+    body: { stringValue: String(entry.message ?? '') },
+    attributes: toKeyValues(attributes),
+  };
+
+  // Guard clause: Attach trace correlation when the entry carries valid W3C ids
+  if (typeof entry.trace_id === 'string' && /^[0-9a-f]{32}$/.test(entry.trace_id)) {
+    record.traceId = entry.trace_id;
+  }
+  if (typeof entry.span_id === 'string' && /^[0-9a-f]{16}$/.test(entry.span_id)) {
+    record.spanId = entry.span_id;
+  }
+  if (typeof entry.trace_flags === 'string' && /^[0-9a-f]{2}$/.test(entry.trace_flags)) {
+    record.flags = Number.parseInt(entry.trace_flags, 16);
+  }
+
+  return record;
+}
+
+/**
+ * Sleep helper for retry backoff.
+ * @private
+ */
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+export class OtlpTransport extends Transport {
+  private readonly endpoint: string;
+  private readonly headers: Record<string, string>;
+  private readonly resourceAttributes: Record<string, unknown>;
+  private readonly maxBatchSize: number;
+  private readonly lingerMs: number;
+  private readonly maxQueueSize: number;
+  private readonly maxRetries: number;
+  private readonly retryBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly timeoutMs: number;
+  private queue: LogEntry[] = [];
+  private lingerTimer?: NodeJS.Timeout;
+  /** Export chain: batches are sent one at a time, in order */
+  private sending: Promise<void> = Promise.resolve();
+  private inFlight = 0;
+  private closed = false;
+  /** Records discarded because the queue was full or retries were exhausted */
+  public dropped = 0;
+
+  constructor(options: OtlpTransportOptions = {}) {
+    super(options);
+    this.endpoint = options.endpoint ?? 'http://localhost:4318/v1/logs';
+    this.headers = options.headers ?? {};
+    this.resourceAttributes = options.resourceAttributes ?? {};
+    this.maxBatchSize = options.maxBatchSize ?? 512;
+    this.lingerMs = options.lingerMs ?? 1000;
+    this.maxQueueSize = options.maxQueueSize ?? 10_000;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.retryBackoffMs = options.retryBackoffMs ?? 500;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30_000;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+
+    // Guard clause: Batch size must be positive
+    if (!(this.maxBatchSize > 0)) {
+      throw new Error(
+        `[OtlpTransport] maxBatchSize must be a positive number, got: ${options.maxBatchSize}`
+      );
+    }
+  }
+
+  log(entry: LogEntry | string): void {
+    // Guard clause: Parse string entry (functional approach)
+    const logEntry = this.parseEntry(entry);
+    if (!logEntry || this.closed) {
+      return;
+    }
+
+    // Guard clause: Level not enabled
+    if (!this.isLevelEnabled(logEntry.level)) {
+      return;
+    }
+
+    // Guard clause: Queue full - drop newest (Silent Observer: never block the app)
+    if (this.queue.length + this.inFlight >= this.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+
+    this.queue.push(logEntry);
+
+    // Guard clause: Full batch - send now
+    if (this.queue.length >= this.maxBatchSize) {
+      this.sendQueued();
+      return;
+    }
+
+    this.armLingerTimer();
+  }
+
+  /**
+   * Send everything queued and resolve once all exports have finished
+   * (successfully or after exhausting retries).
+   */
+  async flush(): Promise<void> {
+    this.sendQueued();
+    await this.sending;
+  }
+
+  /**
+   * Flush remaining records and stop accepting new ones.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.closed = true;
+  }
+
+  /**
+   * Build an `ExportLogsServiceRequest` body, grouping records by service (resource).
+   */
+  buildExportRequest(entries: LogEntry[]): Record<string, unknown> {
+    const observedAt = Date.now();
+    const byService = entries.reduce<Map<string, OtlpLogRecord[]>>((groups, entry) => {
+      const service = String(entry.service ?? 'unknown_service');
+      const records = groups.get(service) ?? [];
+      records.push(toLogRecord(entry, observedAt));
+      groups.set(service, records);
+      return groups;
+    }, new Map());
+
+    return {
+      resourceLogs: Array.from(byService.entries()).map(([service, logRecords]) => ({
+        resource: {
+          attributes: toKeyValues({ ...this.resourceAttributes, 'service.name': service }),
+        },
+        scopeLogs: [{ scope: { name: INSTRUMENTATION_SCOPE }, logRecords }],
+      })),
+    };
+  }
+
+  /**
+   * Move queued records into batches on the export chain (Single Responsibility).
+   * @private
+   */
+  private sendQueued(): void {
+    this.clearLingerTimer();
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.maxBatchSize);
+      this.inFlight += batch.length;
+      this.sending = this.sending.then(() =>
+        this.exportWithRetry(batch).finally(() => {
+          this.inFlight -= batch.length;
+        })
+      );
+    }
+  }
+
+  /**
+   * Post one batch, retrying retryable failures with exponential backoff.
+   * @private
+   */
+  private async exportWithRetry(batch: LogEntry[]): Promise<void> {
+    const body = JSON.stringify(this.buildExportRequest(batch));
+
+    for (let attempt = 0; ; attempt++) {
+      const { ok, retryable, retryAfterMs } = await this.post(body);
+
+      // Guard clause: Delivered
+      if (ok) {
+        return;
+      }
+
+      // Guard clause: Permanent failure or retries exhausted
+      if (!retryable || attempt >= this.maxRetries) {
+        this.dropped += batch.length;
+        console.error(
+          `[OtlpTransport Error] Dropped ${batch.length} log records after ${attempt + 1} attempt(s).`
+        );
+        return;
+      }
+
+      const backoff = Math.min(this.retryBackoffMs * 2 ** attempt, this.maxBackoffMs);
+      await delay(retryAfterMs ?? backoff);
+    }
+  }
+
+  /**
+   * Single POST to the collector; never throws (Silent Observer).
+   * @private
+   */
+  private async post(
+    body: string
+  ): Promise<{ ok: boolean; retryable: boolean; retryAfterMs?: number }> {
+    try {
+      // Not instrumented: the call is log delivery, not application traffic
+      const response = await withoutInstrumentation(() =>
+        fetch(this.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.headers },
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        })
+      );
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      return {
+        ok: response.ok,
+        retryable: RETRYABLE_STATUS.has(response.status),
+        retryAfterMs:
+          retryAfterMs === undefined ? undefined : Math.min(retryAfterMs, this.maxBackoffMs),
+      };
+    } catch {
+      // Network errors and timeouts are retryable
+      return { ok: false, retryable: true };
+    }
+  }
+
+  /**
+   * @private
+   */
+  private armLingerTimer(): void {
+    // Guard clause: Already armed
+    if (this.lingerTimer) {
+      return;
+    }
+
+    this.lingerTimer = setTimeout(() => {
+      this.lingerTimer = undefined;
+      this.sendQueued();
+    }, this.lingerMs);
+    this.lingerTimer.unref();
+  }
+
+  /**
+   * @private
+   */
+  private clearLingerTimer(): void {
+    // Guard clause: No timer armed
+    if (!this.lingerTimer) {
+      return;
+    }
+
+    clearTimeout(this.lingerTimer);
+    this.lingerTimer = undefined;
+  }
+
+  /**
+   * Parse log entry from string or object (Single Responsibility).
+   * Returns null if parsing fails.
+   * @private
+   */
+  private parseEntry(entry: LogEntry | string): LogEntry | null {
+    // Guard clause: Already an object
+    if (typeof entry !== 'string') {
+      return entry;
+    }
+
+    // Guard clause: Try to parse JSON string
+    try {
+      return JSON.parse(entry);
+    } catch {
+      return null;
+    }
+  }
+}
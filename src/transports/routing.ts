@@ -0,0 +1,182 @@
+/**
+ * Routing Transport - Dispatch each log entry only to the destinations whose level range matches
+ *
+ * Unlike CompositeTransport (which fans every entry out and relies on each child to filter),
+ * routes are resolved here: error+fatal to a file, info+ to stdout, debug only to a ring buffer.
+ * The level is read from the prefix Logger writes, so entries are parsed at most once,
+ * and only when a matching route has a `filter`.
+ */
+
+import type { LogLevel } from '../levels';
+import { LOG_LEVEL_WEIGHTS } from '../levels';
+import type { LogEntry } from '../types';
+import type { Transport } from './Transport';
+import { Transport as BaseTransport } from './Transport';
+
+export interface TransportRoute {
+  /** Destination receiving matching entries */
+  transport: Transport;
+  /** Lowest level routed to this destination (inclusive) */
+  minLevel: LogLevel;
+  /** Highest level routed to this destination (inclusive, default: fatal) */
+  maxLevel?: LogLevel;
+  /** Extra predicate on the parsed entry; evaluated only when the level matches */
+  filter?: (entry: LogEntry) => boolean;
+}
+
+/** Route with its level range resolved to weights once, at construction */
+interface CompiledRoute {
+  transport: Transport;
+  min: number;
+  max: number;
+  filter?: (entry: LogEntry) => boolean;
+}
+
+/**
+ * Level as written by Logger's buildBaseJson: `{"timestamp":<n>,"level":"<level>",...`
+ * @private
+ */
+const LEVEL_PREFIX = /^\{"timestamp":\d+,"level":"(\w+)"/;
+
+/**
+ * Validate a level name (Single Responsibility).
+ * @private
+ */
+const assertRouteLevel = (level: unknown, field: string): LogLevel => {
+  // Guard clause: Unknown or silent level
+  if (typeof level !== 'string' || !(level in LOG_LEVEL_WEIGHTS) || level === 'silent') {
+    throw new Error(`[RoutingTransport] Invalid ${field}: "${String(level)}".`);
+  }
+  return level as LogLevel;
+};
+
+export class RoutingTransport extends BaseTransport {
+  private readonly routes: CompiledRoute[];
+
+  constructor(routes: TransportRoute[]) {
+    super({ level: 'trace' }); // Routes decide which levels go where
+
+    // Guard clause: At least one route is required
+    if (!Array.isArray(routes) || routes.length === 0) {
+      throw new Error('[RoutingTransport] At least one route is required.');
+    }
+
+    this.routes = routes.map((route) => this.compileRoute(route));
+  }
+
+  log(entry: LogEntry | string): void {
+    // Parse at most once: objects are used as-is, strings are parsed lazily
+    let parsed: LogEntry | null | undefined = typeof entry === 'string' ? undefined : entry;
+    const parse = (): LogEntry | null => {
+      if (parsed === undefined) {
+        parsed = this.parseEntry(entry as string);
+      }
+      return parsed;
+    };
+
+    const level = typeof entry === 'string' ? this.readLevel(entry, parse) : entry.level;
+    const weight = level ? LOG_LEVEL_WEIGHTS[level] : undefined;
+
+    // Guard clause: Entries without a known level match no route
+    if (!weight) {
+      return;
+    }
+
+    for (const route of this.routes) {
+      // Guard clause: Level outside the route's range
+      if (weight < route.min || weight > route.max) {
+        continue;
+      }
+
+      // Guard clause: Filter rejects the entry (or the entry is not valid JSON)
+      if (route.filter && !this.passesFilter(route, parse())) {
+        continue;
+      }
+
+      this.writeToTransport(route.transport, entry);
+    }
+  }
+
+  async flush(): Promise<void> {
+    await Promise.allSettled(this.routes.map((r) => r.transport.flush?.() || Promise.resolve()));
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled(this.routes.map((r) => r.transport.close?.() || Promise.resolve()));
+  }
+
+  /**
+   * Validate a route and resolve its level range to weights (Single Responsibility).
+   * @private
+   */
+  private compileRoute(route: TransportRoute): CompiledRoute {
+    // Guard clause: Destination is required
+    if (!route?.transport || typeof route.transport.log !== 'function') {
+      throw new Error('[RoutingTransport] Each route needs a transport.');
+    }
+
+    const min = LOG_LEVEL_WEIGHTS[assertRouteLevel(route.minLevel, 'minLevel')];
+    const max = LOG_LEVEL_WEIGHTS[assertRouteLevel(route.maxLevel ?? 'fatal', 'maxLevel')];
+
+    // Guard clause: Empty range
+    if (max < min) {
+      throw new Error(
+        `[RoutingTransport] maxLevel "${route.maxLevel}" is below minLevel "${route.minLevel}".`
+      );
+    }
+
+    return { transport: route.transport, min, max, filter: route.filter };
+  }
+
+  /**
+   * Read the level from Logger's JSON prefix, falling back to a full parse for other producers.
+   * @private
+   */
+  private readLevel(line: string, parse: () => LogEntry | null): LogLevel | undefined {
+    const match = LEVEL_PREFIX.exec(line);
+    return (match?.[1] as LogLevel | undefined) ?? parse()?.level;
+  }
+
+  /**
+   * @private
+   */
+  private parseEntry(line: string): LogEntry | null {
+    try {
+      const value = JSON.parse(line);
+      return value && typeof value === 'object' ? (value as LogEntry) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Run a route filter; a throwing filter skips the route (Silent Observer).
+   * @private
+   */
+  private passesFilter(route: CompiledRoute, entry: LogEntry | null): boolean {
+    // Guard clause: Unparseable entries cannot be filtered
+    if (!entry || !route.filter) {
+      return false;
+    }
+
+    try {
+      return route.filter(entry);
+    } catch (error) {
+      console.error('[RoutingTransport Error] Route filter threw:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Write to a single transport with error handling (Single Responsibility).
+   * @private
+   */
+  private writeToTransport(transport: Transport, entry: LogEntry | string): void {
+    try {
+      transport.log(entry);
+    } catch (error) {
+      // Silent Observer: One transport failure shouldn't affect others
+      console.error('[Transport Error] Failed to write to transport:', error);
+    }
+  }
+}
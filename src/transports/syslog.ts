@@ -0,0 +1,597 @@
+/**
+ * Syslog Transport - Sends logs to a syslog daemon (RFC 5424 / RFC 3164)
+ *
+ * Supports UDP, TCP (RFC 6587 octet-counting framing) and Unix stream sockets.
+ * Stream connections reconnect with exponential backoff; messages logged while
+ * disconnected are queued (bounded) and sent once the connection is back.
+ *
+ * NOTE: Node.js has no Unix *datagram* sockets, so the 'unix' protocol requires a
+ * stream socket (e.g. rsyslog `imuxsock` is datagram-only; use `imptcp`/`imtcp` or a
+ * stream-mode socket instead).
+ */
+
+import { type Socket as DgramSocket, createSocket } from 'node:dgram';
+import { type Socket, connect } from 'node:net';
+import { hostname } from 'node:os';
+import type { LogLevel } from '../levels';
+import type { LogEntry } from '../types';
+import { Transport, type TransportOptions } from './Transport';
+
+export type SyslogProtocol = 'udp' | 'tcp' | 'unix';
+export type SyslogFormat = 'rfc5424' | 'rfc3164';
+export type SyslogFraming = 'octet-counting' | 'newline';
+
+/** Syslog facility codes (RFC 5424 §6.2.1) */
+export const SYSLOG_FACILITIES = {
+  kern: 0,
+  user: 1,
+  mail: 2,
+  daemon: 3,
+  auth: 4,
+  syslog: 5,
+  lpr: 6,
+  news: 7,
+  uucp: 8,
+  cron: 9,
+  authpriv: 10,
+  ftp: 11,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+} as const;
+
+export type SyslogFacility = keyof typeof SYSLOG_FACILITIES;
+
+/** LogLevel → syslog severity (RFC 5424 §6.2.1) */
+export const SYSLOG_SEVERITIES: Record<Exclude<LogLevel, 'silent'>, number> = {
+  fatal: 2, // Critical
+  error: 3, // Error
+  warn: 4, // Warning
+  info: 6, // Informational
+  debug: 7, // Debug
+  trace: 7, // Debug
+};
+
+export interface SyslogTransportOptions extends TransportOptions {
+  /** Transport protocol (default: 'udp') */
+  protocol?: SyslogProtocol;
+  /** Daemon host for udp/tcp (default: 'localhost') */
+  host?: string;
+  /** Daemon port for udp/tcp (default: 514) */
+  port?: number;
+  /** Stream socket path for 'unix' (default: '/dev/log'; a datagram socket there is reported, not retried) */
+  path?: string;
+  /** Message format (default: 'rfc5424') */
+  format?: SyslogFormat;
+  /** Framing for stream protocols (default: 'octet-counting') */
+  framing?: SyslogFraming;
+  /** Facility name or code (default: 'user') */
+  facility?: SyslogFacility | number;
+  /** APP-NAME when the entry has no `service` (default: 'app') */
+  appName?: string;
+  /** HOSTNAME field (default: os.hostname()) */
+  hostname?: string;
+  /** MSGID field (default: '-') */
+  msgId?: string;
+  /** SD-ID used for entry fields in STRUCTURED-DATA (default: 'syntrojs@32473') */
+  sdId?: string;
+  /** UDP messages longer than this are truncated on a UTF-8 character boundary (default: 2048 bytes) */
+  maxMessageSize?: number;
+  /** Messages queued while disconnected; oldest are dropped beyond this (default: 1000) */
+  maxQueueSize?: number;
+  /** First reconnect delay, doubled up to maxReconnectDelayMs (default: 1000ms) */
+  reconnectDelayMs?: number;
+  /** Upper bound for the reconnect delay (default: 30000ms) */
+  maxReconnectDelayMs?: number;
+}
+
+/** Entry fields rendered in the syslog header/MSG instead of STRUCTURED-DATA */
+const HEADER_FIELDS = new Set(['timestamp', 'level', 'message', 'service']);
+
+/**
+ * Connection errors that reconnecting cannot fix, with the hint reported for them
+ * (e.g. /dev/log is a datagram socket on most systems, and Node only opens stream ones)
+ */
+const FATAL_CONNECT_ERRORS: Record<string, string> = {
+  EPROTOTYPE: 'the socket is not a stream socket (datagram sockets are not supported)',
+  ENOTSOCK: 'the path is not a socket',
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Keep only printable US-ASCII without spaces, truncated (RFC 5424 header fields).
+ * @private
+ */
+const toHeaderField = (value: string, maxLength: number): string => {
+  const clean = value.replace(/[^\x21-\x7e]/g, '').slice(0, maxLength);
+  return clean || '-';
+};
+
+/**
+ * Encode a message as UTF-8, cut to at most maxBytes without splitting a multi-byte character.
+ * @private
+ */
+const truncateUtf8 = (message: string, maxBytes: number): Buffer => {
+  const buffer = Buffer.from(message);
+
+  // Guard clause: Fits as is
+  if (buffer.length <= maxBytes) {
+    return buffer;
+  }
+
+  // Step back over continuation bytes (10xxxxxx) to the start of the cut character
+  let end = maxBytes;
+  while (end > 0 && (buffer[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  return buffer.subarray(0, end);
+};
+
+/**
+ * Escape an SD-PARAM value (RFC 5424 §6.3.3: '"', '\' and ']').
+ * @private
+ */
+const escapeParamValue = (value: string): string => value.replace(/["\\\]]/g, '\\$&');
+
+/**
+ * Sanitize an SD-PARAM name (printable ASCII except '=', ' ', ']', '"'; max 32 chars).
+ * @private
+ */
+const toParamName = (key: string): string => key.replace(/[^\x21-\x7e]|[=\]"]/g, '_').slice(0, 32);
+
+export class SyslogTransport extends Transport {
+  private readonly protocol: SyslogProtocol;
+  private readonly host: string;
+  private readonly port: number;
+  private readonly path: string;
+  private readonly format: SyslogFormat;
+  private readonly framing: SyslogFraming;
+  private readonly facility: number;
+  private readonly appName: string;
+  private readonly hostname: string;
+  private readonly msgId: string;
+  private readonly sdId: string;
+  private readonly maxMessageSize: number;
+  private readonly maxQueueSize: number;
+  private readonly reconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+  private udp?: DgramSocket;
+  private socket?: Socket;
+  private connected = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private queue: string[] = [];
+  /** Frames handed to the socket whose write has not completed yet */
+  private inFlight: string[] = [];
+  private pendingSends = 0;
+  private idleWaiters: Array<() => void> = [];
+  private reportedFailure = false;
+  private closed = false;
+  /** Set when the connection failed for good (see FATAL_CONNECT_ERRORS) */
+  private failed = false;
+  /** Messages discarded: queue overflow, unsent on close, or the connection failed for good */
+  public dropped = 0;
+
+  constructor(options: SyslogTransportOptions = {}) {
+    super(options);
+    this.protocol = options.protocol ?? 'udp';
+    this.host = options.host ?? 'localhost';
+    this.port = options.port ?? 514;
+    this.path = options.path ?? '/dev/log';
+    this.format = options.format ?? 'rfc5424';
+    this.framing = options.framing ?? 'octet-counting';
+    this.facility = this.resolveFacility(options.facility ?? 'user');
+    this.appName = options.appName ?? 'app';
+    this.hostname = options.hostname ?? hostname();
+    this.msgId = options.msgId ?? '-';
+    this.sdId = options.sdId ?? 'syntrojs@32473';
+    this.maxMessageSize = options.maxMessageSize ?? 2048;
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30_000;
+
+    // Guard clause: Unknown protocol
+    if (!['udp', 'tcp', 'unix'].includes(this.protocol)) {
+      throw new Error(
+        `[SyslogTransport] Unknown protocol: "${this.protocol}". Use 'udp', 'tcp' or 'unix'.`
+      );
+    }
+
+    // Guard clause: Datagram transport needs no connection
+    if (this.protocol === 'udp') {
+      this.udp = createSocket(this.host.includes(':') ? 'udp6' : 'udp4');
+      this.udp.on('error', (error) => this.reportFailure(error));
+      this.udp.unref();
+      return;
+    }
+
+    this.connect();
+  }
+
+  log(entry: LogEntry | string): void {
+    // Guard clause: Parse string entry (functional approach)
+    const logEntry = this.parseEntry(entry);
+    if (!logEntry || this.closed) {
+      return;
+    }
+
+    // Guard clause: Level not enabled
+    if (!this.isLevelEnabled(logEntry.level)) {
+      return;
+    }
+
+    this.send(this.formatEntry(logEntry));
+  }
+
+  /**
+   * Format an entry as a syslog message (without transport framing).
+   */
+  formatEntry(entry: LogEntry): string {
+    const severity = SYSLOG_SEVERITIES[entry.level as Exclude<LogLevel, 'silent'>] ?? 6;
+    const pri = `<${this.facility * 8 + severity}>`;
+    const date = new Date(typeof entry.timestamp === 'number' ? entry.timestamp : Date.now());
+    const fields = Object.keys(entry).filter(
+      (key) => !HEADER_FIELDS.has(key) && entry[key] !== undefined
+    );
+    const message = String(entry.message ?? '');
+
+    // Guard clause: Legacy BSD format - no STRUCTURED-DATA, fields appended as JSON
+    if (this.format === 'rfc3164') {
+      const tag = toHeaderField(String(entry.service ?? this.appName), 32);
+      const extras =
+        fields.length > 0
+          ? ` ${JSON.stringify(Object.fromEntries(fields.map((key) => [key, entry[key]])))}`
+          : '';
+      return `${pri}${this.formatBsdTimestamp(date)} ${toHeaderField(this.hostname, 255)} ${tag}[${process.pid}]: ${message}${extras}`;
+    }
+
+    const header = [
+      `${pri}1`,
+      Number.isNaN(date.getTime()) ? '-' : date.toISOString(),
+      toHeaderField(this.hostname, 255),
+      toHeaderField(String(entry.service ?? this.appName), 48),
+      String(process.pid),
+      toHeaderField(this.msgId, 32),
+    ].join(' ');
+
+    return `${header} ${this.formatStructuredData(entry, fields)}${message ? ` ${message}` : ''}`;
+  }
+
+  /**
+   * Resolve once every message has been handed to the socket
+   * (queued messages wait for the connection to come back).
+   */
+  flush(): Promise<void> {
+    // Guard clause: Nothing pending
+    if (this.pendingSends === 0 && (!this.hasUnsent() || this.closed)) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      this.idleWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * Stop reconnecting, send what can be sent and release sockets.
+   */
+  async close(): Promise<void> {
+    // Guard clause: Only wait for queued messages while connected
+    if (this.connected || this.protocol === 'udp') {
+      await this.flush();
+    }
+
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.dropQueue();
+    this.notifyIdle();
+
+    if (this.udp) {
+      const udp = this.udp;
+      await new Promise<void>((resolve) => udp.close(() => resolve()));
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      await new Promise<void>((resolve) => {
+        socket.end(() => resolve());
+        socket.once('close', () => resolve());
+      });
+    }
+  }
+
+  /**
+   * Send a formatted message over the configured protocol (Single Responsibility).
+   * @private
+   */
+  private send(message: string): void {
+    // Guard clause: Datagram - one message per packet, truncated to maxMessageSize
+    if (this.udp) {
+      const buffer = truncateUtf8(message, this.maxMessageSize);
+      this.pendingSends++;
+      this.udp.send(buffer, this.port, this.host, (error) => {
+        if (error) this.reportFailure(error);
+        this.onSendComplete();
+      });
+      return;
+    }
+
+    const frame = this.frame(message);
+
+    // Guard clause: Connection failed for good - nothing will ever send it
+    if (this.failed) {
+      this.dropped++;
+      return;
+    }
+
+    // Guard clause: Disconnected - queue (bounded, drop oldest)
+    if (!this.connected || !this.socket) {
+      this.enqueue(frame);
+      return;
+    }
+
+    this.writeFrame(this.socket, frame);
+  }
+
+  /**
+   * Apply RFC 6587 framing for stream protocols.
+   * @private
+   */
+  private frame(message: string): string {
+    return this.framing === 'octet-counting'
+      ? `${Buffer.byteLength(message)} ${message}`
+      : `${message}\n`;
+  }
+
+  /**
+   * Write a frame, tracking it until the write completes so a disconnect can requeue it.
+   * @private
+   */
+  private writeFrame(socket: Socket, frame: string): void {
+    this.pendingSends++;
+    this.inFlight.push(frame);
+    socket.write(frame, (error) => {
+      // Failed writes stay in flight and are requeued when the socket closes
+      if (!error) {
+        const index = this.inFlight.indexOf(frame);
+        if (index !== -1) this.inFlight.splice(index, 1);
+      }
+      this.onSendComplete();
+    });
+  }
+
+  /**
+   * @private
+   */
+  private enqueue(frame: string): void {
+    this.queue.push(frame);
+    if (this.queue.length > this.maxQueueSize) {
+      this.queue.shift();
+      this.dropped++;
+    }
+  }
+
+  /**
+   * Put frames whose write did not complete back at the head of the queue, in order
+   * (bounded, drop oldest). Frames the OS already accepted cannot be recovered.
+   * @private
+   */
+  private requeueInFlight(): void {
+    const lost = this.inFlight;
+    this.inFlight = [];
+
+    // Guard clause: Closed on purpose or failed for good - nothing will resend them
+    if (this.closed || this.failed) {
+      this.dropped += lost.length;
+      return;
+    }
+
+    this.queue = [...lost, ...this.queue];
+    const overflow = this.queue.length - this.maxQueueSize;
+    if (overflow > 0) {
+      this.queue.splice(0, overflow);
+      this.dropped += overflow;
+    }
+  }
+
+  /**
+   * Open a TCP or Unix stream connection; reconnects on failure.
+   * @private
+   */
+  private connect(): void {
+    const socket =
+      this.protocol === 'unix'
+        ? connect({ path: this.path })
+        : connect({ host: this.host, port: this.port });
+    this.socket = socket;
+    socket.unref();
+
+    socket.on('connect', () => {
+      this.connected = true;
+      this.reconnectAttempt = 0;
+      this.reportedFailure = false;
+
+      // Send everything queued while disconnected (in order)
+      const queued = this.queue;
+      this.queue = [];
+      for (const frame of queued) {
+        this.writeFrame(socket, frame);
+      }
+      this.notifyIdle();
+    });
+
+    socket.on('error', (error) => this.onSocketError(error));
+
+    socket.on('close', () => {
+      this.connected = false;
+      this.requeueInFlight();
+      // Guard clause: Closed on purpose, or reconnecting cannot help
+      if (this.closed || this.failed) {
+        return;
+      }
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Report a socket error; errors reconnecting cannot fix stop the transport instead
+   * of queueing (and dropping) silently forever.
+   * @private
+   */
+  private onSocketError(error: NodeJS.ErrnoException): void {
+    const hint = FATAL_CONNECT_ERRORS[error.code ?? ''];
+
+    // Guard clause: Transient - the close handler reconnects
+    if (!hint) {
+      this.reportFailure(error);
+      return;
+    }
+
+    this.failed = true;
+    this.dropQueue();
+    this.notifyIdle();
+    console.error(
+      `[SyslogTransport Error] Cannot log to ${this.path}: ${hint}. Messages are dropped.`,
+      error.message
+    );
+  }
+
+  /**
+   * Count the queued messages as dropped and clear the queue.
+   * @private
+   */
+  private dropQueue(): void {
+    this.dropped += this.queue.length;
+    this.queue = [];
+  }
+
+  /**
+   * Reconnect with exponential backoff.
+   * @private
+   */
+  private scheduleReconnect(): void {
+    const delayMs = Math.min(
+      this.reconnectDelayMs * 2 ** this.reconnectAttempt,
+      this.maxReconnectDelayMs
+    );
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delayMs);
+    this.reconnectTimer.unref();
+  }
+
+  /**
+   * Silent Observer: report the first failure of a streak on stderr, never throw.
+   * @private
+   */
+  private reportFailure(error: Error): void {
+    if (this.reportedFailure) {
+      return;
+    }
+    this.reportedFailure = true;
+    console.error('[SyslogTransport Error] Failed to send log:', error.message);
+  }
+
+  /**
+   * @private
+   */
+  private onSendComplete(): void {
+    this.pendingSends--;
+    this.notifyIdle();
+  }
+
+  /**
+   * Frames queued, or whose write failed and that await requeueing on close.
+   * @private
+   */
+  private hasUnsent(): boolean {
+    return this.queue.length > 0 || this.inFlight.length > 0;
+  }
+
+  /**
+   * Resolve flush() waiters once nothing is pending.
+   * @private
+   */
+  private notifyIdle(): void {
+    // Guard clause: Still busy
+    if (this.pendingSends > 0 || (this.hasUnsent() && !this.closed)) {
+      return;
+    }
+
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  /**
+   * Build STRUCTURED-DATA from non-header entry fields (or NILVALUE).
+   * @private
+   */
+  private formatStructuredData(entry: LogEntry, fields: string[]): string {
+    // Guard clause: No fields
+    if (fields.length === 0) {
+      return '-';
+    }
+
+    const params = fields
+      .map((key) => {
+        const value = entry[key];
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        return `${toParamName(key)}="${escapeParamValue(text)}"`;
+      })
+      .join(' ');
+
+    return `[${this.sdId} ${params}]`;
+  }
+
+  /**
+   * RFC 3164 TIMESTAMP: "Mmm dd hh:mm:ss" (local time, day padded with a space).
+   * @private
+   */
+  private formatBsdTimestamp(date: Date): string {
+    const valid = Number.isNaN(date.getTime()) ? new Date() : date;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const day = String(valid.getDate()).padStart(2, ' ');
+    return `${MONTHS[valid.getMonth()]} ${day} ${pad(valid.getHours())}:${pad(valid.getMinutes())}:${pad(valid.getSeconds())}`;
+  }
+
+  /**
+   * @private
+   */
+  private resolveFacility(facility: SyslogFacility | number): number {
+    const code = typeof facility === 'number' ? facility : SYSLOG_FACILITIES[facility];
+
+    // Guard clause: Unknown facility
+    if (code === undefined || !Number.isInteger(code) || code < 0 || code > 23) {
+      throw new Error(`[SyslogTransport] Unknown facility: "${facility}".`);
+    }
+
+    return code;
+  }
+
+  /**
+   * Parse log entry from string or object (Single Responsibility).
+   * Returns null if parsing fails.
+   * @private
+   */
+  private parseEntry(entry: LogEntry | string): LogEntry | null {
+    // Guard clause: Already an object
+    if (typeof entry !== 'string') {
+      return entry;
+    }
+
+    // Guard clause: Try to parse JSON string
+    try {
+      return JSON.parse(entry);
+    } catch {
+      return null;
+    }
+  }
+}
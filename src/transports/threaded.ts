@@ -0,0 +1,455 @@
+/**
+ * Threaded Transport - Runs any transport inside a worker thread
+ *
+ * The main thread only copies pre-built JSON lines into a shared ring buffer;
+ * the worker drains the buffer and hands each line to the wrapped transport,
+ * so serialization-heavy or blocking I/O never runs on the event loop.
+ *
+ * NOTE: Transport instances cannot cross thread boundaries, so the wrapped
+ * transport is described by a module `target` (plus export name and options)
+ * and constructed inside the worker.
+ */
+
+import { existsSync } from 'node:fs';
+import { extname, isAbsolute, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import type { LogEntry } from '../types';
+import { validatePlainJson } from '../utils/jsonValidation';
+import { Transport, type TransportOptions } from './Transport';
+
+/** What to do when the ring buffer has no room for a new line */
+export type ThreadedOverflowPolicy = 'block' | 'drop-oldest' | 'drop-newest';
+
+export interface ThreadedTransportOptions extends TransportOptions {
+  /**
+   * Transport to run in the worker: a built-in name ('json', 'file', 'pretty',
+   * 'compact', 'classic') or a module path/URL/package name.
+   */
+  target: string | URL;
+  /** Export to construct from the target module (default: 'default') */
+  exportName?: string;
+  /** Plain JSON options passed to the wrapped transport constructor */
+  options?: Record<string, unknown>;
+  /** Ring buffer capacity in bytes (default: 4 MiB) */
+  bufferSize?: number;
+  /** Overflow policy (default: 'block') */
+  overflow?: ThreadedOverflowPolicy;
+  /** Maximum time a 'block' write waits for room before dropping (default: 1000ms) */
+  blockTimeoutMs?: number;
+}
+
+/**
+ * Built-in targets resolve to exports of the builtins worker entry: a sibling of this
+ * module with the same extension (dist/builtins.js when bundled, builtins.ts from source).
+ */
+const BUILTINS_URL = new URL(
+  `./builtins${extname(fileURLToPath(import.meta.url))}`,
+  import.meta.url
+);
+
+const BUILTIN_EXPORTS: Record<string, string> = {
+  json: 'JsonTransport',
+  file: 'FileTransport',
+  pretty: 'PrettyTransport',
+  compact: 'CompactTransport',
+  classic: 'ClassicTransport',
+};
+
+/** Shared memory layout: [write pos, read pos] as BigInt64, then [write seq, read seq] as Int32 */
+const HEADER_BYTES = 32;
+const FRAME_HEADER_BYTES = 4;
+const WRITE = 0;
+const READ = 1;
+
+/**
+ * Worker source (plain JS, evaluated in the worker).
+ * Mirrors the producer's layout: consumes frames, then commits the read position
+ * with a CAS so a frame evicted by a 'drop-oldest' producer is never delivered.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const { sab, capacity, target, exportName, options } = workerData;
+const positions = new BigInt64Array(sab, 0, 2);
+const signals = new Int32Array(sab, 16, 2);
+const data = new Uint8Array(sab, ${HEADER_BYTES}, capacity);
+const decoder = new TextDecoder();
+let transport;
+let stopping = false;
+
+function readAt(pos, length) {
+  const out = new Uint8Array(length);
+  const offset = Number(pos % BigInt(capacity));
+  const first = Math.min(length, capacity - offset);
+  out.set(data.subarray(offset, offset + first));
+  if (first < length) out.set(data.subarray(0, length - first), first);
+  return out;
+}
+
+function drain() {
+  for (;;) {
+    const r = Atomics.load(positions, ${READ});
+    if (r === Atomics.load(positions, ${WRITE})) return;
+    const h = readAt(r, ${FRAME_HEADER_BYTES});
+    const length = (h[0] | (h[1] << 8) | (h[2] << 16) | (h[3] << 24)) >>> 0;
+    if (length > capacity) continue;
+    const bytes = readAt(r + ${FRAME_HEADER_BYTES}n, length);
+    const next = r + BigInt(${FRAME_HEADER_BYTES} + length);
+    if (Atomics.compareExchange(positions, ${READ}, r, next) !== r) continue;
+    Atomics.add(signals, ${READ}, 1);
+    Atomics.notify(signals, ${READ});
+    try {
+      transport.log(decoder.decode(bytes));
+    } catch (error) {
+      console.error('[ThreadedTransport Error] Wrapped transport failed:', error);
+    }
+  }
+}
+
+async function loop() {
+  while (!stopping) {
+    const seq = Atomics.load(signals, ${WRITE});
+    drain();
+    const result = Atomics.waitAsync(signals, ${WRITE}, seq);
+    if (result.async) await result.value;
+  }
+}
+
+async function init() {
+  const mod = await import(target);
+  const Target = mod[exportName] ?? mod.default;
+  if (typeof Target !== 'function') {
+    throw new Error('[ThreadedTransport] Export "' + exportName + '" of ' + target + ' is not a transport class or factory.');
+  }
+  transport = Target.prototype && typeof Target.prototype.log === 'function'
+    ? new Target(options)
+    : await Target(options);
+}
+
+const ready = init();
+
+parentPort.on('message', async (message) => {
+  await ready;
+  drain();
+  if (message.type === 'flush') {
+    await (transport.flush ? transport.flush() : undefined);
+    parentPort.postMessage({ type: 'flushed', id: message.id });
+    return;
+  }
+  if (message.type === 'close') {
+    stopping = true;
+    Atomics.notify(signals, ${WRITE});
+    await (transport.flush ? transport.flush() : undefined);
+    await (transport.close ? transport.close() : undefined);
+    parentPort.postMessage({ type: 'closed', id: message.id });
+    parentPort.close();
+  }
+});
+
+ready.then(loop);
+`;
+
+export class ThreadedTransport extends Transport {
+  private readonly worker: Worker;
+  private readonly positions: BigInt64Array;
+  private readonly signals: Int32Array;
+  private readonly data: Uint8Array;
+  private readonly capacity: number;
+  private readonly overflow: ThreadedOverflowPolicy;
+  private readonly blockTimeoutMs: number;
+  private readonly encoder = new TextEncoder();
+  private readonly frameHeader = new Uint8Array(FRAME_HEADER_BYTES);
+  private readonly pending = new Map<number, () => void>();
+  private nextRequestId = 0;
+  private dead = false;
+  private closing?: Promise<void>;
+  /** Number of lines discarded because the buffer was full or the worker is gone */
+  public dropped = 0;
+
+  constructor(options: ThreadedTransportOptions) {
+    super(options);
+
+    // Guard clause: Target is required
+    if (!options?.target) {
+      throw new Error('[ThreadedTransport] A target transport is required.');
+    }
+
+    // Guard clause: Options must survive structured cloning
+    if (options.options !== undefined) {
+      validatePlainJson(options.options, 'options');
+    }
+
+    this.capacity = options.bufferSize ?? 4 * 1024 * 1024;
+
+    // Guard clause: Buffer must hold at least one small frame
+    if (!Number.isInteger(this.capacity) || this.capacity < 64) {
+      throw new Error(
+        `[ThreadedTransport] bufferSize must be an integer >= 64 bytes, got: ${options.bufferSize}`
+      );
+    }
+
+    this.overflow = options.overflow ?? 'block';
+    this.blockTimeoutMs = options.blockTimeoutMs ?? 1000;
+
+    const sab = new SharedArrayBuffer(HEADER_BYTES + this.capacity);
+    this.positions = new BigInt64Array(sab, 0, 2);
+    this.signals = new Int32Array(sab, 16, 2);
+    this.data = new Uint8Array(sab, HEADER_BYTES, this.capacity);
+
+    const { target, exportName } = this.resolveTarget(options);
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        sab,
+        capacity: this.capacity,
+        target,
+        exportName,
+        options: options.options,
+      },
+    });
+
+    this.worker.on('message', (message: { type: string; id?: number }) => {
+      if (message.id === undefined) return;
+      this.settle(message.id);
+    });
+    this.worker.on('error', (error) => {
+      // Silent Observer: Worker failures never interrupt the app
+      console.error('[ThreadedTransport Error] Worker failed:', error);
+      this.markDead();
+    });
+    this.worker.on('exit', () => this.markDead());
+
+    // Don't keep the process alive just for logging (re-ref'd while a flush/close is pending)
+    this.worker.unref();
+  }
+
+  log(entry: LogEntry | string): void {
+    // Guard clause: Worker gone - nothing will ever drain the buffer
+    if (this.dead || this.closing) {
+      this.dropped++;
+      return;
+    }
+
+    const json = typeof entry === 'string' ? entry : JSON.stringify(entry);
+    const bytes = this.encoder.encode(json);
+    const frameSize = FRAME_HEADER_BYTES + bytes.length;
+
+    // Guard clause: Line larger than the whole buffer, or no room per overflow policy
+    if (frameSize > this.capacity || !this.reserve(frameSize)) {
+      this.dropped++;
+      return;
+    }
+
+    const writePos = Atomics.load(this.positions, WRITE);
+    this.frameHeader[0] = bytes.length & 0xff;
+    this.frameHeader[1] = (bytes.length >>> 8) & 0xff;
+    this.frameHeader[2] = (bytes.length >>> 16) & 0xff;
+    this.frameHeader[3] = (bytes.length >>> 24) & 0xff;
+    this.writeAt(writePos, this.frameHeader);
+    this.writeAt(writePos + BigInt(FRAME_HEADER_BYTES), bytes);
+
+    // Publish the frame, then wake the worker
+    Atomics.store(this.positions, WRITE, writePos + BigInt(frameSize));
+    Atomics.add(this.signals, WRITE, 1);
+    Atomics.notify(this.signals, WRITE);
+  }
+
+  /**
+   * Resolve once the worker has drained the buffer and flushed the wrapped transport.
+   */
+  async flush(): Promise<void> {
+    // Guard clause: Nothing to wait for
+    if (this.dead || this.closing) {
+      await this.closing;
+      return;
+    }
+
+    await this.request('flush');
+  }
+
+  /**
+   * Drain, flush and close the wrapped transport, then stop the worker.
+   */
+  async close(): Promise<void> {
+    // Guard clause: Close already in progress
+    if (this.closing) {
+      return this.closing;
+    }
+
+    this.closing = this.dead
+      ? Promise.resolve()
+      : this.request('close').then(async () => {
+          await this.worker.terminate();
+        });
+
+    return this.closing;
+  }
+
+  /**
+   * Make room for a frame according to the overflow policy (Single Responsibility).
+   * @returns false if the frame must be dropped
+   * @private
+   */
+  private reserve(frameSize: number): boolean {
+    // Guard clause: Enough room already
+    if (this.freeBytes() >= frameSize) {
+      return true;
+    }
+
+    // Functional approach: Dictionary lookup instead of switch
+    const strategies: Record<ThreadedOverflowPolicy, () => boolean> = {
+      'drop-newest': () => false,
+      'drop-oldest': () => this.evictOldest(frameSize),
+      block: () => this.waitForRoom(frameSize),
+    };
+
+    return strategies[this.overflow]();
+  }
+
+  /**
+   * Advance the read position past the oldest frames until the new frame fits.
+   * The CAS races the worker fairly: whoever commits first owns the frame.
+   * @private
+   */
+  private evictOldest(frameSize: number): boolean {
+    while (this.freeBytes() < frameSize) {
+      const readPos = Atomics.load(this.positions, READ);
+      const header = this.readAt(readPos, FRAME_HEADER_BYTES);
+      const length = (header[0] | (header[1] << 8) | (header[2] << 16) | (header[3] << 24)) >>> 0;
+      const next = readPos + BigInt(FRAME_HEADER_BYTES + length);
+
+      if (Atomics.compareExchange(this.positions, READ, readPos, next) === readPos) {
+        this.dropped++;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Block the calling thread until the worker frees enough room or the timeout expires.
+   * @private
+   */
+  private waitForRoom(frameSize: number): boolean {
+    const deadline = Date.now() + this.blockTimeoutMs;
+
+    while (this.freeBytes() < frameSize) {
+      const seq = Atomics.load(this.signals, READ);
+      const remaining = deadline - Date.now();
+
+      // Guard clause: Timed out or worker gone
+      if (remaining <= 0 || this.dead) {
+        return false;
+      }
+
+      // Re-check after loading seq so a notify between the checks isn't missed
+      if (this.freeBytes() >= frameSize) {
+        return true;
+      }
+
+      Atomics.wait(this.signals, READ, seq, remaining);
+    }
+    return true;
+  }
+
+  /**
+   * Bytes currently free in the ring buffer.
+   * @private
+   */
+  private freeBytes(): number {
+    const used = Atomics.load(this.positions, WRITE) - Atomics.load(this.positions, READ);
+    return this.capacity - Number(used);
+  }
+
+  /**
+   * Copy bytes into the ring at a logical position, wrapping at the end.
+   * @private
+   */
+  private writeAt(pos: bigint, bytes: Uint8Array): void {
+    const offset = Number(pos % BigInt(this.capacity));
+    const first = Math.min(bytes.length, this.capacity - offset);
+    this.data.set(bytes.subarray(0, first), offset);
+    if (first < bytes.length) {
+      this.data.set(bytes.subarray(first), 0);
+    }
+  }
+
+  /**
+   * Copy bytes out of the ring at a logical position, wrapping at the end.
+   * @private
+   */
+  private readAt(pos: bigint, length: number): Uint8Array {
+    const out = new Uint8Array(length);
+    const offset = Number(pos % BigInt(this.capacity));
+    const first = Math.min(length, this.capacity - offset);
+    out.set(this.data.subarray(offset, offset + first));
+    if (first < length) {
+      out.set(this.data.subarray(0, length - first), first);
+    }
+    return out;
+  }
+
+  /**
+   * Send a request to the worker and resolve on its reply (or when the worker dies).
+   * @private
+   */
+  private request(type: 'flush' | 'close'): Promise<void> {
+    const id = this.nextRequestId++;
+    return new Promise<void>((resolvePending) => {
+      this.pending.set(id, resolvePending);
+      this.worker.ref();
+      this.worker.postMessage({ type, id });
+    });
+  }
+
+  /**
+   * Resolve a pending request and release the worker ref once none remain.
+   * @private
+   */
+  private settle(id: number): void {
+    this.pending.get(id)?.();
+    this.pending.delete(id);
+    if (this.pending.size === 0) {
+      this.worker.unref();
+    }
+  }
+
+  /**
+   * Mark the worker as gone and release anyone waiting on it.
+   * @private
+   */
+  private markDead(): void {
+    this.dead = true;
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id);
+    }
+  }
+
+  /**
+   * Resolve the target module specifier for the worker (Single Responsibility).
+   * Paths become file URLs; built-in names point at the builtins worker entry.
+   * @private
+   */
+  private resolveTarget(options: ThreadedTransportOptions): {
+    target: string;
+    exportName: string;
+  } {
+    const target = options.target instanceof URL ? options.target.href : options.target;
+    const builtin = BUILTIN_EXPORTS[target];
+
+    // Guard clause: Built-in transport (fail here rather than inside the worker)
+    if (builtin) {
+      if (!existsSync(BUILTINS_URL)) {
+        throw new Error(
+          `[ThreadedTransport] Built-in target "${target}" needs the builtins entry at ${BUILTINS_URL.href}.`
+        );
+      }
+      return { target: BUILTINS_URL.href, exportName: options.exportName ?? builtin };
+    }
+
+    const isPath = target.startsWith('.') || isAbsolute(target);
+    return {
+      target: isPath ? pathToFileURL(resolve(target)).href : target,
+      exportName: options.exportName ?? 'default',
+    };
+  }
+}
@@ -70,7 +70,12 @@ export function validatePlainJson(data: unknown, path = 'root'): void {
       }
 
       // Guard clause: Check for class instances (code injection risk)
-      if (typeof value === 'object' && value !== null && value.constructor !== Object) {
+      if (
+        typeof value === 'object' &&
+        value !== null &&
+        value.constructor !== Object &&
+        !Array.isArray(value)
+      ) {
         throw new Error(
           `[JSON Validation] Class instance found at ${path}.${key}. JSON configuration must be plain objects only (no class instances).`
         );
@@ -0,0 +1,24 @@
+/**
+ * Retry-After Utility
+ *
+ * Parses the `Retry-After` response header shared by the HTTP-based transports.
+ * Supports both forms from RFC 9110: delta-seconds and HTTP-date.
+ */
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  // Guard clause: Header missing
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -16,7 +16,8 @@ export interface SerializableValue {
 function _serialize(obj: unknown, seen: WeakSet<object>): JsonValue {
   // --- Paso 1: Manejar null/undefined y primitivos ---
   if (obj === null || obj === undefined || typeof obj !== 'object') {
-    return obj;
+    // BigInt has no JSON form - keep its digits as a string
+    return (typeof obj === 'bigint' ? obj.toString() : obj) as JsonValue;
   }
 
   // --- Paso 2: Manejar Clases Especiales (no circulares) ---
@@ -31,39 +32,26 @@ function _serialize(obj: unknown, seen: WeakSet<object>): JsonValue {
     return { source: obj.source, flags: obj.flags };
   }
 
-  // Handle Error objects
-  if (obj instanceof Error) {
-    const error: SerializableValue = {
-      message: obj.message,
-      name: obj.name,
-      stack: obj.stack,
-    };
-
-    // Add custom properties (functional approach - preserves immutability)
-    // Optimization: Create exclusion Set for O(1) lookups
-    const excludedProps = new Set(['message', 'name', 'stack']);
-    const props = Object.getOwnPropertyNames(obj);
-    const customProps = props
-      .filter((prop) => !excludedProps.has(prop))
-      .reduce<Record<string, unknown>>((acc, prop) => {
-        acc[prop] = _serialize((obj as any)[prop], seen);
-        return acc;
-      }, {});
-
-    return { ...error, ...customProps };
-  }
-
   // --- Paso 3: Manejar Referencias Circulares (solo objetos que se agregan a WeakSet) ---
   if (seen.has(obj)) {
     return '[Circular]';
   }
   seen.add(obj);
 
+  // Handle Error objects (after the circularity check: cause chains can loop)
+  if (obj instanceof Error) {
+    try {
+      return serializeError(obj, seen);
+    } finally {
+      seen.delete(obj);
+    }
+  }
+
   // --- Paso 4: Manejar Arrays ---
   if (Array.isArray(obj)) {
     try {
       // Propagar el WeakSet
-      return obj.map((item) => _serialize(item, seen));
+      return obj.map((item) => _serialize(item, seen)) as JsonValue;
     } catch {
       return '[Circular]';
     } finally {
@@ -89,6 +77,36 @@ function _serialize(obj: unknown, seen: WeakSet<object>): JsonValue {
   return result;
 }
 
+/**
+ * Serialize an Error: name, message, stack, then every own property.
+ * Own properties include `cause` (ES2022) and `AggregateError.errors`, which recurse
+ * through _serialize so nested errors and cause chains are expanded too.
+ */
+function serializeError(error: Error, seen: WeakSet<object>): JsonValue {
+  const result: SerializableValue = {
+    message: error.message,
+    name: error.name,
+    stack: error.stack,
+  };
+
+  // Add custom properties (code, status, cause, errors...)
+  // Optimization: Create exclusion Set for O(1) lookups
+  const excludedProps = new Set(['message', 'name', 'stack']);
+  const record = error as unknown as Record<string, unknown>;
+  for (const prop of Object.getOwnPropertyNames(error)) {
+    if (excludedProps.has(prop)) {
+      continue;
+    }
+    try {
+      result[prop] = _serialize(record[prop], seen);
+    } catch {
+      result[prop] = '[Unable to serialize]';
+    }
+  }
+
+  return result;
+}
+
 /**
  * Serialize complex objects to plain objects
  * Handles Errors, Dates, circular references, etc.
@@ -96,11 +114,55 @@ function _serialize(obj: unknown, seen: WeakSet<object>): JsonValue {
 export function serialize(obj: unknown): JsonValue {
   // Punto de entrada: inicializa el WeakSet si es un objeto
   if (typeof obj !== 'object' || obj === null) {
-    return obj;
+    return (typeof obj === 'bigint' ? obj.toString() : obj) as JsonValue;
   }
   return _serialize(obj, new WeakSet<object>());
 }
 
+/**
+ * JSON.stringify replacer that expands Error instances found at any depth.
+ * Plain JSON.stringify turns an Error into `{}`, losing its stack, cause and custom fields,
+ * and throws on BigInt, which is written as a string instead.
+ */
+export function errorReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value instanceof Error ? serialize(value) : value;
+}
+
+/**
+ * Replace Error instances nested in plain objects and arrays with their serialized form.
+ * Everything else is returned untouched, so later stages (sanitization, masking)
+ * see the same values they would have seen, plus the error fields as plain data.
+ */
+export function serializeErrors(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  // Guard clause: Error - expand it
+  if (value instanceof Error) {
+    return serialize(value);
+  }
+
+  // Guard clause: Primitives, class instances and already-visited objects are kept as-is
+  const isContainer =
+    Array.isArray(value) ||
+    (typeof value === 'object' && value !== null && value.constructor === Object);
+  if (!isContainer || seen.has(value as object)) {
+    return value;
+  }
+
+  seen.add(value as object);
+  const result = Array.isArray(value)
+    ? value.map((item) => serializeErrors(item, seen))
+    : Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          serializeErrors(item, seen),
+        ])
+      );
+  seen.delete(value as object);
+  return result;
+}
+
 /**
  * Safely stringify objects, handling circular references
  */
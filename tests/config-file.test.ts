@@ -0,0 +1,212 @@
+/**
+ * Tests for configureFromFile
+ * Tests for JSON/YAML loading, validation, safe reload diffs, atomic rejection and watching
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loggerRegistry } from '../src/LoggerRegistry';
+import { type ConfigFileHandle, configureFromFile, readConfigFile } from '../src/config';
+import type { LoggerConfigFile } from '../src/config';
+
+describe('configureFromFile', () => {
+  let dir = '';
+  let handle: ConfigFileHandle | undefined;
+
+  const write = (name: string, content: unknown) =>
+    writeFile(
+      join(dir, name),
+      typeof content === 'string' ? content : JSON.stringify(content, null, 2)
+    );
+
+  /** Flush a registry logger and read the JSON lines of its file transport */
+  const readLines = async (name: string, file: string) => {
+    await loggerRegistry.getLogger(name).flush();
+    const text = await readFile(join(dir, file), 'utf8').catch(() => '');
+    return text
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  };
+
+  const baseConfig = (): LoggerConfigFile => ({
+    loggers: {
+      app: {
+        level: 'info',
+        transport: { type: 'file', options: { path: join(dir, 'app.log') } },
+        masking: {
+          enableDefaultRules: false,
+          rules: [{ pattern: 'iban', strategy: 'token' }],
+          valueDetectors: ['creditCard'],
+        },
+      },
+      'app.db': { level: 'warn' },
+    },
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'syntrojs-config-'));
+    loggerRegistry.clear();
+  });
+
+  afterEach(async () => {
+    handle?.close();
+    handle = undefined;
+    for (const logger of Object.values(loggerRegistry.getAllLoggers())) {
+      await logger.close();
+    }
+    loggerRegistry.clear();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should build the registry from a JSON file with inherited settings', async () => {
+    await write('loggers.json', baseConfig());
+    handle = await configureFromFile(join(dir, 'loggers.json'));
+
+    expect(loggerRegistry.getLoggerNames().sort()).toEqual(['app', 'app.db']);
+    const pool = loggerRegistry.getLogger('app.db.pool');
+    pool.info('filtered');
+    pool.warn({ iban: 'DE89370400440532013000', note: 'card 4111111111111111' }, 'pool exhausted');
+
+    expect(pool.level).toBe('warn');
+    const lines = await readLines('app.db.pool', 'app.log');
+    expect(lines).toHaveLength(1);
+    expect(lines[0].message).toBe('pool exhausted');
+    expect(lines[0].iban).not.toBe('DE89370400440532013000');
+    expect(lines[0].note).toBe('card ************1111');
+  });
+
+  it('should load YAML files', async () => {
+    await write(
+      'loggers.yaml',
+      [
+        'loggers:',
+        '  app:',
+        '    level: debug',
+        '    transport: json',
+        '    loggingMatrix:',
+        '      default: [correlationId]',
+        '  app.http:',
+        '    level: error',
+      ].join('\n')
+    );
+    handle = await configureFromFile(join(dir, 'loggers.yaml'));
+
+    expect(handle.config.loggers.app.loggingMatrix).toEqual({ default: ['correlationId'] });
+    expect(loggerRegistry.getLogger('app').level).toBe('debug');
+    expect(loggerRegistry.getLogger('app.http.client').level).toBe('error');
+  });
+
+  it('should report invalid files with the offending path', async () => {
+    const cases: [unknown, string][] = [
+      [{}, 'Expected an object with a "loggers" object'],
+      [{ loggers: { app: { levle: 'info' } } }, 'loggers.app: unknown key "levle"'],
+      [{ loggers: { app: { level: 'verbose' } } }, 'unknown log level "verbose"'],
+      [{ loggers: { 'app..db': {} } }, 'Invalid logger name "app..db"'],
+      [{ loggers: { app: { transport: 'kafka' } } }, 'unknown transport type "kafka"'],
+      [
+        { loggers: { app: { masking: { rules: [{ pattern: 'x', strategy: 'custom' }] } } } },
+        'loggers.app.masking.rules[0]: unknown strategy "custom"',
+      ],
+      [{ loggers: { app: { loggingMatrix: { info: 'userId' } } } }, 'must be an array'],
+      [
+        { loggers: { app: { masking: { valueDetectors: ['creditCard', 'ssn'] } } } },
+        'unknown value detector "ssn"',
+      ],
+      [
+        {
+          loggers: {
+            app: {
+              masking: { rules: [{ pattern: 'x', strategy: 'pseudonymize', pseudonymize: 8 }] },
+            },
+          },
+        },
+        'rules[0].pseudonymize must be an object',
+      ],
+      [
+        { loggers: { app: { masking: { presets: ['gdpr@2'] } } } },
+        'loggers.app.masking.presets: [MaskingPresets] Unknown version "gdpr@2"',
+      ],
+    ];
+
+    for (const [content, message] of cases) {
+      await write('bad.json', content);
+      await expect(readConfigFile(join(dir, 'bad.json'))).rejects.toThrow(message);
+    }
+    await write('loggers.toml', '');
+    await expect(configureFromFile(join(dir, 'loggers.toml'))).rejects.toThrow(
+      'Unsupported file type'
+    );
+  });
+
+  it('should apply level, transport and added masking rules on reload', async () => {
+    await write('loggers.json', baseConfig());
+    handle = await configureFromFile(join(dir, 'loggers.json'));
+    const child = loggerRegistry.getLogger('app.db').child({ requestId: 'r-1' });
+
+    const next = baseConfig();
+    next.loggers['app.db'].level = 'debug';
+    next.loggers.app.transport = { type: 'file', options: { path: join(dir, 'next.log') } };
+    next.loggers.app.masking?.rules?.push({ pattern: 'swift', strategy: 'password' });
+    await write('loggers.json', next);
+    await handle.reload();
+
+    child.debug({ iban: 'DE89370400440532013000', swift: 'DEUTDEFF' }, 'after reload');
+    const [line] = await readLines('app.db', 'next.log');
+    expect(child.level).toBe('debug');
+    expect(line.message).toBe('after reload');
+    expect(line.iban).not.toBe('DE89370400440532013000');
+    expect(line.swift).not.toBe('DEUTDEFF');
+    expect(await readLines('app.db', 'app.log')).toHaveLength(0);
+    expect(handle.config).toEqual(next);
+  });
+
+  it('should reject unsafe or invalid reloads as a whole', async () => {
+    await write('loggers.json', baseConfig());
+    handle = await configureFromFile(join(dir, 'loggers.json'));
+    const before = handle.config;
+
+    const removedRule = baseConfig();
+    removedRule.loggers['app.db'].level = 'trace';
+    removedRule.loggers.app.masking = { enableDefaultRules: false, valueDetectors: ['creditCard'] };
+    await write('loggers.json', removedRule);
+    await expect(handle.reload()).rejects.toThrow('masking rules can only be added');
+
+    const badTransport = baseConfig();
+    badTransport.loggers['app.db'] = { level: 'trace', transport: 'http' };
+    await write('loggers.json', badTransport);
+    await expect(handle.reload()).rejects.toThrow('Cannot create "http" transport for "app.db"');
+
+    const { 'app.db': _removed, ...withoutDb } = baseConfig().loggers;
+    await write('loggers.json', { loggers: withoutDb });
+    await expect(handle.reload()).rejects.toThrow('the logger cannot be removed');
+
+    expect(loggerRegistry.getLogger('app.db').level).toBe('warn');
+    expect(handle.config).toBe(before);
+  });
+
+  it('should reload on change when watching and report rejected reloads', async () => {
+    await write('loggers.json', baseConfig());
+    const onReload = vi.fn();
+    const onError = vi.fn();
+    handle = await configureFromFile(join(dir, 'loggers.json'), {
+      watch: true,
+      debounceMs: 20,
+      onReload,
+      onError,
+    });
+
+    const next = baseConfig();
+    next.loggers['app.db'].level = 'error';
+    await write('loggers.json', next);
+    await vi.waitFor(() => expect(onReload).toHaveBeenCalled(), { timeout: 3000 });
+    expect(loggerRegistry.getLogger('app.db').level).toBe('error');
+
+    await write('loggers.json', '{ not json');
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled(), { timeout: 3000 });
+    expect(loggerRegistry.getLogger('app.db').level).toBe('error');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for AsyncContext.inject / extract
+ * Tests for header, Kafka and postMessage codecs, key allowlists and worker_threads round trips
+ */
+
+import { Worker } from 'node:worker_threads';
+import { describe, expect, it } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext, TRACE_CONTEXT_KEY } from '../src/context/Context';
+import {
+  CONTEXT_MESSAGE_FIELD,
+  type ContextCodec,
+  type KafkaHeadersCarrier,
+  type MessageCarrier,
+  kafkaHeadersCodec,
+  messageCodec,
+} from '../src/context/ContextCodecs';
+import type { TraceContext } from '../src/context/TraceContext';
+import { ArrayTransport } from '../src/transports/array';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+/** Worker that sends back every message it receives (structured clone round trip) */
+const ECHO_WORKER = `
+  const { parentPort } = require('node:worker_threads');
+  parentPort.on('message', (message) => parentPort.postMessage(message));
+`;
+
+describe('Context propagation', () => {
+  const producerContext = {
+    correlationId: 'req-1',
+    tenantId: 't-9',
+    userId: 42,
+    internal: 'do-not-ship',
+  };
+
+  describe('inject', () => {
+    it('should write the correlation ID, allowlisted keys and a child span', () => {
+      const headers = AsyncContext.run(() => {
+        AsyncContext.startTrace({ traceparent: TRACEPARENT, tracestate: 'a=1' });
+        return AsyncContext.inject({}, { keys: ['tenantId', 'userId', 'missing'] });
+      }, producerContext);
+
+      expect(headers).toMatchObject({
+        correlationId: 'req-1',
+        tenantId: 't-9',
+        userId: '42',
+        tracestate: 'a=1',
+      });
+      expect(headers.traceparent).toMatch(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/);
+      expect(headers).not.toHaveProperty('internal');
+      expect(headers).not.toHaveProperty('missing');
+    });
+
+    it('should ship only the correlation ID by default, and nothing outside a context', () => {
+      const headers = AsyncContext.run(
+        () => AsyncContext.inject({ existing: 'kept' }, { trace: false }),
+        producerContext
+      );
+
+      expect(headers).toEqual({ existing: 'kept', correlationId: 'req-1' });
+      expect(AsyncContext.inject({})).toEqual({});
+    });
+  });
+
+  describe('extract', () => {
+    it('should resume the producer context on the consumer side', () => {
+      const headers = AsyncContext.run(() => {
+        AsyncContext.startTrace({ traceparent: TRACEPARENT });
+        return AsyncContext.inject({}, { keys: ['tenantId'] });
+      }, producerContext);
+
+      AsyncContext.runWithExtracted(
+        headers,
+        () => {
+          expect(AsyncContext.getCorrelationId()).toBe('req-1');
+          expect(AsyncContext.get('tenantId')).toBe('t-9');
+          const trace = AsyncContext.getTraceContext();
+          expect(trace?.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+          expect(trace?.parentSpanId).toBe(parseSpanId(headers.traceparent));
+        },
+        { keys: ['tenantId'] }
+      );
+    });
+
+    it('should read only allowlisted keys and ignore invalid trace headers', () => {
+      const data = AsyncContext.extract(
+        { CorrelationId: 'ignored-case', correlationid: 'req-2', secret: 's', traceparent: 'bad' },
+        { keys: ['tenantId'] }
+      );
+
+      expect(data).toEqual({ correlationId: 'req-2' });
+      expect(AsyncContext.extract(undefined as never)).toEqual({});
+    });
+
+    it('should log with the extracted context', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('consumer', transport, 'info');
+
+      AsyncContext.runWithExtracted({ correlationId: 'req-3', traceparent: TRACEPARENT }, () =>
+        logger.info('handled message')
+      );
+
+      const log = transport.getLastEntry();
+      expect(log?.correlationId).toBe('req-3');
+      expect(log?.trace_id).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    });
+  });
+
+  describe('Codecs', () => {
+    it('should round-trip Kafka-style byte headers', () => {
+      const headers = AsyncContext.run(
+        () =>
+          AsyncContext.inject<KafkaHeadersCarrier>(
+            {},
+            { codec: kafkaHeadersCodec, keys: ['tenantId'] }
+          ),
+        producerContext
+      );
+
+      expect(Buffer.isBuffer(headers.correlationId)).toBe(true);
+
+      // Consumers may receive strings, Buffers or repeated headers
+      const received: KafkaHeadersCarrier = {
+        ...headers,
+        tenantId: [Buffer.from('t-9'), Buffer.from('t-other')],
+      };
+      expect(
+        AsyncContext.extract(received, { codec: kafkaHeadersCodec, keys: ['tenantId'] })
+      ).toEqual({ correlationId: 'req-1', tenantId: 't-9' });
+    });
+
+    it('should round-trip postMessage payloads through a worker thread', async () => {
+      const worker = new Worker(ECHO_WORKER, { eval: true });
+
+      try {
+        const message = AsyncContext.run(() => {
+          AsyncContext.startTrace();
+          return AsyncContext.inject<MessageCarrier>(
+            { task: 'resize', size: 3 },
+            { codec: messageCodec, keys: ['userId'] }
+          );
+        }, producerContext);
+
+        const echoed = await new Promise<MessageCarrier>((resolve) => {
+          worker.once('message', resolve);
+          worker.postMessage(message);
+        });
+
+        expect(echoed.task).toBe('resize');
+        expect(echoed[CONTEXT_MESSAGE_FIELD]).toMatchObject({
+          correlationId: 'req-1',
+          userId: '42',
+        });
+
+        AsyncContext.runWithExtracted(
+          echoed,
+          () => {
+            expect(AsyncContext.getCorrelationId()).toBe('req-1');
+            expect(AsyncContext.get('userId')).toBe('42');
+            expect(AsyncContext.get(TRACE_CONTEXT_KEY)).toBeDefined();
+          },
+          { codec: messageCodec, keys: ['userId'] }
+        );
+      } finally {
+        await worker.terminate();
+      }
+    });
+
+    it('should accept custom codecs', () => {
+      const entries = new Map<string, string>();
+      const mapCodec: ContextCodec<Map<string, string>> = {
+        set: (carrier, key, value) => carrier.set(`ctx-${key}`, value),
+        get: (carrier, key) => carrier.get(`ctx-${key}`),
+      };
+
+      AsyncContext.run(
+        () => AsyncContext.inject(entries, { codec: mapCodec, trace: false }),
+        producerContext
+      );
+
+      expect([...entries]).toEqual([['ctx-correlationId', 'req-1']]);
+      expect(AsyncContext.extract(entries, { codec: mapCodec })).toEqual({
+        correlationId: 'req-1',
+      });
+    });
+  });
+});
+
+/** Span id of a traceparent header */
+function parseSpanId(traceparent: unknown): TraceContext['spanId'] {
+  return String(traceparent).split('-')[2];
+}
@@ -3,8 +3,11 @@
  * Tests for context propagation across async operations
  */
 
+import { setTimeout as sleep } from 'node:timers/promises';
 import { beforeEach, describe, expect, it } from 'vitest';
+import { Logger } from '../src/Logger';
 import { AsyncContext } from '../src/context/Context';
+import { ArrayTransport } from '../src/transports/array';
 
 describe('AsyncContext', () => {
   beforeEach(() => {
@@ -237,4 +240,133 @@ describe('AsyncContext', () => {
       expect(inner).toBe('inner');
     });
   });
+
+  describe('runChild (inherited contexts)', () => {
+    it('should inherit parent keys and layer new ones on top', () => {
+      AsyncContext.run(
+        () => {
+          AsyncContext.runChild(
+            () => {
+              expect(AsyncContext.getAll()).toEqual({
+                correlationId: 'req-1',
+                userId: 42,
+                step: 'payment',
+              });
+            },
+            { userId: 42, step: 'payment' }
+          );
+        },
+        { correlationId: 'req-1', userId: 1 }
+      );
+    });
+
+    it('should not leak child writes to the parent, nor later parent writes to the child', () => {
+      AsyncContext.run(
+        () => {
+          AsyncContext.runChild(() => {
+            AsyncContext.set('childOnly', true);
+            AsyncContext.set('shared', 'child');
+            expect(AsyncContext.get('shared')).toBe('child');
+          });
+
+          expect(AsyncContext.get('childOnly')).toBeUndefined();
+          expect(AsyncContext.get('shared')).toBe('parent');
+
+          AsyncContext.runChild(() => {
+            AsyncContext.runChild(() => {
+              AsyncContext.clear();
+              expect(AsyncContext.getAll()).toEqual({});
+            });
+            expect(AsyncContext.get('shared')).toBe('parent');
+          });
+          expect(AsyncContext.get('shared')).toBe('parent');
+        },
+        { shared: 'parent' }
+      );
+    });
+
+    it('should keep the parent correlationId instead of generating a new one', () => {
+      AsyncContext.run(() => {
+        const parentId = AsyncContext.getCorrelationId();
+
+        AsyncContext.runChild(() => {
+          expect(AsyncContext.getCorrelationId()).toBe(parentId);
+        });
+      });
+
+      // Generated in the child only: not visible to the parent
+      AsyncContext.run(() => {
+        const childId = AsyncContext.runChild(() => AsyncContext.getCorrelationId());
+        expect(AsyncContext.get('correlationId')).toBeUndefined();
+        expect(childId).toBeTruthy();
+      });
+    });
+
+    it('should behave like run() without a parent context', () => {
+      expect(AsyncContext.runChild(() => AsyncContext.getAll(), { a: 1 })).toEqual({ a: 1 });
+    });
+
+    it('should isolate interleaved concurrent children', async () => {
+      const seen: Record<string, unknown>[] = [];
+
+      await AsyncContext.runAsync(
+        async () => {
+          await Promise.all(
+            [30, 10, 20].map((delay, index) =>
+              AsyncContext.runChildAsync(
+                async () => {
+                  AsyncContext.set('attempt', index);
+                  await sleep(delay);
+                  AsyncContext.set('after', delay);
+                  await sleep(30 - delay);
+                  seen.push(AsyncContext.getAll());
+                },
+                { task: `t${index}` }
+              )
+            )
+          );
+
+          expect(AsyncContext.getAll()).toEqual({ correlationId: 'req-9' });
+        },
+        { correlationId: 'req-9' }
+      );
+
+      expect(seen.sort((a, b) => Number(a.attempt) - Number(b.attempt))).toEqual([
+        { correlationId: 'req-9', task: 't0', attempt: 0, after: 30 },
+        { correlationId: 'req-9', task: 't1', attempt: 1, after: 10 },
+        { correlationId: 'req-9', task: 't2', attempt: 2, after: 20 },
+      ]);
+    });
+
+    it('should log the merged view', async () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('app', transport, 'info');
+
+      await AsyncContext.runAsync(
+        async () => {
+          await Promise.all(
+            ['a', 'b'].map((job) =>
+              AsyncContext.runChildAsync(
+                async () => {
+                  await sleep(job === 'a' ? 10 : 0);
+                  logger.info('job done');
+                },
+                { job }
+              )
+            )
+          );
+          logger.info('request done');
+        },
+        { correlationId: 'req-2' }
+      );
+
+      expect(
+        transport.getParsedEntries().map(({ correlationId, job }) => ({ correlationId, job }))
+      ).toEqual([
+        { correlationId: 'req-2', job: 'b' },
+        { correlationId: 'req-2', job: 'a' },
+        { correlationId: 'req-2', job: undefined },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,94 @@
+/**
+ * Tests for environment-driven log levels
+ * Tests for LOG_LEVEL, LOG_LEVELS and DEBUG parsing, glob matching, warnings and reloads
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loggerRegistry } from '../src/LoggerRegistry';
+import { getEnvLevel, loadEnvLevels, parseEnvLevels } from '../src/envLevels';
+import { createLogger } from '../src/index';
+import { ArrayTransport } from '../src/transports/array';
+
+describe('Environment log levels', () => {
+  afterEach(() => {
+    loadEnvLevels({});
+    loggerRegistry.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('should apply LOG_LEVEL to every logger name', () => {
+    const config = parseEnvLevels({ LOG_LEVEL: ' WARN ' });
+
+    expect(getEnvLevel('app', config)).toBe('warn');
+    expect(getEnvLevel('app.db.pool', config)).toBe('warn');
+  });
+
+  it('should match LOG_LEVELS globs against logger names, last rule winning', () => {
+    const config = parseEnvLevels({
+      LOG_LEVEL: 'error',
+      LOG_LEVELS: 'app.db=debug, app.http.*=trace,-app.noisy,app.db.pool,app.*.cache=info',
+    });
+
+    expect(getEnvLevel('app.db', config)).toBe('debug');
+    expect(getEnvLevel('app.db.pool', config)).toBe('debug');
+    expect(getEnvLevel('app.db.replica', config)).toBe('error');
+    expect(getEnvLevel('app.http.client', config)).toBe('trace');
+    expect(getEnvLevel('app.http.client.retry', config)).toBe('trace');
+    expect(getEnvLevel('app.http', config)).toBe('error');
+    expect(getEnvLevel('app.noisy', config)).toBe('silent');
+    expect(getEnvLevel('app.http.cache', config)).toBe('info');
+  });
+
+  it('should support DEBUG syntax with ":" separators and exclusions', () => {
+    const config = parseEnvLevels({ DEBUG: 'app:* -app:db:pool', LOG_LEVELS: 'app.http=warn' });
+
+    expect(getEnvLevel('app.db', config)).toBe('debug');
+    expect(getEnvLevel('app:queue', config)).toBe('debug');
+    expect(getEnvLevel('app.db.pool', config)).toBeUndefined();
+    expect(getEnvLevel('app.http', config)).toBe('warn');
+    expect(getEnvLevel('other', config)).toBeUndefined();
+    expect(getEnvLevel('app.db', parseEnvLevels({ DEBUG: '*', LOG_LEVEL: 'trace' }))).toBe('trace');
+  });
+
+  it('should warn about unknown levels and malformed rules instead of falling back silently', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const config = parseEnvLevels({
+      LOG_LEVEL: 'verbose',
+      LOG_LEVELS: 'app.db=loud,=debug,app.http=trace',
+    });
+
+    expect(config.defaultLevel).toBeUndefined();
+    expect(config.rules.map((rule) => rule.pattern)).toEqual(['app.http']);
+    expect(warn).toHaveBeenCalledTimes(3);
+    expect(warn.mock.calls[0][0]).toContain('Unknown log level "verbose" in LOG_LEVEL');
+    expect(warn.mock.calls[1][0]).toContain('"app.db=loud"');
+    expect(warn.mock.calls[2][0]).toContain('missing logger name pattern');
+  });
+
+  it('should take precedence over levels set in createLogger and the registry', () => {
+    loadEnvLevels({ LOG_LEVELS: 'api=debug,app.db.*=trace' });
+    loggerRegistry.configure('app', { level: 'warn' });
+
+    expect(createLogger({ name: 'api', level: 'error' }).level).toBe('debug');
+    expect(createLogger({ name: 'worker', level: 'error' }).level).toBe('error');
+    expect(loggerRegistry.getLogger('app.db.pool').level).toBe('trace');
+    expect(loggerRegistry.getLogger('app.http').level).toBe('warn');
+  });
+
+  it('should re-apply levels to registered loggers and their children on reload', () => {
+    const transport = new ArrayTransport();
+    loggerRegistry.configure('app', { level: 'info', transport });
+    const pool = loggerRegistry.getLogger('app.db.pool');
+    const child = pool.child({ requestId: 'r-1' });
+
+    loggerRegistry.reloadEnvLevels({ DEBUG: 'app:db:*' });
+    child.debug('visible');
+    expect(pool.level).toBe('debug');
+
+    loggerRegistry.reloadEnvLevels({});
+    child.debug('hidden');
+    expect(child.level).toBe('info');
+    expect(transport.getParsedEntries().map((entry) => entry.message)).toEqual(['visible']);
+  });
+});
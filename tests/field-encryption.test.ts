@@ -0,0 +1,185 @@
+/**
+ * Tests for the ENCRYPT masking strategy
+ * Tests for AES-256-GCM tokens, key rotation, decryptLogEntry and the syntrojs-decrypt CLI
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runDecryptCli } from '../src/cli/decrypt';
+import { createLogger } from '../src/index';
+import {
+  type EncryptionKeyProvider,
+  InMemoryKeyProvider,
+  decryptLogEntry,
+  generateDataKey,
+  isEncryptedToken,
+} from '../src/masking/FieldEncryption';
+import { MaskingEngine, MaskingStrategy } from '../src/masking/MaskingEngine';
+import { ArrayTransport } from '../src/transports/array';
+
+describe('Field encryption', () => {
+  const firstKey = generateDataKey('dk-2026-10');
+  let provider: InMemoryKeyProvider;
+
+  const createEngine = (keyProvider: EncryptionKeyProvider = provider) =>
+    new MaskingEngine({
+      enableDefaultRules: false,
+      encryptionKeyProvider: keyProvider,
+      rules: [{ pattern: /^(account|number)$/, strategy: MaskingStrategy.ENCRYPT }],
+    });
+
+  beforeEach(() => {
+    provider = new InMemoryKeyProvider([firstKey]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should seal values into compact tokens that decryptLogEntry reveals', async () => {
+    const transport = new ArrayTransport();
+    createLogger({ transport, maskingEngine: createEngine() }).info(
+      { account: 'DE89370400440532013000', card: { number: '4111111111111111' }, user: 'ana' },
+      'refund issued'
+    );
+    const entry = transport.getLastEntry<Record<string, unknown>>() ?? {};
+    const account = entry.account as string;
+
+    expect(account).toMatch(/^enc:v1:dk-2026-10:[\w-]+$/);
+    expect(isEncryptedToken(account)).toBe(true);
+    expect(JSON.stringify(entry)).not.toContain('DE89370400440532013000');
+
+    const revealed = await decryptLogEntry(entry, provider);
+    expect(revealed).toMatchObject({
+      account: 'DE89370400440532013000',
+      card: { number: '4111111111111111' },
+      user: 'ana',
+    });
+    expect(entry.account).toBe(account);
+
+    const onlyAccount = await decryptLogEntry(entry, provider, { fields: ['account'] });
+    expect(onlyAccount.account).toBe('DE89370400440532013000');
+    expect(isEncryptedToken((onlyAccount.card as Record<string, unknown>).number)).toBe(true);
+  });
+
+  it('should record the key id so rotated keys still decrypt older tokens', async () => {
+    const engine = createEngine();
+    const before = engine.process({ account: 'acc-1' });
+    provider.rotate(generateDataKey('dk-2026-11'));
+    const after = engine.process({ account: 'acc-1' });
+
+    expect(after.account).toMatch(/^enc:v1:dk-2026-11:/);
+    expect(after.account).not.toBe(engine.process({ account: 'acc-1' }).account); // random IV
+    expect((await decryptLogEntry(before, provider)).account).toBe('acc-1');
+    expect((await decryptLogEntry(after, provider)).account).toBe('acc-1');
+  });
+
+  it('should reject tampered tokens and unknown keys', async () => {
+    const token = createEngine().process({ account: 'acc-1' }).account as string;
+    const tampered = `${token.slice(0, -2)}${token.endsWith('AA') ? 'AB' : 'AA'}`;
+    const swappedKey = token.replace('dk-2026-10', 'dk-2026-09');
+
+    await expect(decryptLogEntry({ account: tampered }, provider)).rejects.toThrow(
+      'failed authentication'
+    );
+    await expect(decryptLogEntry({ account: swappedKey }, provider)).rejects.toThrow(
+      'Unknown data key "dk-2026-09"'
+    );
+  });
+
+  it('should require a key provider and fail closed when it breaks', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken: EncryptionKeyProvider = {
+      currentKey: () => {
+        throw new Error('KMS unavailable');
+      },
+      getKey: () => undefined,
+    };
+
+    expect(
+      () =>
+        new MaskingEngine({ rules: [{ pattern: 'account', strategy: MaskingStrategy.ENCRYPT }] })
+    ).toThrow('ENCRYPT rules need a key provider');
+    expect(() => generateDataKey('bad id')).toThrow('Invalid key id');
+    expect(createEngine(broken).process({ account: 'acc-1' }).account).toBe('*****');
+    expect(console.error).toHaveBeenCalledWith(
+      '[MaskingEngine Error] Field encryption failed:',
+      expect.any(Error)
+    );
+  });
+
+  describe('syntrojs-decrypt CLI', () => {
+    let dir = '';
+
+    const run = async (args: string[], stdinText = '') => {
+      const stdin = new PassThrough();
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+      stdin.end(stdinText);
+      const code = await runDecryptCli(args, { stdin, stdout, stderr });
+      return { code, out: String(stdout.read() ?? ''), err: String(stderr.read() ?? '') };
+    };
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'syntrojs-decrypt-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should decrypt NDJSON from stdin with a keys file and report bad lines', async () => {
+      const engine = createEngine();
+      const lines = [
+        JSON.stringify({ level: 'info', ...engine.process({ account: 'acc-1', user: 'ana' }) }),
+        'plain text line',
+        JSON.stringify({ account: 'enc:v1:dk-unknown:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' }),
+      ];
+      await writeFile(
+        join(dir, 'keys.json'),
+        JSON.stringify({ [firstKey.id]: Buffer.from(firstKey.key).toString('base64') })
+      );
+
+      const { code, out, err } = await run(['--keys', join(dir, 'keys.json')], lines.join('\n'));
+
+      expect(code).toBe(1);
+      expect(out.split('\n')).toEqual([
+        '{"level":"info","account":"acc-1","user":"ana"}',
+        'plain text line',
+        lines[2],
+        '',
+      ]);
+      expect(err).toBe('-:3: [FieldEncryption] Unknown data key "dk-unknown"\n');
+    });
+
+    it('should load a pluggable provider module and read files', async () => {
+      const keyBase64 = Buffer.from(firstKey.key).toString('base64');
+      await writeFile(
+        join(dir, 'provider.mjs'),
+        `export default async () => ({ getKey: (id) => id === '${firstKey.id}' ? Buffer.from('${keyBase64}', 'base64') : undefined });`
+      );
+      await writeFile(
+        join(dir, 'export.ndjson'),
+        JSON.stringify(createEngine().process({ number: '42' }))
+      );
+
+      const { code, out } = await run([
+        '--provider',
+        join(dir, 'provider.mjs'),
+        '--fields',
+        'number',
+        join(dir, 'export.ndjson'),
+      ]);
+
+      expect(code).toBe(0);
+      expect(out).toBe('{"number":"42"}\n');
+      expect((await run([])).code).toBe(2);
+      expect((await run(['--keys', 'a.json', '--provider', 'b.js'])).err).toContain(
+        'Pass either --keys or --provider'
+      );
+    });
+  });
+});
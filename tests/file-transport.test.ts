@@ -0,0 +1,218 @@
+/**
+ * Tests for FileTransport
+ * Tests for writing, size/interval rotation, retention and compression
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { FileTransport } from '../src/transports/file';
+
+describe('FileTransport', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'syntrojs-file-'));
+    file = join(dir, 'logs', 'app.log');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('Constructor', () => {
+    it('should require a path', () => {
+      expect(() => new FileTransport({ path: '' })).toThrow('[FileTransport]');
+    });
+
+    it('should reject invalid maxSize', () => {
+      expect(() => new FileTransport({ path: file, maxSize: 0 })).toThrow('maxSize');
+    });
+
+    it('should reject unknown intervals', () => {
+      expect(() => new FileTransport({ path: file, interval: 'weekly' as never })).toThrow(
+        'Unknown rotation interval'
+      );
+    });
+
+    it('should create missing directories', async () => {
+      const transport = new FileTransport({ path: file });
+      expect(existsSync(join(dir, 'logs'))).toBe(true);
+      await transport.close();
+    });
+  });
+
+  describe('Writing', () => {
+    it('should append one line per entry', async () => {
+      const transport = new FileTransport({ path: file });
+
+      transport.log('{"level":"info","message":"one"}');
+      transport.log({ timestamp: 1, level: 'info', message: 'two' });
+      await transport.flush();
+
+      const lines = readFileSync(file, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).message).toBe('two');
+
+      await transport.close();
+    });
+
+    it('should leave no data unwritten after Logger.close()', async () => {
+      const transport = new FileTransport({ path: file });
+      const logger = new Logger('file-test', transport, 'info');
+
+      for (let i = 0; i < 500; i++) {
+        logger.info({ i }, 'entry');
+      }
+      await logger.close();
+
+      expect(readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(500);
+    });
+
+    it('should drop entries after close', async () => {
+      const transport = new FileTransport({ path: file });
+      await transport.close();
+
+      expect(() => transport.log('late')).not.toThrow();
+      expect(readFileSync(file, 'utf8')).toBe('');
+    });
+  });
+
+  describe('Size rotation', () => {
+    it('should rotate when maxSize would be exceeded', async () => {
+      const transport = new FileTransport({ path: file, maxSize: 50 });
+
+      for (let i = 0; i < 5; i++) {
+        transport.log(`{"message":"line-${i}-xxxxxxxxxx"}`);
+      }
+      await transport.flush();
+
+      const archives = await transport.listArchives();
+      expect(archives.length).toBeGreaterThan(0);
+
+      const all = [...archives, file].flatMap((f) => readFileSync(f, 'utf8').trim().split('\n'));
+      expect(all).toHaveLength(5);
+
+      await transport.close();
+    });
+
+    it('should keep only maxFiles archives', async () => {
+      const transport = new FileTransport({ path: file, maxSize: 10, maxFiles: 2 });
+
+      for (let i = 0; i < 6; i++) {
+        transport.log(`{"i":${i},"pad":"xxxx"}`);
+      }
+      await transport.flush();
+
+      expect(await transport.listArchives()).toHaveLength(2);
+      await transport.close();
+    });
+
+    it('should order and prune archives by the stamp and sequence in their names', async () => {
+      const logs = join(dir, 'logs');
+      const names = [
+        'app.log.20250101-000000',
+        'app.log.20250102-000000.gz',
+        'app.log.20250102-000000-2',
+        'app.log.20250102-000000-10',
+      ];
+      mkdirSync(logs, { recursive: true });
+      // Restored from backup: the oldest archive has the newest mtime
+      names.forEach((name, i) => {
+        writeFileSync(join(logs, name), `${name}\n`);
+        const mtime = new Date(Date.UTC(2030, 0, 1) - i * 60_000);
+        utimesSync(join(logs, name), mtime, mtime);
+      });
+      const transport = new FileTransport({ path: file, maxFiles: 2 });
+
+      expect(await transport.listArchives()).toEqual(names.map((name) => join(logs, name)));
+
+      transport.log('{"message":"current"}');
+      transport.rotate();
+      await transport.flush();
+
+      const kept = await transport.listArchives();
+      expect(kept).toHaveLength(2);
+      expect(kept[0]).toBe(join(logs, 'app.log.20250102-000000-10'));
+      expect(readFileSync(kept[1], 'utf8')).toContain('current');
+      await transport.close();
+    });
+
+    it('should gzip archives when compress is enabled', async () => {
+      const transport = new FileTransport({ path: file, maxSize: 10, compress: true });
+
+      transport.log('{"message":"first-line"}');
+      transport.log('{"message":"second-line"}');
+      await transport.close();
+
+      const archives = await transport.listArchives();
+      expect(archives).toHaveLength(1);
+      expect(archives[0].endsWith('.gz')).toBe(true);
+      expect(gunzipSync(readFileSync(archives[0])).toString()).toContain('first-line');
+      expect(readFileSync(file, 'utf8')).toContain('second-line');
+    });
+  });
+
+  describe('Interval rotation', () => {
+    it('should stamp archives in local time, like the interval boundaries', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2025, 0, 1, 23, 59, 0));
+
+      const transport = new FileTransport({ path: file, interval: 'daily' });
+      transport.log('{"message":"before midnight"}');
+
+      vi.setSystemTime(new Date(2025, 0, 2, 0, 0, 0));
+      transport.log('{"message":"next day"}');
+      await transport.flush();
+
+      expect(await transport.listArchives()).toEqual([
+        join(dir, 'logs', 'app.log.20250102-000000'),
+      ]);
+      await transport.close();
+    });
+
+    it('should rotate at the next hour boundary', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2025, 0, 1, 10, 59, 0));
+
+      const transport = new FileTransport({ path: file, interval: 'hourly' });
+      transport.log('{"message":"before"}');
+
+      vi.setSystemTime(new Date(2025, 0, 1, 11, 0, 1));
+      transport.log('{"message":"after"}');
+      await transport.flush();
+
+      const archives = await transport.listArchives();
+      expect(archives).toHaveLength(1);
+      expect(readFileSync(archives[0], 'utf8')).toContain('before');
+      expect(readFileSync(file, 'utf8')).toContain('after');
+
+      await transport.close();
+    });
+
+    it('should not rotate before the daily boundary', async () => {
+      const transport = new FileTransport({ path: file, interval: 'daily' });
+
+      transport.log('{"message":"a"}');
+      transport.log('{"message":"b"}');
+      await transport.flush();
+
+      expect(readdirSync(join(dir, 'logs'))).toEqual(['app.log']);
+      await transport.close();
+    });
+  });
+});
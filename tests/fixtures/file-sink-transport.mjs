@@ -0,0 +1,30 @@
+/**
+ * Minimal plain-JS transport used by ThreadedTransport tests.
+ * Appends each line to `options.path` synchronously (optionally slowly).
+ */
+
+import { appendFileSync } from 'node:fs';
+
+export class FileSinkTransport {
+  constructor(options) {
+    this.path = options.path;
+    this.delayMs = options.delayMs ?? 0;
+  }
+
+  log(line) {
+    if (this.delayMs > 0) {
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, this.delayMs);
+    }
+    appendFileSync(this.path, `${line}\n`);
+  }
+
+  flush() {}
+
+  close() {
+    appendFileSync(this.path, 'closed\n');
+  }
+}
+
+export default function createSink(options) {
+  return new FileSinkTransport(options);
+}
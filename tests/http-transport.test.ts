@@ -0,0 +1,347 @@
+/**
+ * Tests for HttpTransport
+ * Tests for batching, retries, the memory cap and the dead-letter file against a local server
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { HttpTransport } from '../src/transports/http';
+import { parseRetryAfter } from '../src/utils/retryAfter';
+
+interface ReceivedRequest {
+  contentType?: string;
+  authorization?: string;
+  body: string;
+}
+
+describe('HttpTransport', () => {
+  let server: Server;
+  let url: string;
+  let requests: ReceivedRequest[];
+  let responses: Array<{ status: number; retryAfter?: string }>;
+  /** Response for a request body, checked before `responses` */
+  let statusFor: ((body: string) => { status: number; delayMs?: number } | undefined) | undefined;
+  let dir: string;
+
+  beforeEach(async () => {
+    requests = [];
+    responses = [];
+    statusFor = undefined;
+    dir = mkdtempSync(join(tmpdir(), 'syntrojs-http-'));
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        const forced = statusFor?.(body);
+        const { status, retryAfter } = forced ?? responses.shift() ?? { status: 200 };
+        if (status === 200) {
+          requests.push({
+            contentType: req.headers['content-type'],
+            authorization: req.headers.authorization,
+            body,
+          });
+        }
+        setTimeout(() => {
+          res.writeHead(status, retryAfter ? { 'Retry-After': retryAfter } : {});
+          res.end();
+        }, forced?.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const line = (message: string) => JSON.stringify({ level: 'info', message });
+
+  it('should require a url and a known format', () => {
+    expect(() => new HttpTransport({} as never)).toThrow('A url is required');
+    expect(() => new HttpTransport({ url, format: 'xml' as never })).toThrow('Unknown format');
+  });
+
+  it('should post NDJSON batches from Logger on flush', async () => {
+    const transport = new HttpTransport({
+      url,
+      lingerMs: 60_000,
+      headers: { Authorization: 'Bearer t' },
+    });
+    const logger = new Logger('api', transport, 'info');
+
+    logger.info('first');
+    logger.warn({ userId: 7 }, 'second');
+    await logger.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].contentType).toBe('application/x-ndjson');
+    expect(requests[0].authorization).toBe('Bearer t');
+    const lines = requests[0].body
+      .trimEnd()
+      .split('\n')
+      .map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.message)).toEqual(['first', 'second']);
+    expect(lines[1].userId).toBe(7);
+  });
+
+  it('should post JSON array bodies', async () => {
+    const transport = new HttpTransport({ url, format: 'json-array', lingerMs: 60_000 });
+
+    transport.log(line('a'));
+    transport.log({ timestamp: 1, level: 'info', message: 'b', service: 's' });
+    await transport.flush();
+
+    expect(requests[0].contentType).toBe('application/json');
+    expect(JSON.parse(requests[0].body).map((e: { message: string }) => e.message)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('should split batches by count and by bytes', async () => {
+    const byCount = new HttpTransport({ url, maxBatchSize: 2, lingerMs: 60_000 });
+    for (let i = 0; i < 5; i++) byCount.log(line(`m${i}`));
+    await byCount.flush();
+
+    expect(requests.map((r) => r.body.trimEnd().split('\n').length)).toEqual([2, 2, 1]);
+
+    requests = [];
+    const size = Buffer.byteLength(line('m0')) + 1;
+    const byBytes = new HttpTransport({ url, maxBatchBytes: size * 2 + 1, lingerMs: 60_000 });
+    for (let i = 0; i < 5; i++) byBytes.log(line(`m${i}`));
+    await byBytes.flush();
+
+    expect(requests.map((r) => r.body.trimEnd().split('\n').length)).toEqual([2, 2, 1]);
+  });
+
+  it('should send after lingerMs without an explicit flush', async () => {
+    const transport = new HttpTransport({ url, lingerMs: 10 });
+
+    transport.log(line('lingering'));
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+  });
+
+  it('should retry 5xx and 429, honouring Retry-After', async () => {
+    responses = [{ status: 503 }, { status: 429, retryAfter: '0' }];
+    const transport = new HttpTransport({ url, retryBackoffMs: 1 });
+
+    transport.log(line('retried'));
+    await transport.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(transport.dropped).toBe(0);
+  });
+
+  it('should drop batches rejected with other 4xx statuses', async () => {
+    responses = [{ status: 400 }];
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transport = new HttpTransport({ url, retryBackoffMs: 1 });
+
+    transport.log(line('bad'));
+    await transport.flush();
+
+    expect(requests).toHaveLength(0);
+    expect(transport.dropped).toBe(1);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should drop newest lines beyond maxBufferedBytes', async () => {
+    const size = Buffer.byteLength(line('m0')) + 1;
+    const transport = new HttpTransport({ url, maxBufferedBytes: size * 2, lingerMs: 60_000 });
+
+    for (let i = 0; i < 4; i++) transport.log(line(`m${i}`));
+    expect(transport.dropped).toBe(2);
+    await transport.flush();
+
+    // Memory is released once batches settle
+    transport.log(line('after'));
+    await transport.flush();
+    expect(requests.map((r) => r.body)).toEqual([
+      `${line('m0')}\n${line('m1')}\n`,
+      `${line('after')}\n`,
+    ]);
+  });
+
+  it('should dead-letter batches that exhaust retries and replay them on next start', async () => {
+    const deadLetterPath = join(dir, 'nested', 'dead.ndjson');
+    responses = [{ status: 503 }, { status: 503 }];
+    const failing = new HttpTransport({ url, maxRetries: 1, retryBackoffMs: 1, deadLetterPath });
+
+    failing.log(line('kept'));
+    await failing.flush();
+
+    expect(requests).toHaveLength(0);
+    expect(failing.deadLettered).toBe(1);
+    expect(readFileSync(deadLetterPath, 'utf8')).toBe(`${line('kept')}\n`);
+
+    const restarted = new HttpTransport({ url, deadLetterPath });
+    await restarted.replayed();
+
+    expect(requests.map((r) => r.body)).toEqual([`${line('kept')}\n`]);
+    expect(existsSync(deadLetterPath)).toBe(false);
+    expect(existsSync(`${deadLetterPath}.replay`)).toBe(false);
+  });
+
+  it('should merge a replay file left over by an interrupted run', async () => {
+    const deadLetterPath = join(dir, 'dead.ndjson');
+    writeFileSync(`${deadLetterPath}.replay`, `${line('older')}\n`);
+    writeFileSync(deadLetterPath, `${line('newer')}\n`);
+
+    const transport = new HttpTransport({ url, deadLetterPath });
+    await transport.replayed();
+
+    expect(requests.map((r) => r.body)).toEqual([`${line('older')}\n${line('newer')}\n`]);
+    expect(existsSync(`${deadLetterPath}.replay`)).toBe(false);
+  });
+
+  it('should replay the dead-letter file in bounded batches', async () => {
+    const deadLetterPath = join(dir, 'dead.ndjson');
+    const lines = ['r0', 'r1', 'r2', 'r3', 'r4'].map(line);
+    writeFileSync(deadLetterPath, `${lines.join('\n')}\n`);
+
+    const transport = new HttpTransport({ url, deadLetterPath, maxBatchSize: 2 });
+    await transport.replayed();
+
+    expect(requests.map((r) => r.body.trimEnd().split('\n').length)).toEqual([2, 2, 1]);
+    expect(requests.flatMap((r) => r.body.trimEnd().split('\n'))).toEqual(lines);
+  });
+
+  it('should deliver live batches while the replay is failing', async () => {
+    const deadLetterPath = join(dir, 'dead.ndjson');
+    const dead = ['dead0', 'dead1', 'dead2'].map(line);
+    writeFileSync(deadLetterPath, `${dead.join('\n')}\n`);
+    // The endpoint is still down for the dead letters and slow to say so
+    statusFor = (body) => (body.includes('dead') ? { status: 503, delayMs: 200 } : undefined);
+
+    const transport = new HttpTransport({ url, deadLetterPath, maxBatchSize: 1 });
+    let replayDone = false;
+    transport.replayed().then(() => {
+      replayDone = true;
+    });
+    transport.log(line('live'));
+    await transport.flush();
+
+    expect(requests.map((r) => r.body)).toEqual([`${line('live')}\n`]);
+    expect(replayDone).toBe(false);
+
+    // The replay stopped at its first failure: nothing dropped, the file kept for the next start
+    await transport.replayed();
+    expect(transport.dropped).toBe(0);
+    expect(readFileSync(`${deadLetterPath}.replay`, 'utf8')).toBe(`${dead.join('\n')}\n`);
+  });
+
+  it('should stop the replay on close and keep the unsent rest', async () => {
+    const deadLetterPath = join(dir, 'dead.ndjson');
+    const dead = ['dead0', 'dead1', 'dead2'].map(line);
+    writeFileSync(deadLetterPath, `${dead.join('\n')}\n`);
+    statusFor = () => ({ status: 200, delayMs: 50 });
+
+    await new HttpTransport({ url, deadLetterPath, maxBatchSize: 1 }).close();
+
+    const sent = requests.map((r) => r.body);
+    const kept = readFileSync(`${deadLetterPath}.replay`, 'utf8');
+    expect(sent.length).toBeLessThan(dead.length);
+    expect(sent.join('') + kept).toBe(`${dead.join('\n')}\n`);
+  });
+
+  it('should stop the replay at the first failed batch and keep the rest', async () => {
+    const deadLetterPath = join(dir, 'dead.ndjson');
+    const dead = ['dead0', 'dead1', 'dead2'].map(line);
+    writeFileSync(deadLetterPath, `${dead.join('\n')}\n`);
+    statusFor = (body) => (body.includes('dead1') ? { status: 503 } : undefined);
+
+    await new HttpTransport({ url, deadLetterPath, maxBatchSize: 1 }).replayed();
+
+    expect(requests.map((r) => r.body)).toEqual([`${dead[0]}\n`]);
+    expect(readFileSync(`${deadLetterPath}.replay`, 'utf8')).toBe(`${dead[1]}\n${dead[2]}\n`);
+
+    statusFor = undefined;
+    await new HttpTransport({ url, deadLetterPath, maxBatchSize: 1 }).replayed();
+
+    expect(requests.map((r) => r.body)).toEqual(dead.map((d) => `${d}\n`));
+    expect(existsSync(`${deadLetterPath}.replay`)).toBe(false);
+  });
+
+  it('should drop failed batches once the dead-letter file is full', async () => {
+    const deadLetterPath = join(dir, 'dead.ndjson');
+    responses = [{ status: 503 }, { status: 503 }];
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transport = new HttpTransport({
+      url,
+      maxRetries: 0,
+      deadLetterPath,
+      maxDeadLetterBytes: line('first').length + 1,
+    });
+
+    transport.log(line('first'));
+    await transport.flush();
+    transport.log(line('second'));
+    await transport.flush();
+
+    expect(transport.deadLettered).toBe(1);
+    expect(transport.dropped).toBe(1);
+    expect(readFileSync(deadLetterPath, 'utf8')).toBe(`${line('first')}\n`);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('dead-letter file is full'));
+    errorSpy.mockRestore();
+  });
+
+  it('should cap the replay file when merging a leftover one', async () => {
+    const deadLetterPath = join(dir, 'dead.ndjson');
+    writeFileSync(`${deadLetterPath}.replay`, `${line('older')}\n`);
+    writeFileSync(deadLetterPath, `${line('new')}\n${line('newer')}\n`);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const transport = new HttpTransport({
+      url,
+      deadLetterPath,
+      maxDeadLetterBytes: line('older').length + line('new').length + 2,
+    });
+    await transport.replayed();
+
+    expect(requests.map((r) => r.body)).toEqual([`${line('older')}\n${line('new')}\n`]);
+    expect(transport.dropped).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('replay file is full'));
+    errorSpy.mockRestore();
+  });
+
+  it('should drop after retries when no dead-letter file is configured', async () => {
+    responses = [{ status: 500 }, { status: 500 }];
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transport = new HttpTransport({ url, maxRetries: 1, retryBackoffMs: 1 });
+
+    transport.log(line('lost'));
+    await transport.flush();
+
+    expect(transport.dropped).toBe(1);
+    errorSpy.mockRestore();
+  });
+
+  it('should stop accepting lines after close', async () => {
+    const transport = new HttpTransport({ url });
+
+    await transport.close();
+    transport.log(line('late'));
+    await transport.flush();
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.UTC(2025, 0, 1, 0, 0, 0);
+
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('garbage')).toBeUndefined();
+  });
+});
@@ -88,6 +88,15 @@ describe('JSON Validation', () => {
       }).not.toThrow();
     });
 
+    it('should validate arrays nested in objects', () => {
+      expect(() => {
+        validatePlainJson({ matrix: { default: ['correlationId'] }, rules: [{ pattern: 'x' }] });
+      }).not.toThrow();
+      expect(() => {
+        validatePlainJson({ rules: [{ mask: () => '***' }] });
+      }).toThrow(/Function found at root.rules\[0\].mask/);
+    });
+
     it('should reject class instances', () => {
       class CustomClass {
         value = 'test';
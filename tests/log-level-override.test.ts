@@ -0,0 +1,130 @@
+/**
+ * Tests for per-context log level overrides
+ * Tests for AsyncContext.setLogLevel, Logger level checks and the middleware hook
+ */
+
+import { createServer, request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext, LOG_LEVEL_KEY } from '../src/context/Context';
+import type { LogLevel } from '../src/levels';
+import { withRequestContext } from '../src/middleware';
+import { ArrayTransport } from '../src/transports/array';
+
+describe('Per-context log level', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Runs first: no override has been set in this module yet
+  it('should not look up the context for disabled levels until an override exists', () => {
+    const lookup = vi.spyOn(AsyncContext, 'getLogLevel');
+    const logger = new Logger('app', new ArrayTransport(), 'info');
+
+    AsyncContext.run(() => logger.debug('skipped'), { correlationId: 'req-1' });
+
+    expect(AsyncContext.hasLogLevelOverrides()).toBe(false);
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('should log below the logger level for that context only, across loggers and children', () => {
+    const transport = new ArrayTransport();
+    const logger = new Logger('app', transport, 'info');
+    const child = logger.child({ module: 'db' });
+    const other = new Logger('worker', transport, 'warn');
+
+    AsyncContext.run(() => {
+      AsyncContext.setLogLevel('trace');
+      logger.debug('parent debug');
+      child.trace('child trace');
+      other.info('other info');
+    });
+    AsyncContext.run(() => logger.debug('other request'));
+    logger.debug('outside');
+
+    expect(transport.getParsedEntries().map((entry) => entry.message)).toEqual([
+      'parent debug',
+      'child trace',
+      'other info',
+    ]);
+    expect(transport.getLastEntry()?.[LOG_LEVEL_KEY]).toBe('trace');
+  });
+
+  it('should never hide messages the logger level allows', () => {
+    const transport = new ArrayTransport();
+    const logger = new Logger('app', transport, 'info');
+
+    AsyncContext.run(() => logger.info('still logged'), { [LOG_LEVEL_KEY]: 'error' });
+
+    expect(transport.getLastEntry()?.message).toBe('still logged');
+  });
+
+  it('should keep silent loggers, withoutContext() loggers and invalid values off', () => {
+    const transport = new ArrayTransport();
+    const silent = new Logger('app', transport, 'silent');
+    const detached = new Logger('app', transport, 'info').withoutContext();
+    const logger = new Logger('app', transport, 'info');
+
+    AsyncContext.run(
+      () => {
+        silent.error('silenced');
+        detached.debug('no context');
+      },
+      { [LOG_LEVEL_KEY]: 'trace' }
+    );
+    AsyncContext.run(() => logger.debug('bogus level'), { [LOG_LEVEL_KEY]: 'verbose' });
+
+    expect(transport.getParsedEntries()).toHaveLength(0);
+    expect(() => AsyncContext.setLogLevel('verbose' as never)).toThrow('Invalid log level');
+  });
+
+  it('should apply to child contexts without leaking to the parent', () => {
+    const transport = new ArrayTransport();
+    const logger = new Logger('app', transport, 'info');
+
+    AsyncContext.run(() => {
+      AsyncContext.runChild(() => logger.debug('child'), { [LOG_LEVEL_KEY]: 'debug' });
+      logger.debug('parent');
+    });
+
+    expect(transport.getParsedEntries().map((entry) => entry.message)).toEqual(['child']);
+  });
+
+  it('should let the request middleware pick a level per request', async () => {
+    const transport = new ArrayTransport();
+    const logger = new Logger('api', transport, 'info');
+    const server = createServer(
+      withRequestContext(
+        (_req, res) => {
+          logger.debug('handler details');
+          res.end();
+        },
+        {
+          logger,
+          accessLog: false,
+          logLevel: (req) => {
+            const header = req.headers['x-debug'];
+            // An untrusted header used as-is: unknown levels must be ignored
+            return (header === 'signed-token' ? 'debug' : header) as LogLevel | undefined;
+          },
+        }
+      )
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const get = (headers: Record<string, string>) =>
+      new Promise<number | undefined>((resolve) =>
+        request({ port, host: '127.0.0.1', headers }, (res) =>
+          res.resume().on('end', () => resolve(res.statusCode))
+        ).end()
+      );
+
+    expect(await get({ 'x-debug': 'signed-token' })).toBe(200);
+    expect(await get({})).toBe(200);
+    expect(await get({ 'x-debug': 'verbose' })).toBe(200);
+    await new Promise((resolve) => server.close(resolve));
+
+    expect(transport.getParsedEntries()).toHaveLength(1);
+  });
+});
@@ -1,10 +1,12 @@
 /**
  * Tests for LoggerRegistry
- * Tests for singleton registry pattern
+ * Tests for singleton registry pattern and namespace inheritance
  */
 
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { loggerRegistry as LoggerRegistry } from '../src/LoggerRegistry';
+import { MaskingEngine } from '../src/masking/MaskingEngine';
+import { ArrayTransport } from '../src/transports/array';
 
 describe('LoggerRegistry', () => {
   beforeEach(() => {
@@ -136,3 +138,121 @@ describe('LoggerRegistry', () => {
     });
   });
 });
+
+describe('LoggerRegistry namespaces', () => {
+  beforeEach(() => {
+    LoggerRegistry.clear();
+  });
+
+  it('should inherit each setting from the nearest configured ancestor', () => {
+    const appTransport = new ArrayTransport();
+    const dbTransport = new ArrayTransport();
+    const maskingEngine = new MaskingEngine();
+    LoggerRegistry.configure('app', { level: 'warn', transport: appTransport, maskingEngine });
+    LoggerRegistry.configure('app.db', { transport: dbTransport, loggingMatrix: { default: [] } });
+
+    const pool = LoggerRegistry.getLogger('app.db.pool');
+    const http = LoggerRegistry.getLogger('app.http');
+    pool.warn({ password: 'secret' }, 'pool exhausted');
+    http.warn('slow route');
+    http.info('filtered');
+
+    expect(LoggerRegistry.getEffectiveConfig('app.db.pool')).toEqual({
+      level: 'warn',
+      transport: dbTransport,
+      maskingEngine,
+      loggingMatrix: { default: [] },
+    });
+    expect(dbTransport.getParsedEntries().map((entry) => entry.message)).toEqual([
+      'pool exhausted',
+    ]);
+    expect(appTransport.getParsedEntries().map((entry) => entry.message)).toEqual(['slow route']);
+    expect(LoggerRegistry.getLogger('application').level).toBe('info');
+  });
+
+  it('should propagate runtime level changes to descendants and their child loggers', () => {
+    LoggerRegistry.configure('app', { level: 'info' });
+    const db = LoggerRegistry.getLogger('app.db');
+    const pool = LoggerRegistry.getLogger('app.db.pool');
+    const request = pool.child({ requestId: 'r-1' }).withSource('query');
+    const other = LoggerRegistry.getLogger('app.http');
+
+    LoggerRegistry.setLevel('app.db', 'debug');
+
+    expect([db.level, pool.level, request.level]).toEqual(['debug', 'debug', 'debug']);
+    expect(other.level).toBe('info');
+
+    // A level configured lower in the tree wins over its ancestors
+    LoggerRegistry.setLevel('app.db.pool', 'error');
+    LoggerRegistry.setLevel('app', 'trace');
+    expect([db.level, pool.level, request.level, other.level]).toEqual([
+      'debug',
+      'error',
+      'error',
+      'trace',
+    ]);
+  });
+
+  it('should keep levels set explicitly on child loggers', () => {
+    const db = LoggerRegistry.getLogger('app.db');
+    const pinned = db.child({ module: 'migrations' });
+    const following = db.child({ module: 'queries' });
+    pinned.setLevel('error');
+
+    LoggerRegistry.setLevel('app', 'debug');
+    db.setLevel('trace');
+
+    expect(following.level).toBe('trace');
+    expect(pinned.level).toBe('error');
+  });
+
+  it('should apply transport changes to existing loggers without closing shared transports', () => {
+    const close = vi.fn();
+    const first = Object.assign(new ArrayTransport(), { close });
+    const second = new ArrayTransport();
+    LoggerRegistry.configure('app', { transport: first });
+    const child = LoggerRegistry.getLogger('app.jobs').child({ job: 'email' });
+
+    LoggerRegistry.configure('app', { transport: second });
+    child.info('sent');
+
+    expect(second.getLastEntry()?.message).toBe('sent');
+    expect(first.getParsedEntries()).toHaveLength(0);
+    expect(close).not.toHaveBeenCalled();
+  });
+
+  it('should keep settings made on a logger itself when its namespace changes', () => {
+    const own = new ArrayTransport();
+    const shared = new ArrayTransport();
+    const db = LoggerRegistry.getLogger('app.db');
+    db.reconfigure({ transport: own });
+    const pinned = db.child({ module: 'migrations' });
+    const following = db.child({ module: 'queries' });
+    pinned.setLevel('error');
+
+    LoggerRegistry.configure('app', { level: 'debug', transport: shared });
+    db.info('db');
+    pinned.error('pinned');
+    LoggerRegistry.getLogger('app.http').info('http');
+
+    expect([db.level, pinned.level, following.level]).toEqual(['debug', 'error', 'debug']);
+    expect(own.getParsedEntries().map((entry) => entry.message)).toEqual(['db', 'pinned']);
+    expect(shared.getParsedEntries().map((entry) => entry.message)).toEqual(['http']);
+  });
+
+  it('should apply first-call options to that logger only', () => {
+    const pool = LoggerRegistry.getLogger('app.db.pool');
+    const db = LoggerRegistry.getLogger('app.db', { level: 'debug' });
+
+    expect([db.level, pool.level]).toEqual(['debug', 'info']);
+    expect(LoggerRegistry.getLogger('app.db.replica').level).toBe('info');
+
+    LoggerRegistry.configure('app', { level: 'warn' });
+    expect([db.level, pool.level]).toEqual(['debug', 'warn']);
+  });
+
+  it('should reject invalid namespaces', () => {
+    expect(() => LoggerRegistry.configure('', { level: 'debug' })).toThrow('Invalid namespace');
+    expect(() => LoggerRegistry.configure('app..db', {})).toThrow('Invalid namespace');
+  });
+});
@@ -7,6 +7,8 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { Logger } from '../src/Logger';
 import { AsyncContext } from '../src/context/Context';
 import type { LogLevel } from '../src/levels';
+import { MaskingEngine, MaskingStrategy } from '../src/masking/MaskingEngine';
+import { SanitizationEngine } from '../src/sanitization/SanitizationEngine';
 import { ArrayTransport } from '../src/transports/array';
 import { JsonTransport } from '../src/transports/json';
 
@@ -212,6 +214,113 @@ describe('Logger', () => {
     });
   });
 
+  describe('Error Serialization', () => {
+    interface SerializedError {
+      name: string;
+      message: string;
+      stack?: string;
+      code?: string;
+      cause?: SerializedError;
+      errors?: SerializedError[];
+    }
+
+    it('should accept an Error as the only argument', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('test', transport, 'info');
+      const error = Object.assign(new TypeError('bad input'), { code: 'E_INPUT' });
+
+      logger.error(error);
+
+      const log = transport.getLastEntry<{ message: string; err: SerializedError }>();
+      expect(log?.message).toBe('bad input');
+      expect(log?.err.name).toBe('TypeError');
+      expect(log?.err.message).toBe('bad input');
+      expect(log?.err.stack).toContain('TypeError: bad input');
+      expect(log?.err.code).toBe('E_INPUT');
+    });
+
+    it('should accept an Error followed by a message and format args', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('test', transport, 'info');
+
+      logger.error(new Error('timeout'), 'Payment %s failed', 'p-1');
+
+      const log = transport.getLastEntry<{ message: string; err: SerializedError }>();
+      expect(log?.message).toBe('Payment p-1 failed');
+      expect(log?.err.message).toBe('timeout');
+    });
+
+    it('should serialize Errors nested in metadata, bindings and context', async () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('test', transport, 'info', { boot: new Error('from bindings') });
+
+      await AsyncContext.runAsync(async () => {
+        AsyncContext.set('lastError', new Error('from context'));
+        logger.error({ result: { err: new Error('from metadata') } }, 'failed');
+      });
+
+      const log = transport.getLastEntry<{
+        boot: SerializedError;
+        lastError: SerializedError;
+        result: { err: SerializedError };
+      }>();
+      expect(log?.boot.message).toBe('from bindings');
+      expect(log?.lastError.message).toBe('from context');
+      expect(log?.result.err.message).toBe('from metadata');
+      expect(log?.result.err.stack).toBeDefined();
+    });
+
+    it('should expand cause chains and AggregateError.errors', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('test', transport, 'info');
+      const root = new Error('socket hang up');
+      const wrapped = new Error('query failed', { cause: root });
+      const aggregate = new AggregateError([wrapped, new RangeError('out of range')], 'batch');
+
+      logger.error(aggregate);
+
+      const { err } = transport.getLastEntry<{ err: SerializedError }>() ?? {};
+      expect(err?.name).toBe('AggregateError');
+      expect(err?.errors?.map((e) => e.message)).toEqual(['query failed', 'out of range']);
+      expect(err?.errors?.[0].cause?.message).toBe('socket hang up');
+      expect(err?.errors?.[1].name).toBe('RangeError');
+    });
+
+    it('should stop at circular cause chains', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('test', transport, 'info');
+      const first = new Error('first');
+      const second = new Error('second', { cause: first });
+      (first as Error & { cause?: unknown }).cause = second;
+
+      logger.error(first);
+
+      const { err } = transport.getLastEntry<{ err: SerializedError }>() ?? {};
+      expect(err?.cause?.message).toBe('second');
+      expect(err?.cause?.cause).toBe('[Circular]');
+    });
+
+    it('should sanitize and mask serialized Errors in the compliance pipeline', () => {
+      const transport = new ArrayTransport();
+      const masking = new MaskingEngine({ enableDefaultRules: false });
+      masking.addRule({ pattern: /token/i, strategy: MaskingStrategy.TOKEN });
+      const logger = new Logger(
+        'test',
+        transport,
+        'info',
+        {},
+        { sanitizationEngine: new SanitizationEngine(masking), maskingEngine: masking }
+      );
+      const error = Object.assign(new Error('\x1b[31mred\x1b[0m'), { token: 'abcdef1234567890' });
+
+      logger.error(error);
+
+      const { err } = transport.getLastEntry<{ err: SerializedError & { token: string } }>() ?? {};
+      expect(err?.message).toBe('red');
+      expect(err?.token).not.toBe('abcdef1234567890');
+    });
+  });
+
   describe('Child Logger', () => {
     it('should create child logger with additional bindings', () => {
       const parent = new Logger('test');
@@ -0,0 +1,135 @@
+/**
+ * Tests for masking presets and regional identifiers
+ * Corpus tests: each pack masks its identifiers (by key and in free text) without over-masking
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MaskingEngine } from '../src/masking/MaskingEngine';
+import { type MaskingPresetSpec, resolveMaskingPreset } from '../src/masking/Presets';
+
+const engineFor = (preset: MaskingPresetSpec) =>
+  new MaskingEngine({ enableDefaultRules: false, presets: [preset] });
+
+describe('Masking presets', () => {
+  describe('Identifiers by key', () => {
+    it.each<[MaskingPresetSpec, string, string, string]>([
+      ['pci', 'pan', '4111111111111111', '****-****-****-1111'],
+      ['pci', 'cardCvv', '123', '***'],
+      ['pci', 'PIN', '1234', '****'],
+      ['hipaa', 'ssn', '123-45-6789', '***-**-6789'],
+      ['hipaa', 'patientDob', '1990-05-17', '1990-**-**'],
+      ['hipaa', 'passport_number', 'A12345678', '*****5678'],
+      ['hipaa', 'mrn', 'MRN-00042', '*********'],
+      ['hipaa', 'clientIp', '203.0.113.42', '203.0.*.*'],
+      ['gdpr', 'dni', '12345678Z', '***4567**'],
+      ['gdpr', 'customerNie', 'X1234567L', '****4567*'],
+      ['gdpr', 'nino', 'AB 12 34 56 C', '** ** ** 56 *'],
+      ['gdpr', 'iban', 'DE89 3704 0044 0532 0130 00', 'DE89 **** **** **** **30 00'],
+      ['gdpr', 'date_of_birth', '17/05/1990', '**/**/1990'],
+      ['gdpr', 'ipAddress', '2001:db8:85a3::8a2e:370:7334', '2001:db8:85a3::*:*:*'],
+      ['gdpr', 'remoteAddress', '::ffff:203.0.113.42', '::ffff:203.0.*.*'],
+      ['gdpr', 'ipAddress', '2001:db8::1', '2001:db8::*'],
+      ['gdpr', 'ipAddress', '2001:db8::abcd', '2001:db8::*'],
+      ['gdpr', 'ipAddress', 'fe80::1ff:fe23:4567:890a', 'fe80::*:*:*:*'],
+      ['gdpr', 'ipAddress', '::1', '::*'],
+      ['gdpr', 'ipAddress', '2001:db8:0:1:2:3:4:5', '2001:db8:0:*:*:*:*:*'],
+      ['gdpr', 'ipAddress', '2001:db8:1:2::5', '2001:db8:1:*::*'],
+      ['gdpr', 'ipAddress', '64:ff9b::203.0.113.42', '64:ff9b::203.0.*.*'],
+      ['latam', 'cpf', '529.982.247-25', '***.982.247-**'],
+      ['latam', 'cnpj', '11.222.333/0001-81', '11.***.***/0001-**'],
+      ['latam', 'cuil', '20-12345678-6', '20-****5678-*'],
+      ['latam', 'CUIT', '27280335148', '27****3514*'],
+    ])('%s should mask %s', (preset, key, value, expected) => {
+      expect(engineFor(preset).process({ [key]: value })[key]).toBe(expected);
+    });
+
+    it('should mask values that fail validation entirely', () => {
+      const result = new MaskingEngine({
+        enableDefaultRules: false,
+        presets: ['gdpr', 'latam'],
+      }).process({ dni: '12345678A', cpf: '529.982.247-24', dob: 'unknown' });
+
+      expect(result).toEqual({ dni: '*********', cpf: '**************', dob: '*******' });
+    });
+  });
+
+  describe('Identifiers in free text', () => {
+    it.each<[MaskingPresetSpec, string, string]>([
+      ['pci', 'paid with 4111 1111 1111 1111', 'paid with **** **** **** 1111'],
+      ['gdpr', 'DNI 12345678Z verified', 'DNI ***4567** verified'],
+      ['gdpr', 'NIE X1234567L on file', 'NIE ****4567* on file'],
+      ['gdpr', 'NINO QQ 12 34 56 C? no: AB 12 34 56 C', 'NINO QQ 12 34 56 C? no: ** ** ** 56 *'],
+      ['gdpr', 'login from 192.168.10.20', 'login from 192.168.*.*'],
+      ['gdpr', 'refund to GB82WEST12345698765432', 'refund to GB82**************5432'],
+      ['latam', 'CPF 529.982.247-25 ok', 'CPF ***.982.247-** ok'],
+      ['latam', 'CNPJ 11.222.333/0001-81', 'CNPJ 11.***.***/0001-**'],
+      ['latam', 'CUIL 20-12345678-6', 'CUIL 20-****5678-*'],
+    ])('%s should mask %s', (preset, text, expected) => {
+      expect(engineFor(preset).process({ note: text }).note).toBe(expected);
+    });
+
+    it.each<[MaskingPresetSpec, string]>([
+      ['pci', 'order 1234567890123456 shipped'],
+      ['gdpr', 'ticket 12345678A and 87654321B'],
+      ['gdpr', 'release v2.10.3 and build 1.2.3.400'],
+      ['gdpr', 'released version 10.2.3.4'],
+      ['gdpr', 'Version: 10.2.3.4, upgraded from v 10.2.3.1'],
+      ['gdpr', 'invalid prefix BG 12 34 56 A'],
+      ['gdpr', 'account DE00 3704 0044 0532 0130 00'],
+      ['latam', 'CPF 111.111.111-11 and 529.982.247-24'],
+      ['latam', 'phone 11987654321 and 20-12345678-1'],
+      ['latam', 'born 1990-05-17, passport 123456789'],
+    ])('%s should not over-mask %s', (preset, text) => {
+      expect(engineFor(preset).process({ note: text }).note).toBe(text);
+    });
+
+    it('should not mask keys that only contain a field name', () => {
+      const fields = {
+        zip: '12345',
+        spinner: 'on',
+        company: 'ACME',
+        niece: 'Ana',
+        tooltip: 'help',
+        panel: 'left',
+        cidr: 'private',
+        cid: 'corr-7f3a',
+      };
+
+      const result = new MaskingEngine({
+        enableDefaultRules: false,
+        presets: ['pci', 'hipaa', 'gdpr', 'latam'],
+      }).process(fields);
+
+      expect(result).toEqual(fields);
+    });
+  });
+
+  describe('Selection', () => {
+    it('should resolve names and pinned versions and report them', () => {
+      const engine = new MaskingEngine({ presets: ['gdpr@1', 'latam'] });
+
+      expect(resolveMaskingPreset('gdpr')).toBe(resolveMaskingPreset('gdpr@1'));
+      expect(engine.getStats().presets).toEqual(['gdpr@1', 'latam@1']);
+      expect(() => new MaskingEngine({ presets: ['sox' as MaskingPresetSpec] })).toThrow(
+        'Unknown preset "sox" (available: pci, hipaa, gdpr, latam)'
+      );
+      expect(() => new MaskingEngine({ presets: ['pci@2'] })).toThrow(
+        'Unknown version "pci@2" (available: pci@1)'
+      );
+    });
+
+    it('should check preset rules before the defaults and share detectors once', () => {
+      const engine = new MaskingEngine({ presets: ['hipaa', 'gdpr'], valueDetectors: ['email'] });
+
+      // The default rule for 'pass' would mask the whole passport number
+      expect(engine.process({ passport: 'A12345678' }).passport).toBe('*****5678');
+      expect(engine.getStats().valueDetectors).toEqual([
+        'email',
+        'iban',
+        'esDni',
+        'ukNino',
+        'ipAddress',
+      ]);
+    });
+  });
+});
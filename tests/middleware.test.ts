@@ -0,0 +1,308 @@
+/**
+ * Tests for the HTTP request context middlewares
+ * Tests for correlation IDs, context propagation and access logging on an in-process server
+ */
+
+import {
+  type IncomingHttpHeaders,
+  type IncomingMessage,
+  type RequestListener,
+  type ServerResponse,
+  createServer,
+  request,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext } from '../src/context/Context';
+import {
+  type ExpressRequestLike,
+  type FastifyInstanceLike,
+  type FastifyReplyLike,
+  type FastifyRequestLike,
+  expressRequestContext,
+  fastifyRequestContext,
+  koaRequestContext,
+  withRequestContext,
+} from '../src/middleware';
+import { ArrayTransport } from '../src/transports/array';
+
+interface TestResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** Start a server, send one request, and close the server */
+const send = async (
+  listener: RequestListener,
+  path = '/',
+  headers: Record<string, string> = {}
+): Promise<TestResponse> => {
+  const server = createServer(listener);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    return await new Promise<TestResponse>((resolve, reject) => {
+      const req = request({ port, host: '127.0.0.1', path, headers }, (res) => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          body += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+};
+
+const setup = () => {
+  const transport = new ArrayTransport();
+  const logger = new Logger('api', transport, 'info');
+  const accessLogs = () =>
+    transport.getParsedEntries().filter((entry) => 'statusCode' in entry && 'durationMs' in entry);
+  return { transport, logger, accessLogs };
+};
+
+describe('Request context middleware', () => {
+  afterEach(() => {
+    AsyncContext.configure({ correlationIdKey: 'correlationId', autoGenerate: true });
+  });
+
+  describe('node:http', () => {
+    it('should generate and echo a correlation ID and write one access-log line', async () => {
+      const { transport, logger, accessLogs } = setup();
+
+      const response = await send(
+        withRequestContext(
+          async (_req, res) => {
+            await sleep(5);
+            logger.info('handling');
+            res.statusCode = 201;
+            res.write('hello ');
+            res.end(Buffer.from('wörld'));
+          },
+          { logger }
+        ),
+        '/orders?id=1'
+      );
+
+      const correlationId = response.headers.correlationid;
+      expect(correlationId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(transport.getParsedEntries()[0]).toMatchObject({ message: 'handling', correlationId });
+
+      await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+      const [log] = accessLogs();
+      expect(log).toMatchObject({
+        level: 'info',
+        message: 'request completed',
+        correlationId,
+        method: 'GET',
+        route: '/orders',
+        statusCode: 201,
+        bytes: Buffer.byteLength('hello wörld'),
+        remoteAddress: '127.0.0.1',
+      });
+      expect(log.durationMs).toBeGreaterThan(0);
+      expect(log).not.toHaveProperty('aborted');
+    });
+
+    it('should read the header named by correlationIdKey and reject unsafe values', async () => {
+      AsyncContext.configure({ correlationIdKey: 'x-correlation-id' });
+      const { logger, accessLogs } = setup();
+      const listener = withRequestContext((_req, res) => res.end(), { logger });
+
+      const kept = await send(listener, '/', { 'x-correlation-id': 'req-123' });
+      const replaced = await send(listener, '/', { 'x-correlation-id': 'bad id\twith spaces' });
+
+      expect(kept.headers['x-correlation-id']).toBe('req-123');
+      expect(replaced.headers['x-correlation-id']).not.toBe('bad id\twith spaces');
+      await vi.waitFor(() => expect(accessLogs()).toHaveLength(2));
+      expect(accessLogs()[0]['x-correlation-id']).toBe('req-123');
+    });
+
+    it('should not set the header when generation is disabled and none was sent', async () => {
+      AsyncContext.configure({ autoGenerate: false });
+      const { logger } = setup();
+
+      const response = await send(withRequestContext((_req, res) => res.end(), { logger }));
+
+      expect(response.headers).not.toHaveProperty('correlationid');
+    });
+
+    it('should pick the level by status class, with overrides, silent classes and ignore', async () => {
+      const { logger, accessLogs } = setup();
+      const listener = withRequestContext(
+        (req, res) => {
+          res.statusCode = Number(req.url?.slice(1));
+          res.end();
+        },
+        {
+          logger,
+          statusLevels: { '3xx': 'debug', '2xx': 'silent' },
+          ignore: (req) => req.url === '/204',
+        }
+      );
+
+      for (const status of ['404', '500', '301', '200', '204']) {
+        await send(listener, `/${status}`);
+      }
+
+      await vi.waitFor(() => expect(accessLogs()).toHaveLength(2));
+      expect(accessLogs().map((log) => [log.statusCode, log.level])).toEqual([
+        [404, 'warn'],
+        [500, 'error'],
+      ]);
+    });
+
+    it('should log aborted requests at warn', async () => {
+      const { logger, accessLogs } = setup();
+      const server = createServer(
+        withRequestContext((_req, res) => res.write('partial'), { logger })
+      );
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      const req = request({ port, host: '127.0.0.1' }, (res) => {
+        res.once('data', () => req.destroy());
+      });
+      req.on('error', () => {});
+      req.end();
+
+      await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+      expect(accessLogs()[0]).toMatchObject({
+        level: 'warn',
+        message: 'request aborted',
+        aborted: true,
+        bytes: 7,
+      });
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should keep concurrent requests in separate contexts', async () => {
+      const { transport, logger } = setup();
+      const server = createServer(
+        withRequestContext(
+          async (req, res) => {
+            AsyncContext.set('path', req.url);
+            await sleep(req.url === '/slow' ? 20 : 0);
+            logger.info('done');
+            res.end();
+          },
+          { logger, accessLog: false }
+        )
+      );
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      const get = (path: string) =>
+        new Promise<void>((resolve) =>
+          request({ port, host: '127.0.0.1', path }, (res) => res.resume().on('end', resolve)).end()
+        );
+
+      await Promise.all([get('/slow'), get('/fast')]);
+      await new Promise((resolve) => server.close(resolve));
+
+      // Completion order depends on scheduling: compare each request's own entry
+      const entries = transport
+        .getParsedEntries()
+        .sort((a, b) => String(a.path).localeCompare(String(b.path)));
+      expect(entries.map((entry) => entry.path)).toEqual(['/fast', '/slow']);
+      expect(entries[0].correlationId).not.toBe(entries[1].correlationId);
+    });
+  });
+
+  describe('Express/Connect', () => {
+    it('should run the chain in context and log the matched route', async () => {
+      const { transport, logger, accessLogs } = setup();
+      const middleware = expressRequestContext({ logger });
+
+      // Minimal Express-like app: middleware, then a router that sets req.route
+      const app = (req: IncomingMessage, res: ServerResponse) => {
+        const expressReq = req as ExpressRequestLike;
+        middleware(expressReq, res, async () => {
+          expressReq.baseUrl = '/users';
+          expressReq.route = { path: '/:id' };
+          await sleep(1);
+          logger.info({ user: req.url?.slice(7) }, 'loaded user');
+          res.end('{}');
+        });
+      };
+
+      const response = await send(app, '/users/42');
+
+      await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+      expect(transport.getParsedEntries()[0].correlationId).toBe(response.headers.correlationid);
+      expect(accessLogs()[0]).toMatchObject({ route: '/users/:id', statusCode: 200, bytes: 2 });
+    });
+  });
+
+  describe('Koa', () => {
+    it('should run downstream middleware in context', async () => {
+      const { transport, logger, accessLogs } = setup();
+      const middleware = koaRequestContext({ logger });
+
+      const app = (req: IncomingMessage, res: ServerResponse) => {
+        const ctx = { req, res, _matchedRoute: undefined as unknown };
+        void middleware(ctx, async () => {
+          await sleep(1);
+          ctx._matchedRoute = '/items/:id';
+          logger.info('downstream');
+          res.statusCode = 404;
+          res.end('not found');
+        });
+      };
+
+      const response = await send(app, '/items/9', { correlationid: 'koa-1' });
+
+      expect(response.headers.correlationid).toBe('koa-1');
+      await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+      expect(transport.getParsedEntries()[0].correlationId).toBe('koa-1');
+      expect(accessLogs()[0]).toMatchObject({
+        level: 'warn',
+        route: '/items/:id',
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('Fastify', () => {
+    it('should register a global onRequest hook that continues the lifecycle in context', async () => {
+      const { transport, logger, accessLogs } = setup();
+      const plugin = fastifyRequestContext({ logger });
+      let onRequest:
+        | ((request: FastifyRequestLike, reply: FastifyReplyLike, done: () => void) => void)
+        | undefined;
+      const instance: FastifyInstanceLike = {
+        addHook: (_name, hook) => {
+          onRequest = hook;
+        },
+      };
+
+      plugin(instance, {}, () => {});
+      expect(plugin[Symbol.for('skip-override')]).toBe(true);
+
+      // Minimal Fastify-like lifecycle: hooks, then the route handler
+      const app = (req: IncomingMessage, res: ServerResponse) => {
+        const request = { raw: req, routeOptions: { url: '/health/:probe' } };
+        onRequest?.(request, { raw: res }, () => {
+          setImmediate(() => {
+            logger.info('handler');
+            res.end('ok');
+          });
+        });
+      };
+
+      const response = await send(app, '/health/live');
+
+      await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+      expect(transport.getParsedEntries()[0].correlationId).toBe(response.headers.correlationid);
+      expect(accessLogs()[0]).toMatchObject({ route: '/health/:probe', bytes: 2 });
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for OpenTelemetryBridge
+ * Tests for span id injection at log time and AsyncContext seeding, using the OTel
+ * API with an AsyncLocalStorage context manager (no SDK or exporter needed)
+ */
+
+import { TraceFlags, context, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext } from '../src/context/Context';
+import { OpenTelemetryBridge } from '../src/context/OpenTelemetryBridge';
+import { MaskingEngine } from '../src/masking/MaskingEngine';
+import { SanitizationEngine } from '../src/sanitization/SanitizationEngine';
+import { ArrayTransport } from '../src/transports/array';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+/** Run a function with a (non-recording) span active in the OTel context */
+const withSpan = <R>(fn: () => R, spanId = SPAN_ID, traceFlags = TraceFlags.SAMPLED): R => {
+  const span = trace.wrapSpanContext({ traceId: TRACE_ID, spanId, traceFlags });
+  return context.with(trace.setSpan(context.active(), span), fn);
+};
+
+describe('OpenTelemetryBridge', () => {
+  const contextManager = new AsyncLocalStorageContextManager();
+  let bridge: OpenTelemetryBridge | undefined;
+
+  beforeAll(async () => {
+    context.setGlobalContextManager(contextManager.enable());
+    bridge = await OpenTelemetryBridge.load();
+  });
+
+  afterEach(() => {
+    bridge?.disable();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  it('should load the optional @opentelemetry/api peer dependency', () => {
+    expect(bridge).toBeInstanceOf(OpenTelemetryBridge);
+    expect(() => new OpenTelemetryBridge({} as never)).toThrow('[OpenTelemetryBridge]');
+  });
+
+  it('should map the active span context', () => {
+    expect(bridge?.getTraceContext()).toBeUndefined();
+    expect(withSpan(() => bridge?.getTraceContext())).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: '01',
+    });
+    expect(withSpan(() => bridge?.getTraceContext(), SPAN_ID, TraceFlags.NONE)?.traceFlags).toBe(
+      '00'
+    );
+    expect(withSpan(() => bridge?.getTraceContext(), '0'.repeat(16))).toBeUndefined();
+  });
+
+  describe('Injection', () => {
+    it('should inject the active span ids at log time, outside AsyncContext too', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('api', transport, 'info');
+      bridge?.enable();
+
+      withSpan(() => logger.info('in span'));
+      logger.info('no span');
+
+      const [inSpan, noSpan] = transport.getParsedEntries();
+      expect(inSpan).toMatchObject({ trace_id: TRACE_ID, span_id: SPAN_ID, trace_flags: '01' });
+      expect(noSpan).not.toHaveProperty('trace_id');
+    });
+
+    it('should follow the active span and take precedence over AsyncContext', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('api', transport, 'info');
+      bridge?.enable();
+
+      AsyncContext.run(
+        () => {
+          AsyncContext.startTrace();
+          withSpan(() => logger.info('outer'));
+          withSpan(() => logger.info('inner'), 'b7ad6b7169203331');
+
+          // The request's own context is not modified by the overlay
+          expect(AsyncContext.getTraceContext()?.traceId).not.toBe(TRACE_ID);
+        },
+        { correlationId: 'req-1' }
+      );
+
+      const [outer, inner] = transport.getParsedEntries();
+      expect(outer).toMatchObject({ span_id: SPAN_ID, correlationId: 'req-1' });
+      expect(inner).toMatchObject({ trace_id: TRACE_ID, span_id: 'b7ad6b7169203331' });
+    });
+
+    it('should inject through the compliance pipeline', () => {
+      const transport = new ArrayTransport();
+      const masking = new MaskingEngine();
+      const logger = new Logger(
+        'api',
+        transport,
+        'info',
+        {},
+        { sanitizationEngine: new SanitizationEngine(masking), maskingEngine: masking }
+      );
+      bridge?.enable();
+
+      withSpan(() => logger.info({ password: 'secret' }, 'masked'));
+
+      const log = transport.getLastEntry();
+      expect(log?.trace_id).toBe(TRACE_ID);
+      expect(log?.password).not.toBe('secret');
+    });
+
+    it('should stop injecting when disabled and never throw from a broken API', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('api', transport, 'info');
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const broken = new OpenTelemetryBridge({
+        trace: {
+          getActiveSpan: () => {
+            throw new Error('api failure');
+          },
+        },
+      });
+
+      bridge?.enable().disable();
+      withSpan(() => logger.info('disabled'));
+      broken.enable();
+      logger.info('broken');
+      broken.disable();
+
+      expect(transport.getParsedEntries().every((e) => !('trace_id' in e))).toBe(true);
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave a provider configured by someone else in place on disable', () => {
+      const other = () => ({ traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: '01' });
+
+      bridge?.enable();
+      AsyncContext.configure({ traceContextProvider: other });
+      expect(bridge?.isEnabled()).toBe(false);
+      bridge?.disable();
+
+      expect(AsyncContext.getTraceContextProvider()).toBe(other);
+      AsyncContext.configure({ traceContextProvider: undefined });
+    });
+  });
+
+  describe('Seeding', () => {
+    it('should seed AsyncContext from the active span', () => {
+      const seeding = new OpenTelemetryBridge({ trace }, { correlationIdFromTrace: true });
+
+      withSpan(() =>
+        seeding.run(() => {
+          expect(AsyncContext.getTraceContext()?.spanId).toBe(SPAN_ID);
+          expect(AsyncContext.getCorrelationId()).toBe(TRACE_ID);
+
+          // Outgoing calls continue the OTel trace with a child span
+          const headers = AsyncContext.getTraceHeaders();
+          expect(headers.traceparent).toMatch(new RegExp(`^00-${TRACE_ID}-[0-9a-f]{16}-01$`));
+        })
+      );
+    });
+
+    it('should keep the seeded trace after the span ends', async () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('api', transport, 'info');
+
+      await AsyncContext.runAsync(async () => {
+        withSpan(() => bridge?.seedAsyncContext());
+        await Promise.resolve();
+        logger.info('later');
+      });
+
+      expect(transport.getLastEntry()?.span_id).toBe(SPAN_ID);
+    });
+
+    it('should not seed without a span or an active context', () => {
+      expect(AsyncContext.run(() => bridge?.seedAsyncContext())).toBeUndefined();
+      expect(withSpan(() => bridge?.seedAsyncContext())).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Tests for OtlpTransport
+ * Tests for LogRecord mapping, batching and retries against a local collector stand-in
+ */
+
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { OtlpTransport, toAnyValue, toLogRecord, toSeverityNumber } from '../src/transports/otlp';
+
+interface ExportRequest {
+  resourceLogs: Array<{
+    resource: { attributes: Array<{ key: string; value: Record<string, unknown> }> };
+    scopeLogs: Array<{
+      logRecords: Array<{
+        severityText: string;
+        body: { stringValue: string };
+        attributes: unknown[];
+      }>;
+    }>;
+  }>;
+}
+
+describe('OtlpTransport', () => {
+  describe('Mapping', () => {
+    it('should map levels to OTLP severity numbers', () => {
+      expect(toSeverityNumber('trace')).toBe(1);
+      expect(toSeverityNumber('debug')).toBe(5);
+      expect(toSeverityNumber('info')).toBe(9);
+      expect(toSeverityNumber('warn')).toBe(13);
+      expect(toSeverityNumber('error')).toBe(17);
+      expect(toSeverityNumber('fatal')).toBe(21);
+      expect(toSeverityNumber('silent')).toBe(0);
+    });
+
+    it('should convert JSON values to AnyValue', () => {
+      expect(toAnyValue('a')).toEqual({ stringValue: 'a' });
+      expect(toAnyValue(true)).toEqual({ boolValue: true });
+      expect(toAnyValue(42)).toEqual({ intValue: '42' });
+      expect(toAnyValue(1.5)).toEqual({ doubleValue: 1.5 });
+      expect(toAnyValue([1])).toEqual({ arrayValue: { values: [{ intValue: '1' }] } });
+      expect(toAnyValue({ a: 'b', skip: undefined })).toEqual({
+        kvlistValue: { values: [{ key: 'a', value: { stringValue: 'b' } }] },
+      });
+    });
+
+    it('should map an entry to a LogRecord', () => {
+      const record = toLogRecord(
+        {
+          timestamp: 1700000000123,
+          level: 'warn',
+          message: 'disk low',
+          service: 'api',
+          userId: 7,
+          trace_id: '4bf92f3577b34da6a3ce929d0e0e4736',
+          span_id: '00f067aa0ba902b7',
+          trace_flags: '01',
+        },
+        1700000000999
+      );
+
+      expect(record.timeUnixNano).toBe('1700000000123000000');
+      expect(record.observedTimeUnixNano).toBe('1700000000999000000');
+      expect(record.severityNumber).toBe(13);
+      expect(record.severityText).toBe('WARN');
+      expect(record.body).toEqual({ stringValue: 'disk low' });
+      expect(record.attributes).toEqual([{ key: 'userId', value: { intValue: '7' } }]);
+      expect(record.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+      expect(record.spanId).toBe('00f067aa0ba902b7');
+      expect(record.flags).toBe(1);
+    });
+
+    it('should group records by service into resources', () => {
+      const transport = new OtlpTransport({ resourceAttributes: { env: 'test' } });
+      const request = transport.buildExportRequest([
+        { timestamp: 1, level: 'info', message: 'a', service: 'api' },
+        { timestamp: 2, level: 'info', message: 'b', service: 'worker' },
+        { timestamp: 3, level: 'info', message: 'c', service: 'api' },
+      ]) as unknown as ExportRequest;
+
+      expect(request.resourceLogs).toHaveLength(2);
+      expect(request.resourceLogs[0].resource.attributes).toEqual([
+        { key: 'env', value: { stringValue: 'test' } },
+        { key: 'service.name', value: { stringValue: 'api' } },
+      ]);
+      expect(request.resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(2);
+    });
+  });
+
+  describe('Export', () => {
+    let server: Server;
+    let endpoint: string;
+    let requests: ExportRequest[];
+    let statuses: number[];
+    let retryAfter: string | undefined;
+
+    beforeEach(async () => {
+      requests = [];
+      statuses = [];
+      retryAfter = undefined;
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk;
+        });
+        req.on('end', () => {
+          const status = statuses.shift() ?? 200;
+          if (status === 200) {
+            requests.push(JSON.parse(body));
+          }
+          res.writeHead(status, {
+            'Content-Type': 'application/json',
+            ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
+          });
+          res.end('{}');
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/logs`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should post batched records from Logger on flush', async () => {
+      const transport = new OtlpTransport({ endpoint, lingerMs: 60_000 });
+      const logger = new Logger('checkout', transport, 'info');
+
+      logger.info({ orderId: 'o-1' }, 'order placed');
+      logger.error('payment failed');
+      await logger.flush();
+
+      expect(requests).toHaveLength(1);
+      const [resource] = requests[0].resourceLogs;
+      expect(resource.resource.attributes).toContainEqual({
+        key: 'service.name',
+        value: { stringValue: 'checkout' },
+      });
+      const records = resource.scopeLogs[0].logRecords;
+      expect(records.map((r) => r.severityText)).toEqual(['INFO', 'ERROR']);
+      expect(records[0].attributes).toEqual([{ key: 'orderId', value: { stringValue: 'o-1' } }]);
+    });
+
+    it('should split batches by maxBatchSize', async () => {
+      const transport = new OtlpTransport({ endpoint, maxBatchSize: 2, lingerMs: 60_000 });
+
+      for (let i = 0; i < 5; i++) {
+        transport.log({ timestamp: i, level: 'info', message: `m${i}`, service: 's' });
+      }
+      await transport.flush();
+
+      const sizes = requests.map((r) => r.resourceLogs[0].scopeLogs[0].logRecords.length);
+      expect(sizes).toEqual([2, 2, 1]);
+    });
+
+    it('should send after lingerMs without an explicit flush', async () => {
+      const transport = new OtlpTransport({ endpoint, lingerMs: 10 });
+
+      transport.log({ timestamp: 1, level: 'info', message: 'lingering', service: 's' });
+      await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+      await transport.close();
+    });
+
+    it('should retry retryable statuses with backoff', async () => {
+      statuses = [503, 429];
+      const transport = new OtlpTransport({ endpoint, retryBackoffMs: 1 });
+
+      transport.log({ timestamp: 1, level: 'info', message: 'retried', service: 's' });
+      await transport.flush();
+
+      expect(requests).toHaveLength(1);
+      expect(transport.dropped).toBe(0);
+    });
+
+    it('should honour an HTTP-date Retry-After, capped by maxBackoffMs', async () => {
+      statuses = [503];
+      retryAfter = new Date(Date.now() + 60_000).toUTCString();
+      const transport = new OtlpTransport({ endpoint, retryBackoffMs: 1, maxBackoffMs: 200 });
+
+      const start = Date.now();
+      transport.log({ timestamp: 1, level: 'info', message: 'later', service: 's' });
+      await transport.flush();
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should drop the batch on non-retryable statuses', async () => {
+      statuses = [400];
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new OtlpTransport({ endpoint, retryBackoffMs: 1 });
+
+      transport.log({ timestamp: 1, level: 'info', message: 'bad', service: 's' });
+      await transport.flush();
+
+      expect(requests).toHaveLength(0);
+      expect(transport.dropped).toBe(1);
+      errorSpy.mockRestore();
+    });
+
+    it('should give up after maxRetries', async () => {
+      statuses = [503, 503, 503];
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new OtlpTransport({ endpoint, maxRetries: 2, retryBackoffMs: 1 });
+
+      transport.log({ timestamp: 1, level: 'info', message: 'x', service: 's' });
+      await transport.flush();
+
+      expect(transport.dropped).toBe(1);
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should respect its level and drop records when the queue is full', async () => {
+      const transport = new OtlpTransport({
+        endpoint,
+        level: 'warn',
+        maxQueueSize: 1,
+        lingerMs: 60_000,
+      });
+
+      transport.log('{"timestamp":1,"level":"info","message":"filtered","service":"s"}');
+      transport.log('{"timestamp":2,"level":"warn","message":"kept","service":"s"}');
+      transport.log('{"timestamp":3,"level":"error","message":"overflow","service":"s"}');
+      transport.log('not json');
+      await transport.flush();
+
+      const records = requests[0].resourceLogs[0].scopeLogs[0].logRecords;
+      expect(records.map((r) => r.body.stringValue)).toEqual(['kept']);
+      expect(transport.dropped).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for outbound instrumentation
+ * Tests for header propagation, host allowlist, call logging and suppression for fetch and http
+ */
+
+import http, { type IncomingHttpHeaders, createServer, request as namedRequest } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext } from '../src/context/Context';
+import { instrumentOutbound, withoutInstrumentation } from '../src/instrumentation';
+import { ArrayTransport } from '../src/transports/array';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('Outbound instrumentation', () => {
+  const received: IncomingHttpHeaders[] = [];
+  const server = createServer((req, res) => {
+    received.push(req.headers);
+    res.statusCode = req.url?.startsWith('/missing') ? 404 : 200;
+    res.end('ok');
+  });
+  let base = '';
+  let port = 0;
+  let uninstall: (() => void) | undefined;
+
+  /** http.get through the (possibly patched) module, resolving once the body is read */
+  const httpGet = (path: string, headers: Record<string, string> = {}) =>
+    new Promise<number>((resolve, reject) => {
+      http
+        .get({ port, host: '127.0.0.1', path, headers }, (res) => {
+          res.resume().on('end', () => resolve(res.statusCode ?? 0));
+        })
+        .on('error', reject);
+    });
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+    base = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    uninstall = undefined;
+    received.length = 0;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should propagate the correlation ID and trace over fetch to allowed hosts', async () => {
+    uninstall = instrumentOutbound({ allowedHosts: ['127.0.0.1'] });
+
+    await AsyncContext.runAsync(
+      async () => {
+        AsyncContext.startTrace({ traceparent: TRACEPARENT });
+        await (await fetch(`${base}/a`)).text();
+        await (
+          await fetch(new Request(`${base}/b`, { headers: { correlationId: 'mine' } }))
+        ).text();
+      },
+      { correlationId: 'req-1' }
+    );
+
+    expect(received[0].correlationid).toBe('req-1');
+    expect(received[0].traceparent).toMatch(
+      /^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/
+    );
+    expect(received[0].traceparent).not.toBe(TRACEPARENT);
+    // Headers set by the caller are kept
+    expect(received[1].correlationid).toBe('mine');
+  });
+
+  it('should propagate configured context keys over http.request, http.get and named imports', async () => {
+    uninstall = instrumentOutbound({
+      allowedHosts: [/^127\.0\.0\.\d+$/],
+      contextHeaders: { tenantId: 'x-tenant-id', correlationId: 'x-request-id' },
+      propagateTrace: false,
+    });
+
+    await AsyncContext.runAsync(
+      async () => {
+        AsyncContext.startTrace();
+        await httpGet('/get');
+        await new Promise<void>((resolve) => {
+          namedRequest({ port, host: '127.0.0.1', path: '/named', method: 'POST' }, (res) =>
+            res.resume().on('end', resolve)
+          ).end();
+        });
+      },
+      { correlationId: 'req-2', tenantId: 7 }
+    );
+
+    for (const headers of received) {
+      expect(headers['x-tenant-id']).toBe('7');
+      expect(headers['x-request-id']).toBe('req-2');
+      expect(headers).not.toHaveProperty('traceparent');
+    }
+    expect(received).toHaveLength(2);
+  });
+
+  it('should send calls to other hosts unchanged', async () => {
+    uninstall = instrumentOutbound({ allowedHosts: ['*.internal.example.com', 'localhost'] });
+
+    await AsyncContext.runAsync(
+      async () => {
+        AsyncContext.startTrace();
+        await (await fetch(`${base}/external`)).text();
+        await httpGet('/external');
+      },
+      { correlationId: 'secret-id' }
+    );
+
+    for (const headers of received) {
+      expect(headers).not.toHaveProperty('correlationid');
+      expect(headers).not.toHaveProperty('traceparent');
+    }
+  });
+
+  it('should log each call with method, host, path, status and duration', async () => {
+    const transport = new ArrayTransport();
+    const logger = new Logger('api', transport, 'debug');
+    uninstall = instrumentOutbound({ allowedHosts: [], logger, level: 'debug' });
+
+    await AsyncContext.runAsync(
+      async () => {
+        await (await fetch(`${base}/missing?token=x`, { method: 'post' })).text();
+        await httpGet('/ok?q=1');
+        await fetch('http://127.0.0.1:1/refused').catch(() => undefined);
+      },
+      { correlationId: 'req-3' }
+    );
+
+    const [fetched, got, failed] = transport.getParsedEntries();
+    expect(fetched).toMatchObject({
+      level: 'debug',
+      message: 'outgoing request completed',
+      correlationId: 'req-3',
+      method: 'POST',
+      host: `127.0.0.1:${port}`,
+      path: '/missing',
+      statusCode: 404,
+    });
+    expect(fetched.durationMs).toBeGreaterThan(0);
+    expect(got).toMatchObject({
+      method: 'GET',
+      path: '/ok',
+      statusCode: 200,
+      correlationId: 'req-3',
+    });
+    expect(failed).toMatchObject({
+      level: 'error',
+      message: 'outgoing request failed',
+      path: '/refused',
+    });
+    expect(failed).not.toHaveProperty('statusCode');
+  });
+
+  it('should log http failures without hiding them from the caller', async () => {
+    const transport = new ArrayTransport();
+    const logger = new Logger('api', transport, 'info');
+    uninstall = instrumentOutbound({ allowedHosts: [], logger });
+
+    const error = await new Promise<Error>((resolve) => {
+      http.get({ port: 1, host: '127.0.0.1', path: '/down' }).on('error', resolve);
+    });
+
+    expect(error.message).toContain('ECONNREFUSED');
+    await vi.waitFor(() =>
+      expect(transport.getLastEntry()).toMatchObject({ level: 'error', path: '/down' })
+    );
+  });
+
+  it('should skip calls made inside withoutInstrumentation', async () => {
+    const transport = new ArrayTransport();
+    const logger = new Logger('api', transport, 'info');
+    uninstall = instrumentOutbound({ allowedHosts: ['127.0.0.1'], logger });
+
+    await AsyncContext.runAsync(
+      async () => {
+        await withoutInstrumentation(async () => {
+          await (await fetch(`${base}/delivery`)).text();
+          await httpGet('/delivery');
+        });
+      },
+      { correlationId: 'req-4' }
+    );
+
+    expect(received.every((headers) => !('correlationid' in headers))).toBe(true);
+    expect(transport.getParsedEntries()).toHaveLength(0);
+  });
+
+  it('should restore the originals and refuse double installs', () => {
+    const originalFetch = globalThis.fetch;
+    const originalRequest = http.request;
+
+    uninstall = instrumentOutbound({ allowedHosts: [] });
+    expect(globalThis.fetch).not.toBe(originalFetch);
+    expect(http.request).not.toBe(originalRequest);
+    expect(() => instrumentOutbound({ allowedHosts: [] })).toThrow('Already installed');
+
+    uninstall();
+    uninstall();
+    expect(globalThis.fetch).toBe(originalFetch);
+    expect(http.request).toBe(originalRequest);
+    expect(namedRequest).toBe(originalRequest);
+    expect(() => instrumentOutbound({} as never)).toThrow('allowedHosts must be an array');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for the PSEUDONYMIZE masking strategy
+ * Tests for deterministic HMAC pseudonyms, key rotation, env keys and secret handling
+ */
+
+import { createHmac } from 'node:crypto';
+import { inspect } from 'node:util';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MaskingEngine, MaskingStrategy } from '../src/masking/MaskingEngine';
+import { Pseudonymizer, loadPseudonymKey } from '../src/masking/Pseudonymizer';
+
+const SECRET = 'analytics-secret-2026-q4';
+const KEY = { id: 'k2026q4', secret: SECRET };
+
+describe('Pseudonymization', () => {
+  const createEngine = (key = KEY) =>
+    new MaskingEngine({
+      enableDefaultRules: false,
+      pseudonymKey: key,
+      rules: [
+        { pattern: /^email$/i, strategy: MaskingStrategy.PSEUDONYMIZE },
+        {
+          pattern: /^userId$/,
+          strategy: MaskingStrategy.PSEUDONYMIZE,
+          pseudonymize: { prefix: 'user', length: 32 },
+        },
+      ],
+    });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should replace values with a keyed HMAC-SHA256 digest and the key id', () => {
+    const result = createEngine().process({ email: 'ana@example.com', userId: 'u-42' });
+    const digest = (value: string) => createHmac('sha256', SECRET).update(value).digest('hex');
+
+    expect(result.email).toBe(`k2026q4:${digest('ana@example.com').slice(0, 16)}`);
+    expect(result.userId).toBe(`user:k2026q4:${digest('u-42').slice(0, 32)}`);
+  });
+
+  it('should be deterministic within a key epoch and change with the key', () => {
+    const engine = createEngine();
+    const first = engine.process({ email: 'ana@example.com' }).email;
+    const second = createEngine().process({ email: 'ana@example.com' }).email;
+    const other = engine.process({ email: 'bob@example.com' }).email;
+
+    expect(second).toBe(first);
+    expect(other).not.toBe(first);
+
+    engine.rotatePseudonymKey({ id: 'k2027q1', secret: 'analytics-secret-2027-q1' });
+    const rotated = engine.process({ email: 'ana@example.com' }).email as string;
+    expect(rotated.startsWith('k2027q1:')).toBe(true);
+    expect(rotated.slice(8)).not.toBe((first as string).slice(8));
+    expect(engine.getStats().pseudonymKeyId).toBe('k2027q1');
+  });
+
+  it('should read the key from the environment', () => {
+    vi.stubEnv('LOG_PSEUDONYM_KEY', SECRET);
+    vi.stubEnv('LOG_PSEUDONYM_KEY_ID', 'k2026q4');
+
+    const fromEnv = new MaskingEngine({
+      enableDefaultRules: false,
+      rules: [{ pattern: /^email$/i, strategy: MaskingStrategy.PSEUDONYMIZE }],
+    });
+
+    expect(fromEnv.process({ email: 'ana@example.com' })).toEqual(
+      createEngine().process({ email: 'ana@example.com' })
+    );
+    expect(loadPseudonymKey({ LOG_PSEUDONYM_KEY: SECRET })).toEqual({ id: 'k1', secret: SECRET });
+  });
+
+  it('should reject rules without a key and invalid keys or formats', () => {
+    vi.stubEnv('LOG_PSEUDONYM_KEY', '');
+    const rule = { pattern: 'email', strategy: MaskingStrategy.PSEUDONYMIZE };
+
+    expect(() => new MaskingEngine({ rules: [rule] })).toThrow('PSEUDONYMIZE rules need a key');
+    expect(() => new MaskingEngine({ pseudonymKey: { id: 'k1', secret: 'short' } })).toThrow(
+      'must be at least 16 bytes'
+    );
+    expect(() => new Pseudonymizer({ id: 'k:1', secret: SECRET })).toThrow('Invalid key id "k:1"');
+    expect(() => createEngine().addRule({ ...rule, pseudonymize: { length: 4 } })).toThrow(
+      'length must be an integer from 8 to 64'
+    );
+  });
+
+  it('should never expose the secret through stats or inspection', () => {
+    const engine = createEngine();
+
+    expect(JSON.stringify(engine.getStats())).not.toContain(SECRET);
+    expect(inspect(engine, { depth: 10 })).not.toContain(SECRET);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Tests for Redactor
+ * Tests for path parsing, censor/remove/function modes and Logger integration
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext } from '../src/context/Context';
+import { createLogger } from '../src/index';
+import { MaskingEngine } from '../src/masking/MaskingEngine';
+import { REDACTED_REMOVE, Redactor, parseRedactPath } from '../src/redaction/Redactor';
+import { SanitizationEngine } from '../src/sanitization/SanitizationEngine';
+import { stdSerializers } from '../src/serializers/StandardSerializers';
+import { ArrayTransport } from '../src/transports/array';
+
+describe('Redactor', () => {
+  describe('Path parsing', () => {
+    it('should parse dotted, bracket, quoted and wildcard segments', () => {
+      expect(parseRedactPath('req.headers.authorization')).toEqual([
+        { key: 'req' },
+        { key: 'headers' },
+        { key: 'authorization' },
+      ]);
+      expect(parseRedactPath('items[*].card["number"]')).toEqual([
+        { key: 'items' },
+        { wildcard: true },
+        { key: 'card' },
+        { key: 'number' },
+      ]);
+      expect(parseRedactPath("a['x-api.key'][0].*")).toEqual([
+        { key: 'a' },
+        { key: 'x-api.key' },
+        { key: '0' },
+        { wildcard: true },
+      ]);
+    });
+
+    it.each([
+      ['', 'paths must be non-empty strings'],
+      ['a..b', 'empty segment'],
+      ['a.', 'trailing "."'],
+      ['.a', 'empty segment'],
+      ['a[b]', 'brackets must contain'],
+      ['a[0', 'unterminated "["'],
+      ['a["b]', 'unterminated quote'],
+      ['a["b"x', 'expected "]"'],
+      ['a[0]b', 'expected "." or "["'],
+      ['a]', 'unexpected "]"'],
+    ])('should reject %j with a clear error', (path, reason) => {
+      expect(() => parseRedactPath(path)).toThrow(`Invalid redact path "${path}": ${reason}`);
+    });
+
+    it('should validate every path and option up front', () => {
+      expect(() => new Redactor([])).toThrow('non-empty array of paths');
+      expect(() => new Redactor(['ok', 'bad..path'])).toThrow('"bad..path"');
+      expect(() => new Redactor({ paths: ['a'], remove: 'yes' as never })).toThrow(
+        'remove must be a boolean'
+      );
+    });
+  });
+
+  describe('Modes', () => {
+    const payload = () => ({
+      headers: { authorization: 'Bearer x', accept: 'json' },
+      user: { authorization: { role: 'admin' } },
+    });
+
+    it('should censor exact paths and leave same-named keys elsewhere', () => {
+      const redactor = new Redactor(['req.headers.authorization']);
+      const req = payload();
+
+      const result = redactor.redactField('req', req);
+
+      expect(result).toEqual({
+        headers: { authorization: '[Redacted]', accept: 'json' },
+        user: { authorization: { role: 'admin' } },
+      });
+      // Original object is never mutated, untouched branches are shared
+      expect(req.headers.authorization).toBe('Bearer x');
+      expect((result as typeof req).user).toBe(req.user);
+    });
+
+    it('should censor with a custom value', () => {
+      const redactor = new Redactor({ paths: ['secret'], censor: null });
+
+      expect(redactor.redactRecord({ secret: 's', other: 1 })).toEqual({ secret: null, other: 1 });
+    });
+
+    it('should remove keys', () => {
+      const redactor = new Redactor({ paths: ['token', 'user.password'], remove: true });
+
+      expect(redactor.redactField('token', 't')).toBe(REDACTED_REMOVE);
+      expect(redactor.redactRecord({ token: 't', user: { id: 1, password: 'p' } })).toEqual({
+        user: { id: 1 },
+      });
+    });
+
+    it('should remove array elements without leaving holes', () => {
+      const redactor = new Redactor({ paths: ['items.*', 'list[1]'], remove: true });
+
+      expect(redactor.redactRecord({ items: ['a', 'b'], list: [1, 2, 3] })).toEqual({
+        items: [],
+        list: [1, 3],
+      });
+      expect(JSON.stringify(redactor.redactField('list', [1, 2, 3]))).toBe('[1,3]');
+    });
+
+    it('should pass the value and concrete path to a censor function', () => {
+      const seen: string[][] = [];
+      const redactor = new Redactor({
+        paths: ['items[*].card.number'],
+        censor: (value: unknown, path: string[]) => {
+          seen.push(path);
+          return `****${String(value).slice(-4)}`;
+        },
+      });
+
+      const result = redactor.redactField('items', [
+        { card: { number: '4111111111111111', brand: 'visa' } },
+        { card: { brand: 'amex' } },
+      ]);
+
+      expect(result).toEqual([
+        { card: { number: '****1111', brand: 'visa' } },
+        { card: { brand: 'amex' } },
+      ]);
+      expect(seen).toEqual([['items', '0', 'card', 'number']]);
+    });
+
+    it('should combine exact and wildcard paths on the same branch', () => {
+      const redactor = new Redactor(['a.*.x', 'a.b.y']);
+
+      expect(redactor.redactField('a', { b: { x: 1, y: 2, z: 3 }, c: { x: 4 } })).toEqual({
+        b: { x: '[Redacted]', y: '[Redacted]', z: 3 },
+        c: { x: '[Redacted]' },
+      });
+    });
+
+    it('should return unrelated fields untouched', () => {
+      const redactor = new Redactor(['a.b']);
+      const value = { b: 1 };
+
+      expect(redactor.redactField('other', value)).toBe(value);
+      expect(redactor.redactField('a', 'primitive')).toBe('primitive');
+    });
+  });
+
+  describe('Logger integration', () => {
+    it('should redact metadata, bindings and context from createLogger options', () => {
+      const transport = new ArrayTransport();
+      const logger = createLogger({
+        transport,
+        redact: ['req.headers.authorization', 'session.token', 'tenant.apiKey'],
+      }).child({ tenant: { id: 't1', apiKey: 'k' } });
+
+      AsyncContext.run(
+        () => {
+          logger.info({ req: { headers: { authorization: 'Bearer x' } } }, 'request');
+        },
+        { session: { id: 's1', token: 'abc' } }
+      );
+
+      const log = transport.getLastEntry();
+      expect(log?.req).toEqual({ headers: { authorization: '[Redacted]' } });
+      expect(log?.tenant).toEqual({ id: 't1', apiKey: '[Redacted]' });
+      expect(log?.session).toEqual({ id: 's1', token: '[Redacted]' });
+    });
+
+    it('should drop removed top-level fields from the JSON line', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger(
+        'app',
+        transport,
+        'info',
+        {},
+        {
+          redactor: new Redactor({ paths: ['password'], remove: true }),
+        }
+      );
+
+      logger.info({ user: 'ana', password: 'p' }, 'login');
+
+      const log = transport.getLastEntry();
+      expect(log).not.toHaveProperty('password');
+      expect(log?.user).toBe('ana');
+    });
+
+    it('should redact serializer output and Error fields', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger(
+        'app',
+        transport,
+        'info',
+        {},
+        {
+          serializers: stdSerializers,
+          redactor: new Redactor(['req.headers.cookie', 'err.config']),
+        }
+      );
+      const req = { method: 'GET', url: '/', headers: { cookie: 'sid=1', host: 'x' } };
+      const err = Object.assign(new Error('request failed'), { config: { auth: 'secret' } });
+
+      logger.error({ req, err }, 'failed');
+
+      const log = transport.getLastEntry<{
+        req: { headers: Record<string, string> };
+        err: { message: string; config: string };
+      }>();
+      expect(log?.req.headers).toEqual({ cookie: '[Redacted]', host: 'x' });
+      expect(log?.err.message).toBe('request failed');
+      expect(log?.err.config).toBe('[Redacted]');
+    });
+
+    it('should fail closed when a censor function throws', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new ArrayTransport();
+      const censor = () => {
+        throw new Error('boom');
+      };
+      const masking = new MaskingEngine({ enableDefaultRules: false });
+
+      createLogger({ transport, redact: { paths: ['secret'], censor } }).info({ secret: 'a' });
+      createLogger({
+        transport,
+        maskingEngine: masking,
+        sanitizationEngine: new SanitizationEngine(masking),
+        redact: { paths: ['card.cvv'], censor },
+      }).info({ card: { cvv: '123' }, user: 'ana' });
+
+      expect(transport.getParsedEntries().map((entry) => [entry.secret, entry.card])).toEqual([
+        ['[Redacted]', undefined],
+        [undefined, '[Redacted]'],
+      ]);
+      expect(transport.getLastEntry()?.user).toBe('ana');
+      expect(errorSpy).toHaveBeenCalledWith('[Logger Error] Redaction failed:', expect.any(Error));
+      errorSpy.mockRestore();
+    });
+
+    it('should redact before masking in the compliance pipeline', () => {
+      const transport = new ArrayTransport();
+      const masking = new MaskingEngine({ enableDefaultRules: false });
+      const logger = createLogger({
+        transport,
+        maskingEngine: masking,
+        sanitizationEngine: new SanitizationEngine(masking),
+        redact: { paths: ['card.cvv'], remove: true },
+      });
+
+      logger.info({ card: { cvv: '123', last4: '1111' } }, 'paid');
+
+      expect(transport.getLastEntry()?.card).toEqual({ last4: '1111' });
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for RoutingTransport
+ * Tests for level ranges, filters, single parsing and error isolation
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { Transport } from '../src/transports/Transport';
+import { ArrayTransport } from '../src/transports/array';
+import { RoutingTransport } from '../src/transports/routing';
+import type { LogEntry } from '../src/types';
+
+/** Records raw entries without parsing them */
+class RawTransport extends Transport {
+  public readonly received: Array<LogEntry | string> = [];
+
+  log(entry: LogEntry | string): void {
+    this.received.push(entry);
+  }
+}
+
+const messages = (transport: RawTransport) =>
+  transport.received.map((e) => (typeof e === 'string' ? JSON.parse(e).message : e.message));
+
+describe('RoutingTransport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should dispatch each entry only to routes whose level range matches', () => {
+    const errors = new RawTransport();
+    const stdout = new RawTransport();
+    const debugOnly = new RawTransport();
+    const logger = new Logger(
+      'app',
+      new RoutingTransport([
+        { transport: errors, minLevel: 'error' },
+        { transport: stdout, minLevel: 'info' },
+        { transport: debugOnly, minLevel: 'debug', maxLevel: 'debug' },
+      ]),
+      'trace'
+    );
+
+    logger.trace('t');
+    logger.debug('d');
+    logger.info('i');
+    logger.error('e');
+    logger.fatal('f');
+
+    expect(messages(errors)).toEqual(['e', 'f']);
+    expect(messages(stdout)).toEqual(['i', 'e', 'f']);
+    expect(messages(debugOnly)).toEqual(['d']);
+  });
+
+  it('should forward the original string without parsing it when no filter applies', () => {
+    const destination = new RawTransport();
+    const router = new RoutingTransport([{ transport: destination, minLevel: 'info' }]);
+    const parseSpy = vi.spyOn(JSON, 'parse');
+    const line = '{"timestamp":1,"level":"warn","message":"disk","service":"s"}';
+
+    router.log(line);
+
+    expect(parseSpy).not.toHaveBeenCalled();
+    expect(destination.received).toEqual([line]);
+  });
+
+  it('should parse at most once when several filters match', () => {
+    const a = new RawTransport();
+    const b = new RawTransport();
+    const router = new RoutingTransport([
+      { transport: a, minLevel: 'info', filter: (e) => e.service === 'billing' },
+      { transport: b, minLevel: 'info', filter: (e) => e.userId === 7 },
+    ]);
+    const parseSpy = vi.spyOn(JSON, 'parse');
+
+    router.log('{"timestamp":1,"level":"info","message":"paid","service":"billing","userId":8}');
+
+    expect(parseSpy).toHaveBeenCalledTimes(1);
+    expect(a.received).toHaveLength(1);
+    expect(b.received).toHaveLength(0);
+  });
+
+  it('should fall back to parsing entries from other producers', () => {
+    const destination = new RawTransport();
+    const router = new RoutingTransport([{ transport: destination, minLevel: 'warn' }]);
+
+    router.log('{"level":"error","message":"custom order"}');
+    router.log({ timestamp: 1, level: 'info', message: 'object below range' });
+    router.log({ timestamp: 1, level: 'fatal', message: 'object' });
+    router.log('not json');
+    router.log('{"message":"no level"}');
+
+    expect(messages(destination)).toEqual(['custom order', 'object']);
+  });
+
+  it('should isolate failing destinations and throwing filters', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = new RawTransport();
+    broken.log = () => {
+      throw new Error('boom');
+    };
+    const healthy = new ArrayTransport();
+    const router = new RoutingTransport([
+      { transport: broken, minLevel: 'info' },
+      {
+        transport: new RawTransport(),
+        minLevel: 'info',
+        filter: () => {
+          throw new Error('bad filter');
+        },
+      },
+      { transport: healthy, minLevel: 'info' },
+    ]);
+
+    router.log('{"timestamp":1,"level":"info","message":"ok","service":"s"}');
+
+    expect(healthy.entries).toHaveLength(1);
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should validate routes up front', () => {
+    const transport = new RawTransport();
+
+    expect(() => new RoutingTransport([])).toThrow('At least one route');
+    expect(() => new RoutingTransport([{ transport, minLevel: 'loud' as never }])).toThrow(
+      'Invalid minLevel'
+    );
+    expect(() => new RoutingTransport([{ transport, minLevel: 'silent' }])).toThrow(
+      'Invalid minLevel'
+    );
+    expect(
+      () => new RoutingTransport([{ transport, minLevel: 'error', maxLevel: 'info' }])
+    ).toThrow('below minLevel');
+    expect(() => new RoutingTransport([{ minLevel: 'info' } as never])).toThrow(
+      'needs a transport'
+    );
+  });
+
+  it('should flush and close every destination', async () => {
+    const flushed: string[] = [];
+    const make = (name: string) => {
+      const transport = new RawTransport();
+      transport.flush = async () => {
+        flushed.push(name);
+      };
+      transport.close = async () => {
+        flushed.push(`${name}:closed`);
+      };
+      return transport;
+    };
+    const router = new RoutingTransport([
+      { transport: make('a'), minLevel: 'info' },
+      { transport: make('b'), minLevel: 'error' },
+    ]);
+
+    await router.flush();
+    await router.close();
+
+    expect(flushed).toEqual(['a', 'b', 'a:closed', 'b:closed']);
+  });
+});
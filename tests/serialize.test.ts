@@ -3,7 +3,14 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { safeStringify, serialize } from '../src/utils/serialize';
+import { errorReplacer, safeStringify, serialize, serializeErrors } from '../src/utils/serialize';
+
+interface SerializedChain {
+  name: string;
+  message: string;
+  cause?: SerializedChain | string;
+  errors?: SerializedChain[];
+}
 
 describe('serialize', () => {
   describe('Primitives', () => {
@@ -78,6 +85,34 @@ describe('serialize', () => {
     });
   });
 
+  describe('Error Chains', () => {
+    it('should serialize cause chains recursively', () => {
+      const error = new Error('outer', { cause: new Error('inner', { cause: 'root' }) });
+
+      const result = serialize(error) as SerializedChain;
+
+      const cause = result.cause as SerializedChain;
+      expect(cause.message).toBe('inner');
+      expect(cause.cause).toBe('root');
+    });
+
+    it('should serialize AggregateError.errors', () => {
+      const error = new AggregateError([new Error('a'), new TypeError('b')], 'many');
+
+      const result = serialize(error) as SerializedChain;
+
+      expect(result.name).toBe('AggregateError');
+      expect(result.errors?.map((e) => e.name)).toEqual(['Error', 'TypeError']);
+    });
+
+    it('should mark circular causes', () => {
+      const error = new Error('loop') as Error & { cause?: unknown };
+      error.cause = error;
+
+      expect((serialize(error) as SerializedChain).cause).toBe('[Circular]');
+    });
+  });
+
   describe('Arrays', () => {
     it('should serialize arrays with primitives', () => {
       const arr = [1, 'string', true, null];
@@ -166,6 +201,39 @@ describe('serialize', () => {
   });
 });
 
+describe('errorReplacer', () => {
+  it('should expand Errors at any depth in JSON.stringify', () => {
+    const json = JSON.stringify({ a: [{ err: new Error('deep') }] }, errorReplacer);
+
+    expect(JSON.parse(json).a[0].err).toMatchObject({ name: 'Error', message: 'deep' });
+  });
+});
+
+describe('serializeErrors', () => {
+  it('should replace nested Errors and keep other values untouched', () => {
+    const date = new Date('2024-01-01');
+    const result = serializeErrors({ date, list: [new Error('x')], n: 1 }) as {
+      date: Date;
+      list: SerializedChain[];
+      n: number;
+    };
+
+    expect(result.date).toBe(date);
+    expect(result.list[0]).toMatchObject({ name: 'Error', message: 'x' });
+    expect(result.n).toBe(1);
+  });
+
+  it('should tolerate circular plain objects', () => {
+    const obj: Record<string, unknown> = { err: new Error('x') };
+    obj.self = obj;
+
+    const result = serializeErrors(obj) as { err: SerializedChain; self: unknown };
+
+    expect(result.err.message).toBe('x');
+    expect(result.self).toBe(obj);
+  });
+});
+
 describe('safeStringify', () => {
   it('should stringify simple objects', () => {
     const obj = { key: 'value' };
@@ -0,0 +1,228 @@
+/**
+ * Tests for per-key serializers
+ * Tests for stdSerializers, custom serializers, child inheritance and circular fallbacks
+ */
+
+import { type IncomingMessage, type ServerResponse, createServer, request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext } from '../src/context/Context';
+import { createLogger } from '../src/index';
+import { MaskingEngine, MaskingStrategy } from '../src/masking/MaskingEngine';
+import { SanitizationEngine } from '../src/sanitization/SanitizationEngine';
+import {
+  errSerializer,
+  reqSerializer,
+  resSerializer,
+  stdSerializers,
+} from '../src/serializers/StandardSerializers';
+import { ArrayTransport } from '../src/transports/array';
+
+interface SerializedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  remoteAddress: string;
+}
+
+/** Run one request through a local server and hand its req/res to the callback */
+const withRequest = async (
+  handler: (req: IncomingMessage, res: ServerResponse) => void
+): Promise<void> => {
+  const server = createServer((req, res) => {
+    res.setHeader('x-served-by', 'test');
+    res.statusCode = 201;
+    handler(req, res);
+    res.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  await new Promise<void>((resolve, reject) => {
+    const req = request(
+      { port, host: '127.0.0.1', path: '/orders?id=1', method: 'POST' },
+      (res) => {
+        res.resume();
+        res.on('end', resolve);
+      }
+    );
+    req.on('error', reject);
+    req.setHeader('x-request-id', 'r-1');
+    req.end();
+  });
+  await new Promise((resolve) => server.close(resolve));
+};
+
+describe('Serializers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('stdSerializers', () => {
+    it('should serialize http.IncomingMessage and http.ServerResponse', async () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('api', transport, 'info', {}, { serializers: stdSerializers });
+
+      await withRequest((req, res) => {
+        logger.info({ req, res }, 'request');
+      });
+
+      const log = transport.getLastEntry<{
+        req: SerializedRequest;
+        res: { statusCode: number; headers: Record<string, string> };
+      }>();
+      expect(log?.req.method).toBe('POST');
+      expect(log?.req.url).toBe('/orders?id=1');
+      expect(log?.req.headers['x-request-id']).toBe('r-1');
+      expect(log?.req.remoteAddress).toBe('127.0.0.1');
+      expect(log?.res).toEqual({ statusCode: 201, headers: { 'x-served-by': 'test' } });
+    });
+
+    it('should prefer originalUrl for framework requests', () => {
+      const req = { method: 'GET', url: '/', originalUrl: '/api/users', headers: {} };
+
+      expect(reqSerializer(req)).toMatchObject({ url: '/api/users' });
+    });
+
+    it('should fall back to serialize() for values of another shape', () => {
+      const circular: Record<string, unknown> = { name: 'not a request' };
+      circular.self = circular;
+
+      expect(reqSerializer(circular)).toEqual({ name: 'not a request', self: '[Circular]' });
+      expect(resSerializer('plain')).toBe('plain');
+      expect(errSerializer(new Error('boom'))).toMatchObject({ name: 'Error', message: 'boom' });
+    });
+  });
+
+  describe('Logger', () => {
+    it('should apply custom serializers to metadata, bindings and context keys', () => {
+      const transport = new ArrayTransport();
+      const logger = createLogger({
+        transport,
+        serializers: { user: (u) => ({ id: (u as { id: number }).id }) },
+      });
+
+      logger.child({ user: { id: 1, password: 'x' } }).info('bound');
+      logger.info({ user: { id: 2, password: 'y' } }, 'metadata');
+      AsyncContext.run(() => logger.info('context'), { user: { id: 3, password: 'z' } });
+
+      expect(transport.getParsedEntries().map((e) => e.user)).toEqual([
+        { id: 1 },
+        { id: 2 },
+        { id: 3 },
+      ]);
+    });
+
+    it('should inherit serializers in children and let them override by key', () => {
+      const transport = new ArrayTransport();
+      const parent = new Logger(
+        'app',
+        transport,
+        'info',
+        {},
+        { serializers: { a: () => 'parent-a', b: () => 'parent-b' } }
+      );
+      const child = parent.child({}, { serializers: { b: () => 'child-b' } });
+
+      child.info({ a: 1, b: 2 }, 'child');
+      parent.info({ a: 1, b: 2 }, 'parent');
+
+      const [fromChild, fromParent] = transport.getParsedEntries();
+      expect(fromChild).toMatchObject({ a: 'parent-a', b: 'child-b' });
+      expect(fromParent).toMatchObject({ a: 'parent-a', b: 'parent-b' });
+    });
+
+    it('should not crash on circular metadata without a serializer', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('app', transport, 'info');
+      const entity: Record<string, unknown> = { id: 7 };
+      entity.owner = { entity };
+
+      logger.info({ entity, big: 10n }, 'orm entity');
+
+      const log = transport.getLastEntry();
+      expect(log?.entity).toEqual({ id: 7, owner: { entity: '[Circular]' } });
+      expect(log?.big).toBe('10');
+    });
+
+    it('should write nested BigInt values as strings instead of throwing', () => {
+      const transport = new ArrayTransport();
+      const masking = new MaskingEngine({ enableDefaultRules: false });
+      const plain = new Logger('app', transport, 'info');
+      const compliant = new Logger(
+        'app',
+        transport,
+        'info',
+        {},
+        { sanitizationEngine: new SanitizationEngine(masking), maskingEngine: masking }
+      );
+      const metadata = { n: { big: 1n }, list: [2n, { big: 3n }] };
+
+      expect(() => plain.info(metadata, 'plain')).not.toThrow();
+      expect(() => compliant.info(metadata, 'compliant')).not.toThrow();
+
+      const entries = transport.getParsedEntries();
+      expect(entries).toHaveLength(2);
+      for (const log of entries) {
+        expect(log).toMatchObject({ n: { big: '1' }, list: ['2', { big: '3' }] });
+      }
+    });
+
+    it('should write BigInt values next to circular references', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('app', transport, 'info');
+      const entity: Record<string, unknown> = { id: 4n };
+      entity.self = entity;
+
+      expect(() => logger.info({ entity }, 'cyclic')).not.toThrow();
+      expect(transport.getLastEntry()?.entity).toEqual({ id: '4', self: '[Circular]' });
+    });
+
+    it('should fall back to serialize() when a serializer throws', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new ArrayTransport();
+      const logger = new Logger(
+        'app',
+        transport,
+        'info',
+        {},
+        {
+          serializers: {
+            data: () => {
+              throw new Error('broken serializer');
+            },
+          },
+        }
+      );
+
+      logger.info({ data: { ok: true } }, 'fallback');
+
+      expect(transport.getLastEntry()?.data).toEqual({ ok: true });
+      expect(errorSpy).toHaveBeenCalled();
+    });
+
+    it('should mask serializer output in the compliance pipeline', () => {
+      const transport = new ArrayTransport();
+      const masking = new MaskingEngine({ enableDefaultRules: false });
+      masking.addRule({ pattern: /authorization/i, strategy: MaskingStrategy.TOKEN });
+      const logger = new Logger(
+        'app',
+        transport,
+        'info',
+        {},
+        {
+          sanitizationEngine: new SanitizationEngine(masking),
+          serializers: stdSerializers,
+        }
+      );
+      const req = { method: 'GET', url: '/', headers: { authorization: 'Bearer abcdef123456' } };
+
+      logger.info({ req }, 'masked');
+
+      const log = transport.getLastEntry<{ req: SerializedRequest }>();
+      expect(log?.req.method).toBe('GET');
+      expect(log?.req.headers.authorization).not.toContain('abcdef123456');
+    });
+  });
+});
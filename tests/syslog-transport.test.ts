@@ -0,0 +1,339 @@
+/**
+ * Tests for SyslogTransport
+ * Tests for RFC 5424/3164 formatting, UDP and TCP delivery, and reconnects
+ */
+
+import { createSocket } from 'node:dgram';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { type Server, type Socket, createServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { SyslogTransport } from '../src/transports/syslog';
+
+const entry = {
+  timestamp: Date.UTC(2025, 0, 2, 3, 4, 5, 678),
+  level: 'error' as const,
+  message: 'payment failed',
+  service: 'checkout',
+};
+
+/** Parse RFC 6587 octet-counted frames from a TCP byte stream */
+const parseOctetFrames = (data: string): string[] => {
+  const frames: string[] = [];
+  let rest = data;
+  while (rest.length > 0) {
+    const space = rest.indexOf(' ');
+    const length = Number(rest.slice(0, space));
+    frames.push(rest.slice(space + 1, space + 1 + length));
+    rest = rest.slice(space + 1 + length);
+  }
+  return frames;
+};
+
+describe('SyslogTransport', () => {
+  const transports: SyslogTransport[] = [];
+  const create = (options: ConstructorParameters<typeof SyslogTransport>[0]) => {
+    const transport = new SyslogTransport({ hostname: 'host1', ...options });
+    transports.push(transport);
+    return transport;
+  };
+
+  afterEach(async () => {
+    await Promise.all(transports.splice(0).map((t) => t.close()));
+  });
+
+  describe('Formatting', () => {
+    it('should format RFC 5424 with PRI, header and NILVALUE structured data', () => {
+      const transport = create({ facility: 'local0' });
+
+      expect(transport.formatEntry(entry)).toBe(
+        `<131>1 2025-01-02T03:04:05.678Z host1 checkout ${process.pid} - - payment failed`
+      );
+    });
+
+    it('should put extra fields in STRUCTURED-DATA with escaping', () => {
+      const transport = create({ sdId: 'app@32473' });
+      const message = transport.formatEntry({
+        ...entry,
+        requestId: 'r-1',
+        note: 'say "hi" [x]',
+        meta: { a: 1 },
+      });
+
+      expect(message).toContain(
+        '[app@32473 requestId="r-1" note="say \\"hi\\" [x\\]" meta="{\\"a\\":1}"] payment failed'
+      );
+    });
+
+    it('should map levels to syslog severities', () => {
+      const transport = create({ facility: 'user' });
+      const pri = (level: string) =>
+        transport.formatEntry({ ...entry, level: level as never }).match(/^<(\d+)>/)?.[1];
+
+      expect(pri('fatal')).toBe('10');
+      expect(pri('error')).toBe('11');
+      expect(pri('warn')).toBe('12');
+      expect(pri('info')).toBe('14');
+      expect(pri('debug')).toBe('15');
+    });
+
+    it('should format RFC 3164 with tag and pid', () => {
+      const transport = create({ format: 'rfc3164', facility: 4 });
+      const message = transport.formatEntry({ ...entry, userId: 7 });
+
+      expect(message).toMatch(
+        new RegExp(
+          `^<35>[A-Z][a-z]{2} [ \\d]\\d \\d\\d:\\d\\d:\\d\\d host1 checkout\\[${process.pid}\\]: payment failed \\{"userId":7\\}$`
+        )
+      );
+    });
+
+    it('should sanitize APP-NAME and fall back to appName', () => {
+      const transport = create({ appName: 'my app' });
+      const { service: _, ...withoutService } = entry;
+
+      expect(transport.formatEntry(withoutService as typeof entry)).toContain(' myapp ');
+    });
+
+    it('should reject unknown facilities and protocols', () => {
+      expect(() => new SyslogTransport({ facility: 'nope' as never })).toThrow('Unknown facility');
+      expect(() => new SyslogTransport({ protocol: 'http' as never })).toThrow('Unknown protocol');
+    });
+  });
+
+  describe('UDP', () => {
+    it('should send one datagram per entry', async () => {
+      const server = createSocket('udp4');
+      const received: string[] = [];
+      server.on('message', (msg) => received.push(msg.toString()));
+      await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve));
+
+      const transport = create({ host: '127.0.0.1', port: server.address().port });
+      const logger = new Logger('udp-app', transport, 'info');
+      logger.info({ requestId: 'r-9' }, 'hello');
+      logger.debug('filtered by logger level');
+      await logger.flush();
+
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0]).toMatch(
+        /^<14>1 .* host1 udp-app \d+ - \[syntrojs@32473 requestId="r-9"\] hello$/
+      );
+      server.close();
+    });
+
+    it('should truncate long datagrams on a UTF-8 character boundary', async () => {
+      const server = createSocket('udp4');
+      const received: Buffer[] = [];
+      server.on('message', (msg) => received.push(msg));
+      await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve));
+
+      // Three consecutive limits: at least one falls inside a 3-byte '€'
+      const sizes = [100, 101, 102];
+      for (const maxMessageSize of sizes) {
+        const transport = create({
+          host: '127.0.0.1',
+          port: server.address().port,
+          maxMessageSize,
+        });
+        transport.log(JSON.stringify({ ...entry, message: '€'.repeat(100) }));
+        await transport.flush();
+      }
+
+      await vi.waitFor(() => expect(received).toHaveLength(sizes.length));
+      for (const datagram of received) {
+        expect(datagram.length).toBeLessThanOrEqual(102);
+        expect(datagram.length).toBeGreaterThan(97);
+        // Decodes without replacement characters: no split multi-byte sequence
+        expect(Buffer.from(datagram.toString('utf8')).equals(datagram)).toBe(true);
+      }
+      server.close();
+    });
+  });
+
+  describe('TCP', () => {
+    let server: Server;
+    let sockets: Socket[];
+
+    const listen = (port = 0) =>
+      new Promise<{ port: number; data: () => string }>((resolve) => {
+        let buffer = '';
+        sockets = [];
+        server = createServer((socket) => {
+          sockets.push(socket);
+          socket.on('data', (chunk) => {
+            buffer += chunk.toString();
+          });
+        });
+        server.listen(port, '127.0.0.1', () =>
+          resolve({ port: (server.address() as AddressInfo).port, data: () => buffer })
+        );
+      });
+
+    const stop = () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      });
+
+    it('should send octet-counted frames', async () => {
+      const { port, data } = await listen();
+      const transport = create({ protocol: 'tcp', host: '127.0.0.1', port });
+
+      transport.log(JSON.stringify(entry));
+      transport.log(JSON.stringify({ ...entry, message: 'second' }));
+      await transport.flush();
+
+      await vi.waitFor(() => expect(parseOctetFrames(data())).toHaveLength(2));
+      expect(parseOctetFrames(data())[1]).toMatch(/ second$/);
+      await stop();
+    });
+
+    it('should support newline framing', async () => {
+      const { port, data } = await listen();
+      const transport = create({ protocol: 'tcp', host: '127.0.0.1', port, framing: 'newline' });
+
+      transport.log(JSON.stringify(entry));
+      await transport.flush();
+
+      await vi.waitFor(() => expect(data()).toMatch(/payment failed\n$/));
+      await stop();
+    });
+
+    it('should queue while disconnected and reconnect', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const probe = await listen();
+      const port = probe.port;
+      await stop();
+
+      const transport = create({
+        protocol: 'tcp',
+        host: '127.0.0.1',
+        port,
+        reconnectDelayMs: 10,
+        maxReconnectDelayMs: 20,
+      });
+      transport.log(JSON.stringify({ ...entry, message: 'queued' }));
+
+      const { data } = await listen(port);
+      await transport.flush();
+
+      await vi.waitFor(() => expect(data()).toContain('queued'));
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      errorSpy.mockRestore();
+      await stop();
+    });
+
+    it('should requeue frames still being written when the connection drops', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { port, data } = await listen();
+      const transport = create({
+        protocol: 'tcp',
+        host: '127.0.0.1',
+        port,
+        reconnectDelayMs: 10,
+        framing: 'newline',
+      });
+      await vi.waitFor(() => expect(sockets).toHaveLength(1));
+      await transport.flush();
+
+      // Hold the writes in the socket buffer, then lose the connection
+      const socket = (transport as unknown as { socket: Socket }).socket;
+      socket.cork();
+      transport.log(JSON.stringify({ ...entry, message: 'in-flight-1' }));
+      transport.log(JSON.stringify({ ...entry, message: 'in-flight-2' }));
+      socket.destroy();
+      await transport.flush();
+
+      await vi.waitFor(() => expect(data()).toMatch(/in-flight-1\n.*in-flight-2\n$/));
+      expect(sockets).toHaveLength(2);
+      expect(transport.dropped).toBe(0);
+      errorSpy.mockRestore();
+      await stop();
+    });
+
+    it('should drop the oldest queued messages beyond maxQueueSize', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const probe = await listen();
+      await stop();
+
+      const transport = create({
+        protocol: 'tcp',
+        host: '127.0.0.1',
+        port: probe.port,
+        maxQueueSize: 2,
+        reconnectDelayMs: 60_000,
+      });
+      for (let i = 0; i < 5; i++) {
+        transport.log(JSON.stringify({ ...entry, message: `m${i}` }));
+      }
+
+      expect(transport.dropped).toBe(3);
+      expect(() => transport.log('not json')).not.toThrow();
+      await vi.waitFor(() => expect(errorSpy).toHaveBeenCalled());
+      errorSpy.mockRestore();
+    });
+
+    it('should count messages still queued on close as dropped', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const probe = await listen();
+      await stop();
+
+      const transport = new SyslogTransport({
+        protocol: 'tcp',
+        host: '127.0.0.1',
+        port: probe.port,
+        reconnectDelayMs: 60_000,
+      });
+      transport.log(JSON.stringify({ ...entry, message: 'queued-1' }));
+      transport.log(JSON.stringify({ ...entry, message: 'queued-2' }));
+      await transport.close();
+
+      expect(transport.dropped).toBe(2);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('Unix', () => {
+    let dir: string;
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should stop and report when the socket cannot take a stream connection', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      dir = mkdtempSync(join(tmpdir(), 'syntrojs-syslog-'));
+      const path = join(dir, 'log.sock');
+      let connections = 0;
+      const server = createServer(() => {
+        connections++;
+      });
+      await new Promise<void>((resolve) => server.listen(path, resolve));
+
+      const transport = create({ protocol: 'unix', path, reconnectDelayMs: 10 });
+      await vi.waitFor(() => expect(connections).toBe(1));
+
+      // What connecting a stream to a datagram socket (e.g. /dev/log) fails with
+      const socket = (transport as unknown as { socket: Socket }).socket;
+      socket.destroy(Object.assign(new Error('connect EPROTOTYPE'), { code: 'EPROTOTYPE' }));
+      await vi.waitFor(() =>
+        expect(errorSpy).toHaveBeenCalledWith(
+          expect.stringContaining('not a stream socket'),
+          'connect EPROTOTYPE'
+        )
+      );
+
+      transport.log(JSON.stringify(entry));
+      await transport.flush();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(transport.dropped).toBe(1);
+      expect(connections).toBe(1);
+      errorSpy.mockRestore();
+      await new Promise((resolve) => server.close(resolve));
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for ThreadedTransport
+ * Tests for worker offloading, flush/close draining and overflow policies
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger';
+import { ThreadedTransport } from '../src/transports/threaded';
+
+const SINK = fileURLToPath(new URL('./fixtures/file-sink-transport.mjs', import.meta.url));
+
+const readLines = (file: string): string[] =>
+  existsSync(file) ? readFileSync(file, 'utf8').trim().split('\n').filter(Boolean) : [];
+
+describe('ThreadedTransport', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'syntrojs-threaded-'));
+    file = join(dir, 'out.log');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('Constructor', () => {
+    it('should require a target', () => {
+      expect(() => new ThreadedTransport({ target: '' })).toThrow('[ThreadedTransport]');
+    });
+
+    it('should reject non-JSON options', () => {
+      expect(
+        () => new ThreadedTransport({ target: SINK, options: { fn: () => undefined } })
+      ).toThrow('[JSON Validation]');
+    });
+
+    it('should reject tiny buffers', () => {
+      expect(() => new ThreadedTransport({ target: SINK, bufferSize: 8 })).toThrow('bufferSize');
+    });
+
+    it('should point built-in targets at the builtins entry', async () => {
+      const spawned: { target: string; exportName: string }[] = [];
+      vi.resetModules();
+      vi.doMock('node:worker_threads', () => ({
+        Worker: class {
+          constructor(_source: string, options: { workerData: (typeof spawned)[number] }) {
+            spawned.push(options.workerData);
+          }
+          on() {
+            return this;
+          }
+          unref() {}
+        },
+      }));
+
+      try {
+        const threaded = await import('../src/transports/threaded');
+        new threaded.ThreadedTransport({ target: 'json' });
+        new threaded.ThreadedTransport({ target: 'file', options: { path: file } });
+      } finally {
+        vi.doUnmock('node:worker_threads');
+        vi.resetModules();
+      }
+
+      // The worker imports the same module: every built-in must be exported by it
+      const builtins = await import(spawned[0]?.target ?? '');
+      expect(spawned.map(({ exportName }) => exportName)).toEqual([
+        'JsonTransport',
+        'FileTransport',
+      ]);
+      expect(spawned[0]?.target).toMatch(/\/transports\/builtins\.ts$/);
+      expect(spawned[1]?.target).toBe(spawned[0]?.target);
+      for (const exportName of [
+        'JsonTransport',
+        'FileTransport',
+        'PrettyTransport',
+        'CompactTransport',
+        'ClassicTransport',
+      ]) {
+        expect(typeof builtins[exportName]?.prototype.log).toBe('function');
+      }
+    });
+  });
+
+  describe('Delivery', () => {
+    it('should deliver lines to a class export and drain on flush', async () => {
+      const transport = new ThreadedTransport({
+        target: SINK,
+        exportName: 'FileSinkTransport',
+        options: { path: file },
+      });
+
+      transport.log('{"message":"one"}');
+      transport.log({ timestamp: 1, level: 'info', message: 'two' });
+      await transport.flush();
+
+      const lines = readLines(file);
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).message).toBe('two');
+
+      await transport.close();
+    });
+
+    it('should construct the target through a factory default export', async () => {
+      const transport = new ThreadedTransport({ target: SINK, options: { path: file } });
+
+      transport.log('{"message":"factory"}');
+      await transport.close();
+
+      expect(readLines(file)).toEqual(['{"message":"factory"}', 'closed']);
+    });
+
+    it('should preserve order across buffer wrap-around', async () => {
+      const transport = new ThreadedTransport({
+        target: SINK,
+        options: { path: file },
+        bufferSize: 256,
+      });
+      const logger = new Logger('threaded', transport, 'info');
+
+      for (let i = 0; i < 200; i++) {
+        logger.info({ i }, 'ñ-entry');
+      }
+      await logger.close();
+
+      const indexes = readLines(file)
+        .filter((line) => line !== 'closed')
+        .map((line) => JSON.parse(line).i);
+      expect(indexes).toEqual(Array.from({ length: 200 }, (_, i) => i));
+      expect(transport.dropped).toBe(0);
+    });
+
+    it('should drop entries after close', async () => {
+      const transport = new ThreadedTransport({ target: SINK, options: { path: file } });
+      await transport.close();
+
+      transport.log('late');
+      expect(transport.dropped).toBe(1);
+    });
+
+    it('should release flush when the target cannot be loaded', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new ThreadedTransport({ target: join(dir, 'missing.mjs') });
+
+      await transport.flush();
+
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('Overflow policies', () => {
+    const slowSink = (overflow: 'drop-newest' | 'drop-oldest') =>
+      new ThreadedTransport({
+        target: SINK,
+        options: { path: file, delayMs: 20 },
+        bufferSize: 128,
+        overflow,
+      });
+
+    it('should drop new lines when the buffer is full (drop-newest)', async () => {
+      const transport = slowSink('drop-newest');
+
+      for (let i = 0; i < 50; i++) {
+        transport.log(`{"i":${i}}`);
+      }
+      await transport.close();
+
+      const lines = readLines(file).filter((line) => line !== 'closed');
+      expect(transport.dropped).toBeGreaterThan(0);
+      expect(lines.length + transport.dropped).toBe(50);
+      expect(JSON.parse(lines[0]).i).toBe(0);
+    });
+
+    it('should evict old lines when the buffer is full (drop-oldest)', async () => {
+      const transport = slowSink('drop-oldest');
+
+      for (let i = 0; i < 50; i++) {
+        transport.log(`{"i":${i}}`);
+      }
+      await transport.close();
+
+      const lines = readLines(file).filter((line) => line !== 'closed');
+      expect(transport.dropped).toBeGreaterThan(0);
+      expect(JSON.parse(lines[lines.length - 1]).i).toBe(49);
+    });
+
+    it('should wait for room when blocking', async () => {
+      const transport = new ThreadedTransport({
+        target: SINK,
+        options: { path: file, delayMs: 2 },
+        bufferSize: 128,
+        overflow: 'block',
+        blockTimeoutMs: 5000,
+      });
+
+      for (let i = 0; i < 30; i++) {
+        transport.log(`{"i":${i}}`);
+      }
+      await transport.close();
+
+      expect(transport.dropped).toBe(0);
+      expect(readLines(file).filter((line) => line !== 'closed')).toHaveLength(30);
+    });
+  });
+});
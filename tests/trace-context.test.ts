@@ -0,0 +1,231 @@
+/**
+ * Tests for W3C Trace Context support
+ * Tests for traceparent/tracestate parsing, AsyncContext helpers and Logger trace fields
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Logger } from '../src/Logger';
+import { AsyncContext } from '../src/context/Context';
+import {
+  createTraceContext,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+  parseTracestate,
+} from '../src/context/TraceContext';
+import { MaskingEngine } from '../src/masking/MaskingEngine';
+import { SanitizationEngine } from '../src/sanitization/SanitizationEngine';
+import { ArrayTransport } from '../src/transports/array';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+describe('Trace Context', () => {
+  describe('traceparent', () => {
+    it('should parse a valid header', () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        traceId: TRACE_ID,
+        spanId: PARENT_ID,
+        traceFlags: '01',
+      });
+      expect(parseTraceparent([` ${TRACEPARENT} `, 'ignored'])?.traceId).toBe(TRACE_ID);
+    });
+
+    it.each([
+      ['missing', undefined],
+      ['uppercase hex', `00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01`],
+      ['short trace id', `00-${TRACE_ID.slice(1)}-${PARENT_ID}-01`],
+      ['all-zero trace id', `00-${'0'.repeat(32)}-${PARENT_ID}-01`],
+      ['all-zero span id', `00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+      ['version ff', `ff-${TRACE_ID}-${PARENT_ID}-01`],
+      ['version 00 with extra fields', `${TRACEPARENT}-extra`],
+      ['garbage', 'not-a-traceparent'],
+    ])('should reject %s', (_, header) => {
+      expect(parseTraceparent(header)).toBeUndefined();
+    });
+
+    it('should accept future versions with extra fields', () => {
+      expect(parseTraceparent(`cc-${TRACE_ID}-${PARENT_ID}-01-future`)?.spanId).toBe(PARENT_ID);
+    });
+
+    it('should format version 00 headers', () => {
+      expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, traceFlags: '00' })).toBe(
+        `00-${TRACE_ID}-${PARENT_ID}-00`
+      );
+    });
+  });
+
+  describe('tracestate', () => {
+    it('should normalize valid lists and join repeated headers', () => {
+      expect(parseTracestate('rojo=00f067aa0ba902b7 , congo=t61rcWkgMzE')).toBe(
+        'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE'
+      );
+      expect(parseTracestate(['a=1', 'tenant@vendor=2'])).toBe('a=1,tenant@vendor=2');
+    });
+
+    it.each([
+      ['duplicate keys', 'a=1,a=2'],
+      ['uppercase key', 'Rojo=1'],
+      ['missing value', 'a='],
+      ['missing key', '=1'],
+      ['too many members', Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(',')],
+      ['empty', ' , '],
+    ])('should reject %s', (_, header) => {
+      expect(parseTracestate(header)).toBeUndefined();
+    });
+  });
+
+  describe('Id generation', () => {
+    it('should generate lowercase hex ids of the right length', () => {
+      expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+      expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+      expect(generateTraceId()).not.toBe(generateTraceId());
+    });
+
+    it('should continue an incoming trace with a new local span', () => {
+      const context = createTraceContext({ traceparent: TRACEPARENT, tracestate: 'a=1' });
+
+      expect(context.traceId).toBe(TRACE_ID);
+      expect(context.parentSpanId).toBe(PARENT_ID);
+      expect(context.spanId).not.toBe(PARENT_ID);
+      expect(context.traceState).toBe('a=1');
+    });
+
+    it('should start a new sampled trace and drop tracestate without a valid parent', () => {
+      const context = createTraceContext({ traceparent: 'bogus', tracestate: 'a=1' });
+
+      expect(context.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(context.traceFlags).toBe('01');
+      expect(context.parentSpanId).toBeUndefined();
+      expect(context.traceState).toBeUndefined();
+    });
+  });
+
+  describe('AsyncContext', () => {
+    it('should keep the trace in context and build outgoing headers from child spans', () => {
+      AsyncContext.run(() => {
+        const started = AsyncContext.startTrace({ traceparent: TRACEPARENT, tracestate: 'a=1' });
+        expect(AsyncContext.getTraceContext()).toBe(started);
+
+        const child = AsyncContext.createChildSpan();
+        expect(child?.parentSpanId).toBe(started.spanId);
+        expect(AsyncContext.getTraceContext()?.spanId).toBe(started.spanId);
+
+        const headers = AsyncContext.getTraceHeaders();
+        const outgoing = parseTraceparent(headers.traceparent);
+        expect(outgoing?.traceId).toBe(TRACE_ID);
+        expect(outgoing?.spanId).not.toBe(started.spanId);
+        expect(headers.tracestate).toBe('a=1');
+
+        expect(AsyncContext.getTraceHeaders(started).traceparent).toBe(formatTraceparent(started));
+      });
+    });
+
+    it('should return nothing when no trace is active', () => {
+      AsyncContext.run(() => {
+        expect(AsyncContext.getTraceContext()).toBeUndefined();
+        expect(AsyncContext.createChildSpan()).toBeUndefined();
+        expect(AsyncContext.getTraceHeaders()).toEqual({});
+      });
+    });
+  });
+
+  describe('Logger', () => {
+    it('should emit trace_id, span_id and trace_flags', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('api', transport, 'info');
+
+      AsyncContext.run(() => {
+        const trace = AsyncContext.startTrace({ traceparent: TRACEPARENT });
+        logger.info({ orderId: 1 }, 'handled');
+
+        const log = transport.getLastEntry();
+        expect(log?.trace_id).toBe(TRACE_ID);
+        expect(log?.span_id).toBe(trace.spanId);
+        expect(log?.trace_flags).toBe('01');
+        expect(log).not.toHaveProperty('traceContext');
+      });
+    });
+
+    it('should use configured field names, inherited by children', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger(
+        'api',
+        transport,
+        'info',
+        {},
+        { traceFields: { traceId: 'traceId', spanId: 'spanId' } }
+      ).child({ module: 'db' });
+
+      AsyncContext.run(() => {
+        AsyncContext.startTrace({ traceparent: TRACEPARENT });
+        logger.info('query');
+      });
+
+      const log = transport.getLastEntry();
+      expect(log?.traceId).toBe(TRACE_ID);
+      expect(log?.spanId).toBeDefined();
+      expect(log?.trace_flags).toBe('01');
+      expect(log).not.toHaveProperty('trace_id');
+    });
+
+    it('should emit trace fields through the compliance pipeline and logging matrix', () => {
+      const transport = new ArrayTransport();
+      const masking = new MaskingEngine();
+      const logger = new Logger(
+        'api',
+        transport,
+        'info',
+        {},
+        {
+          sanitizationEngine: new SanitizationEngine(masking),
+          maskingEngine: masking,
+          loggingMatrix: { default: ['trace_id'] },
+        }
+      );
+
+      AsyncContext.run(() => {
+        AsyncContext.startTrace({ traceparent: TRACEPARENT });
+        logger.info('filtered');
+      });
+
+      const log = transport.getLastEntry();
+      expect(log?.trace_id).toBe(TRACE_ID);
+      expect(log).not.toHaveProperty('span_id');
+      expect(log).not.toHaveProperty('traceContext');
+    });
+
+    it('should skip malformed trace contexts and emit only the ids that are set', () => {
+      const transport = new ArrayTransport();
+      const logger = new Logger('api', transport, 'info');
+      const masking = new MaskingEngine();
+      const compliant = new Logger(
+        'api',
+        transport,
+        'info',
+        {},
+        { sanitizationEngine: new SanitizationEngine(masking), maskingEngine: masking }
+      );
+
+      AsyncContext.run(() => {
+        AsyncContext.set('orderId', 1);
+        AsyncContext.set('traceContext', null);
+        logger.info('null trace');
+        compliant.info('null trace');
+
+        AsyncContext.set('traceContext', { traceId: TRACE_ID });
+        logger.info('partial trace');
+      });
+
+      const [plain, processed, partial] = transport.getParsedEntries();
+      expect(plain).toMatchObject({ orderId: 1, message: 'null trace' });
+      expect(processed).toMatchObject({ orderId: 1, message: 'null trace' });
+      expect(plain).not.toHaveProperty('trace_id');
+      expect(processed).not.toHaveProperty('traceContext');
+      expect(partial?.trace_id).toBe(TRACE_ID);
+      expect(partial).not.toHaveProperty('span_id');
+    });
+  });
+});
@@ -3,7 +3,8 @@
  * Tests for json, pretty, compact, classic, and composite transports
  */
 
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { CompositeTransport } from '../src/transports/CompositeTransport';
 import { ClassicTransport } from '../src/transports/classic';
 import { CompactTransport } from '../src/transports/compact';
@@ -85,6 +86,149 @@ describe('Transports', () => {
 
       writeSpy.mockRestore();
     });
+
+    describe('Auto-flush and backpressure', () => {
+      /** Destination that reports backpressure until drained manually */
+      const createDestination = (accept = true) => {
+        const chunks: string[] = [];
+        const destination = new PassThrough();
+        destination.write = ((chunk: string) => {
+          chunks.push(chunk);
+          return accept;
+        }) as typeof destination.write;
+        return { destination, chunks };
+      };
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should flush buffered entries after flushInterval', () => {
+        vi.useFakeTimers();
+        const { destination, chunks } = createDestination();
+        const transport = new JsonTransport({ bufferSize: 100, flushInterval: 50, destination });
+
+        transport.log('entry1');
+        expect(chunks).toHaveLength(0);
+
+        vi.advanceTimersByTime(50);
+
+        expect(chunks).toEqual(['entry1\n']);
+      });
+
+      it('should not arm a timer when flushInterval is 0', () => {
+        vi.useFakeTimers();
+        const { destination, chunks } = createDestination();
+        const transport = new JsonTransport({ bufferSize: 100, flushInterval: 0, destination });
+
+        transport.log('entry1');
+        vi.advanceTimersByTime(10_000);
+
+        expect(chunks).toHaveLength(0);
+      });
+
+      it('should drain buffered entries on process exit', () => {
+        const { destination, chunks } = createDestination();
+        const transport = new JsonTransport({ bufferSize: 100, destination });
+
+        transport.log('pending');
+
+        const exitHook = process
+          .listeners('exit')
+          .find((listener) => listener.name === 'drainAllOnExit');
+        expect(exitHook).toBeDefined();
+        exitHook?.(0);
+
+        expect(chunks).toEqual(['pending\n']);
+      });
+
+      it('should not drain on exit when flushOnExit is false', () => {
+        const { destination, chunks } = createDestination();
+        const transport = new JsonTransport({
+          bufferSize: 100,
+          flushOnExit: false,
+          destination,
+        });
+
+        transport.log('pending');
+        process.listeners('exit').find((listener) => listener.name === 'drainAllOnExit')?.(0);
+
+        expect(chunks).toHaveLength(0);
+      });
+
+      it('should write immediately by default without installing signal handlers', () => {
+        const signalListeners = process.listenerCount('SIGTERM');
+        const { destination, chunks } = createDestination();
+        const transport = new JsonTransport({ destination });
+
+        transport.log('entry1');
+
+        expect(chunks).toEqual(['entry1\n']);
+        expect(process.listenerCount('SIGTERM')).toBe(signalListeners);
+      });
+
+      it('should install signal handlers only with flushOnSignal', () => {
+        const signalListeners = process.listenerCount('SIGTERM');
+
+        new JsonTransport({ bufferSize: 100, flushOnSignal: true });
+        new JsonTransport({ bufferSize: 100, flushOnSignal: true });
+
+        expect(process.listenerCount('SIGTERM')).toBe(signalListeners + 1);
+      });
+
+      it('should cap the buffer and count dropped lines while stdout is stalled', () => {
+        const { destination, chunks } = createDestination(false);
+        const transport = new JsonTransport({ bufferSize: 1, maxBufferedBytes: 20, destination });
+
+        transport.log('first');
+        for (let i = 0; i < 10; i++) {
+          transport.log(`line-${i}`);
+        }
+
+        // 'line-0\n' is 7 bytes: two fit under the cap, the rest are dropped
+        expect(transport.dropped).toBe(8);
+        destination.emit('drain');
+        expect(chunks).toEqual(['first\n', 'line-0\nline-1\n']);
+      });
+
+      it('should stop waiting when the destination closes or is destroyed', async () => {
+        const { destination, chunks } = createDestination(false);
+        const transport = new JsonTransport({ bufferSize: 1, destination });
+
+        transport.log('first');
+        transport.log('second');
+        const flushed = transport.close();
+        destination.emit('close');
+        await flushed;
+
+        expect(chunks).toEqual(['first\n']);
+        expect(transport.dropped).toBe(1);
+
+        destination.destroy();
+        transport.log('third');
+        await transport.close();
+        expect(transport.dropped).toBe(2);
+      });
+
+      it('should hold entries while the destination applies backpressure', async () => {
+        const { destination, chunks } = createDestination(false);
+        const transport = new JsonTransport({ bufferSize: 1, destination });
+
+        transport.log('first');
+        transport.log('second');
+        transport.log('third');
+
+        // Only the first write went out; the rest wait for 'drain'
+        expect(chunks).toEqual(['first\n']);
+
+        const flushed = transport.flush();
+        destination.emit('drain');
+        destination.emit('drain');
+        await flushed;
+
+        expect(chunks).toEqual(['first\n', 'second\nthird\n']);
+      });
+    });
   });
 
   describe('PrettyTransport', () => {
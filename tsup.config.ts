@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    'syntrojs-decrypt': 'src/cli/syntrojs-decrypt.ts',
+    builtins: 'src/transports/builtins.ts',
+  },
   format: ['esm'],
   dts: true,
   sourcemap: true,
@@ -10,4 +14,3 @@ export default defineConfig({
   treeshake: true,
   splitting: false,
 });
-